@@ -0,0 +1,221 @@
+/**
+ * Terrain rule sets for automatic tile selection ("autotiling").
+ *
+ * A rule set maps neighbor bitmasks to tile indices of a tileset. While painting,
+ * terrain membership is tracked per cell (blob47, wang16) or per cell corner
+ * (corner4), and every affected cell is replaced by the tile registered for its mask.
+ * Neighbors outside the map count as part of the terrain, so map borders stay seamless.
+ */
+
+import { getTileId } from "./tilemap";
+
+/**
+ * - `blob47`: 8 neighbors; diagonals only count when both adjacent edges match (47 tiles)
+ * - `wang16`: 4 edge neighbors (16 tiles)
+ * - `corner4`: terrain on the 4 corners of each cell, painted a 2x2 cell block at a time (16 tiles)
+ */
+export type TerrainScheme = "blob47" | "wang16" | "corner4";
+
+export const TERRAIN_SCHEMES: TerrainScheme[] = ["blob47", "wang16", "corner4"];
+
+export interface TerrainRuleSet {
+  name: string;
+  scheme: TerrainScheme;
+  /** Zero-based tile index keyed by neighbor bitmask */
+  tiles: Record<string, number>;
+}
+
+// blob47 bits, clockwise from north
+export const BLOB_N = 1;
+export const BLOB_NE = 2;
+export const BLOB_E = 4;
+export const BLOB_SE = 8;
+export const BLOB_S = 16;
+export const BLOB_SW = 32;
+export const BLOB_W = 64;
+export const BLOB_NW = 128;
+
+// wang16 bits, clockwise from north
+export const WANG_N = 1;
+export const WANG_E = 2;
+export const WANG_S = 4;
+export const WANG_W = 8;
+
+// corner4 bits, clockwise from north-east
+export const CORNER_NE = 1;
+export const CORNER_SE = 2;
+export const CORNER_SW = 4;
+export const CORNER_NW = 8;
+
+const FULL_MASK: Record<TerrainScheme, number> = { blob47: 255, wang16: 15, corner4: 15 };
+
+/**
+ * Drops diagonal bits whose adjacent edges are not both set.
+ */
+export function normalizeBlobMask(mask: number): number {
+  let result = mask & (BLOB_N | BLOB_E | BLOB_S | BLOB_W);
+  if (mask & BLOB_NE && mask & BLOB_N && mask & BLOB_E) result |= BLOB_NE;
+  if (mask & BLOB_SE && mask & BLOB_S && mask & BLOB_E) result |= BLOB_SE;
+  if (mask & BLOB_SW && mask & BLOB_S && mask & BLOB_W) result |= BLOB_SW;
+  if (mask & BLOB_NW && mask & BLOB_N && mask & BLOB_W) result |= BLOB_NW;
+  return result;
+}
+
+const BLOB_MASKS = Array.from(
+  new Set(Array.from({ length: 256 }, (_, mask) => normalizeBlobMask(mask)))
+).sort((a, b) => a - b);
+
+const SIXTEEN_MASKS = Array.from({ length: 16 }, (_, mask) => mask);
+
+/**
+ * Every distinct mask a scheme can produce, in ascending order.
+ */
+export function getSchemeMasks(scheme: TerrainScheme): number[] {
+  return scheme === "blob47" ? BLOB_MASKS : SIXTEEN_MASKS;
+}
+
+export function createTerrain(name: string, scheme: TerrainScheme): TerrainRuleSet {
+  return { name, scheme, tiles: {} };
+}
+
+/**
+ * Tile index for a mask, falling back to the fully surrounded tile and then to any tile
+ * so partially configured rule sets still paint something.
+ */
+export function getTerrainTile(terrain: TerrainRuleSet, mask: number): number | undefined {
+  const tiles = terrain.tiles;
+  return tiles[mask] ?? tiles[FULL_MASK[terrain.scheme]] ?? Object.values(tiles)[0];
+}
+
+/**
+ * Applies terrain painting to a layer grid and returns the updated grid.
+ * Painted cells join (or with `erase`, leave) the terrain; they and their
+ * 8 neighbors are then re-tiled from the rule set. Grid values are tile values
+ * (tile index + 1, see tilemap.ts). Returns the input grid when nothing changes;
+ * otherwise untouched rows are shared.
+ */
+export function applyTerrain(
+  data: number[][],
+  terrain: TerrainRuleSet,
+  cells: Array<{ x: number; y: number }>,
+  erase = false
+): number[][] {
+  const height = data.length;
+  const width = data[0]?.length ?? 0;
+  const inBounds = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+
+  // Reverse lookup: tile value -> mask it was registered for
+  const maskOf = new Map<number, number>();
+  for (const [mask, index] of Object.entries(terrain.tiles)) {
+    if (!maskOf.has(index + 1)) maskOf.set(index + 1, Number(mask));
+  }
+  const cellMask = (x: number, y: number) => maskOf.get(getTileId(data[y]?.[x] ?? 0));
+
+  const painted = cells.filter(({ x, y }) => inBounds(x, y));
+  if (painted.length === 0) return data;
+
+  const affected = new Map<number, { x: number; y: number }>();
+  for (const { x, y } of painted) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (inBounds(x + dx, y + dy)) affected.set((y + dy) * width + x + dx, { x: x + dx, y: y + dy });
+      }
+    }
+  }
+  const paintedKeys = new Set(painted.map(({ x, y }) => y * width + x));
+
+  const changes = new Map<number, Map<number, number>>();
+  const setTile = (x: number, y: number, mask: number | null) => {
+    const index = mask === null ? -1 : getTerrainTile(terrain, mask);
+    if (index === undefined || data[y][x] === index + 1) return;
+    if (!changes.has(y)) changes.set(y, new Map());
+    changes.get(y)!.set(x, index + 1);
+  };
+  const result = (): number[][] => {
+    if (changes.size === 0) return data;
+    return data.map((row, y) => {
+      const rowChanges = changes.get(y);
+      if (!rowChanges) return row;
+      const next = [...row];
+      rowChanges.forEach((value, x) => (next[x] = value));
+      return next;
+    });
+  };
+
+  if (terrain.scheme === "corner4") {
+    // Terrain lives on cell corners; vertex (vx, vy) is the top-left corner of cell (vx, vy)
+    const vertexOverrides = new Map<number, boolean>();
+    for (const { x, y } of painted) {
+      for (const [vx, vy] of [[x, y], [x + 1, y], [x, y + 1], [x + 1, y + 1]]) {
+        vertexOverrides.set(vy * (width + 1) + vx, !erase);
+      }
+    }
+    const vertex = (vx: number, vy: number): boolean => {
+      const override = vertexOverrides.get(vy * (width + 1) + vx);
+      if (override !== undefined) return override;
+      const around: Array<[number, number, number]> = [
+        [vx - 1, vy - 1, CORNER_SE],
+        [vx, vy - 1, CORNER_SW],
+        [vx - 1, vy, CORNER_NE],
+        [vx, vy, CORNER_NW]
+      ];
+      return around.some(([x, y, bit]) => {
+        const mask = inBounds(x, y) ? cellMask(x, y) : undefined;
+        return mask !== undefined && (mask & bit) !== 0;
+      });
+    };
+
+    for (const [key, { x, y }] of affected) {
+      const mask =
+        (vertex(x + 1, y) ? CORNER_NE : 0) |
+        (vertex(x + 1, y + 1) ? CORNER_SE : 0) |
+        (vertex(x, y + 1) ? CORNER_SW : 0) |
+        (vertex(x, y) ? CORNER_NW : 0);
+      if (mask !== 0) {
+        setTile(x, y, mask);
+      } else if (paintedKeys.has(key) || cellMask(x, y) !== undefined) {
+        setTile(x, y, null);
+      }
+    }
+    return result();
+  }
+
+  const member = (x: number, y: number): boolean => {
+    if (!inBounds(x, y)) return true;
+    if (paintedKeys.has(y * width + x)) return !erase;
+    return cellMask(x, y) !== undefined;
+  };
+
+  for (const [key, { x, y }] of affected) {
+    if (!member(x, y)) {
+      if (paintedKeys.has(key)) setTile(x, y, null);
+      continue;
+    }
+    if (terrain.scheme === "wang16") {
+      setTile(
+        x,
+        y,
+        (member(x, y - 1) ? WANG_N : 0) |
+          (member(x + 1, y) ? WANG_E : 0) |
+          (member(x, y + 1) ? WANG_S : 0) |
+          (member(x - 1, y) ? WANG_W : 0)
+      );
+    } else {
+      setTile(
+        x,
+        y,
+        normalizeBlobMask(
+          (member(x, y - 1) ? BLOB_N : 0) |
+            (member(x + 1, y - 1) ? BLOB_NE : 0) |
+            (member(x + 1, y) ? BLOB_E : 0) |
+            (member(x + 1, y + 1) ? BLOB_SE : 0) |
+            (member(x, y + 1) ? BLOB_S : 0) |
+            (member(x - 1, y + 1) ? BLOB_SW : 0) |
+            (member(x - 1, y) ? BLOB_W : 0) |
+            (member(x - 1, y - 1) ? BLOB_NW : 0)
+        )
+      );
+    }
+  }
+  return result();
+}
@@ -0,0 +1,740 @@
+/**
+ * AngelCode BMFont (.fnt) descriptors: reading and writing the text, XML and
+ * binary (version 3) variants, and conversion to and from sprite font assets.
+ */
+import type { GlyphMetrics, SpriteFontAsset } from "./sprite-font";
+import { SPRITE_FONT_VERSION, getGlyphSource, hasStackedPages } from "./sprite-font";
+import { hasGlyphEffects } from "./glyph-effects";
+
+export type BMFontFormat = "text" | "xml" | "binary";
+
+export const BMFONT_FORMATS: ReadonlyArray<{ id: BMFontFormat; label: string }> = [
+  { id: "text", label: "Text" },
+  { id: "xml", label: "XML" },
+  { id: "binary", label: "Binary" }
+];
+
+export interface BMFontChar {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  xoffset: number;
+  /** Offset from the top of the line, not from the baseline */
+  yoffset: number;
+  xadvance: number;
+  page: number;
+  /** Channels holding the glyph: 1 blue, 2 green, 4 red, 8 alpha, 15 all */
+  chnl: number;
+}
+
+export interface BMFontKerning {
+  first: number;
+  second: number;
+  amount: number;
+}
+
+export interface BMFont {
+  info: {
+    face: string;
+    /** Negative when the size is the cell height rather than the em size */
+    size: number;
+    bold: boolean;
+    italic: boolean;
+    unicode: boolean;
+    stretchH: number;
+    smooth: boolean;
+    aa: number;
+    /** Up, right, down, left */
+    padding: [number, number, number, number];
+    /** Horizontal, vertical */
+    spacing: [number, number];
+    outline: number;
+  };
+  common: {
+    lineHeight: number;
+    /** Baseline distance from the top of the line */
+    base: number;
+    scaleW: number;
+    scaleH: number;
+    packed: boolean;
+    /** Channel contents: 0 glyph, 1 outline, 2 glyph and outline, 3 zero, 4 one */
+    alphaChnl: number;
+    redChnl: number;
+    greenChnl: number;
+    blueChnl: number;
+  };
+  /** Page image filenames, relative to the .fnt file */
+  pages: string[];
+  chars: BMFontChar[];
+  kernings: BMFontKerning[];
+}
+
+const BINARY_MAGIC = [0x42, 0x4d, 0x46]; // "BMF"
+const BINARY_VERSION = 3;
+const CHAR_SIZE = 20;
+const KERNING_SIZE = 10;
+
+// Binary bit fields, numbered from the high bit as in the BMFont documentation
+const INFO_SMOOTH = 0x80;
+const INFO_UNICODE = 0x40;
+const INFO_ITALIC = 0x20;
+const INFO_BOLD = 0x10;
+const COMMON_PACKED = 0x01;
+
+// common/ has no DOM or Node types, so strings are converted to and from UTF-8 here
+function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const cp = char.codePointAt(0) ?? 0;
+    if (cp < 0x80) {
+      bytes.push(cp);
+    } else if (cp < 0x800) {
+      bytes.push(0xc0 | (cp >> 6), 0x80 | (cp & 0x3f));
+    } else if (cp < 0x10000) {
+      bytes.push(0xe0 | (cp >> 12), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+    } else {
+      bytes.push(0xf0 | (cp >> 18), 0x80 | ((cp >> 12) & 0x3f), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  const chars: string[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const lead = bytes[i];
+    const length = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+    let cp = length === 1 ? lead : lead & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      cp = (cp << 6) | ((bytes[i + j] ?? 0) & 0x3f);
+    }
+    chars.push(String.fromCodePoint(cp <= 0x10ffff ? cp : 0xfffd));
+    i += length;
+  }
+  return chars.join("");
+}
+
+// ---------------------------------------------------------------------------
+// Sprite font conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Describe a sprite font as a BMFont. A stacked page image becomes a single tall
+ * page, since BMFont pages are always separate images.
+ */
+export function spriteFontToBMFont(asset: SpriteFontAsset): BMFont {
+  const { info } = asset;
+  const stacked = hasStackedPages(asset);
+  const msdf = info.distanceField?.type === "msdf";
+  // Effects bake colors into the glyphs, so no channel is plain white
+  const effects = hasGlyphEffects(info.effects);
+  const baked = info.effects?.outline ? 2 : 0;
+  const padding = info.padding;
+  const spacing = info.spacing ?? 0;
+  const glyphs = Object.values(asset.glyphs).sort((a, b) => a.codepoint - b.codepoint);
+
+  const chars = glyphs.map((glyph): BMFontChar => {
+    const source = getGlyphSource(asset, glyph);
+    return {
+      id: glyph.codepoint,
+      x: source.x,
+      y: source.y,
+      width: glyph.width,
+      height: glyph.height,
+      xoffset: glyph.xOffset,
+      yoffset: info.baseline + glyph.yOffset,
+      // BMFont metrics are integers; fractional advances and kerning are rounded
+      xadvance: Math.round(glyph.xAdvance),
+      page: stacked ? 0 : glyph.page,
+      chnl: 15
+    };
+  });
+
+  const kernings: BMFontKerning[] = [];
+  for (const glyph of glyphs) {
+    for (const [second, value] of Object.entries(glyph.kerning ?? {})) {
+      const amount = Math.round(value);
+      if (amount !== 0) {
+        kernings.push({ first: glyph.codepoint, second: Number(second), amount });
+      }
+    }
+  }
+
+  return {
+    info: {
+      face: info.face,
+      size: info.size,
+      bold: info.weight === "bold",
+      italic: info.style === "italic",
+      unicode: true,
+      stretchH: 100,
+      smooth: info.antialias,
+      aa: 1,
+      padding: [padding, padding, padding, padding],
+      spacing: [spacing, spacing],
+      outline: Math.ceil(info.effects?.outline?.width ?? 0)
+    },
+    common: {
+      lineHeight: info.lineHeight,
+      base: info.baseline,
+      scaleW: asset.pageSize.width,
+      scaleH: stacked ? asset.pageSize.height * info.pages : asset.pageSize.height,
+      packed: false,
+      // White glyphs on a transparent background, MSDF distances in opaque color channels,
+      // or glyphs (and outlines) baked with their effects
+      alphaChnl: msdf ? 4 : effects ? baked : 0,
+      redChnl: msdf ? 0 : effects ? baked : 4,
+      greenChnl: msdf ? 0 : effects ? baked : 4,
+      blueChnl: msdf ? 0 : effects ? baked : 4
+    },
+    pages: stacked ? [asset.pages[0]] : [...asset.pages],
+    chars,
+    kernings
+  };
+}
+
+/**
+ * Build a sprite font asset from a BMFont. Glyph bounds are not stored in BMFont
+ * files, so they are derived from the glyph rects minus padding.
+ */
+export function bmfontToSpriteFont(font: BMFont): SpriteFontAsset {
+  const { info, common } = font;
+  const [padUp, padRight, padDown, padLeft] = info.padding;
+
+  const glyphs: Record<string, GlyphMetrics> = {};
+  for (const char of font.chars) {
+    const yMax = common.base - char.yoffset - padUp;
+    const xMin = char.xoffset + padLeft;
+    glyphs[char.id.toString()] = {
+      codepoint: char.id,
+      xAdvance: char.xadvance,
+      xOffset: char.xoffset,
+      yOffset: char.yoffset - common.base,
+      baseline: common.base,
+      bounds: {
+        xMin,
+        xMax: Math.max(xMin, char.xoffset + char.width - padRight),
+        yMin: Math.min(yMax, common.base - char.yoffset - char.height + padDown),
+        yMax
+      },
+      kerning: {},
+      page: char.page,
+      x: char.x,
+      y: char.y,
+      width: char.width,
+      height: char.height
+    };
+  }
+  for (const { first, second, amount } of font.kernings) {
+    const glyph = glyphs[first.toString()];
+    if (glyph && amount !== 0) {
+      glyph.kerning[second] = amount;
+    }
+  }
+
+  return {
+    type: "spritefont",
+    version: SPRITE_FONT_VERSION,
+    info: {
+      face: info.face,
+      size: Math.abs(info.size),
+      style: info.italic ? "italic" : "normal",
+      weight: info.bold ? "bold" : "normal",
+      pages: font.pages.length,
+      lineHeight: common.lineHeight,
+      baseline: common.base,
+      padding: Math.max(...info.padding),
+      spacing: Math.max(...info.spacing),
+      antialias: info.smooth
+    },
+    pages: [...font.pages],
+    pageSize: { width: common.scaleW, height: common.scaleH },
+    glyphs
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Text and XML
+// ---------------------------------------------------------------------------
+
+type AttributeValue = string | number | boolean | readonly number[];
+
+interface Tag {
+  name: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+/** Tags in file order; both text and XML files are a list of these */
+function toTags(font: BMFont): { header: Tag[]; pages: Tag[]; chars: Tag[]; kernings: Tag[] } {
+  const { info, common } = font;
+  return {
+    header: [
+      {
+        name: "info",
+        attributes: {
+          face: info.face,
+          size: info.size,
+          bold: info.bold,
+          italic: info.italic,
+          charset: "",
+          unicode: info.unicode,
+          stretchH: info.stretchH,
+          smooth: info.smooth,
+          aa: info.aa,
+          padding: info.padding,
+          spacing: info.spacing,
+          outline: info.outline
+        }
+      },
+      {
+        name: "common",
+        attributes: {
+          lineHeight: common.lineHeight,
+          base: common.base,
+          scaleW: common.scaleW,
+          scaleH: common.scaleH,
+          pages: font.pages.length,
+          packed: common.packed,
+          alphaChnl: common.alphaChnl,
+          redChnl: common.redChnl,
+          greenChnl: common.greenChnl,
+          blueChnl: common.blueChnl
+        }
+      }
+    ],
+    pages: font.pages.map((file, id) => ({ name: "page", attributes: { id, file } })),
+    chars: font.chars.map((char) => ({ name: "char", attributes: { ...char } })),
+    kernings: font.kernings.map((kerning) => ({ name: "kerning", attributes: { ...kerning } }))
+  };
+}
+
+function formatValue(value: AttributeValue): string {
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return value;
+  return value.join(",");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function formatTextTag(tag: Tag): string {
+  const attributes = Object.entries(tag.attributes).map(([key, value]) =>
+    // The text format has no escaping, so quotes are dropped from strings
+    typeof value === "string" ? `${key}="${value.replace(/"/g, "")}"` : `${key}=${formatValue(value)}`
+  );
+  return [tag.name, ...attributes].join(" ");
+}
+
+function formatXmlTag(tag: Tag): string {
+  const attributes = Object.entries(tag.attributes).map(
+    ([key, value]) => `${key}="${escapeXml(formatValue(value))}"`
+  );
+  return `<${[tag.name, ...attributes].join(" ")}/>`;
+}
+
+export function writeBMFontText(font: BMFont): string {
+  const tags = toTags(font);
+  const lines = [
+    ...tags.header.map(formatTextTag),
+    ...tags.pages.map(formatTextTag),
+    `chars count=${tags.chars.length}`,
+    ...tags.chars.map(formatTextTag)
+  ];
+  if (tags.kernings.length > 0) {
+    lines.push(`kernings count=${tags.kernings.length}`, ...tags.kernings.map(formatTextTag));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function writeBMFontXml(font: BMFont): string {
+  const tags = toTags(font);
+  const indent = (tag: Tag) => `    ${formatXmlTag(tag)}`;
+  const lines = [
+    '<?xml version="1.0"?>',
+    "<font>",
+    ...tags.header.map((tag) => `  ${formatXmlTag(tag)}`),
+    "  <pages>",
+    ...tags.pages.map(indent),
+    "  </pages>",
+    `  <chars count="${tags.chars.length}">`,
+    ...tags.chars.map(indent),
+    "  </chars>"
+  ];
+  if (tags.kernings.length > 0) {
+    lines.push(`  <kernings count="${tags.kernings.length}">`, ...tags.kernings.map(indent), "  </kernings>");
+  }
+  lines.push("</font>");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Split text or XML into tags. Text files have one tag per line; XML tags are
+ * matched wherever they appear, skipping the declaration and closing tags.
+ */
+function readTags(source: string, xml: boolean): Array<{ name: string; attributes: Record<string, string> }> {
+  const attributePattern = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+  const parseAttributes = (text: string) => {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(attributePattern)) {
+      const value = match[2] ?? match[3];
+      attributes[match[1]] = xml ? unescapeXml(value) : value;
+    }
+    return attributes;
+  };
+
+  if (xml) {
+    return Array.from(source.matchAll(/<(\w+)([^>]*)>/g), (match) => ({
+      name: match[1],
+      attributes: parseAttributes(match[2])
+    }));
+  }
+  return source
+    .split(/\r?\n/)
+    .map((line) => /^\s*(\w+)(.*)$/.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => ({ name: match[1], attributes: parseAttributes(match[2]) }));
+}
+
+function fromTags(tags: Array<{ name: string; attributes: Record<string, string> }>): BMFont {
+  const find = (name: string) => tags.find((tag) => tag.name === name)?.attributes;
+  const info = find("info");
+  const common = find("common");
+  if (!info || !common) {
+    throw new Error("Not a BMFont file: missing 'info' or 'common' tag.");
+  }
+
+  const int = (attributes: Record<string, string>, key: string, fallback = 0) => {
+    const value = parseInt(attributes[key] ?? "", 10);
+    return Number.isNaN(value) ? fallback : value;
+  };
+  const flag = (attributes: Record<string, string>, key: string, fallback = false) =>
+    attributes[key] === undefined ? fallback : attributes[key] !== "0";
+  const list = (attributes: Record<string, string>, key: string, length: number) => {
+    const values = (attributes[key] ?? "").split(",").map((value) => parseInt(value, 10) || 0);
+    return Array.from({ length }, (_, i) => values[i] ?? 0);
+  };
+
+  const pages: string[] = [];
+  for (const { attributes } of tags.filter((tag) => tag.name === "page")) {
+    pages[int(attributes, "id")] = attributes.file ?? "";
+  }
+
+  return {
+    info: {
+      face: info.face ?? "",
+      size: int(info, "size"),
+      bold: flag(info, "bold"),
+      italic: flag(info, "italic"),
+      unicode: flag(info, "unicode"),
+      stretchH: int(info, "stretchH", 100),
+      smooth: flag(info, "smooth", true),
+      aa: int(info, "aa", 1),
+      padding: list(info, "padding", 4) as BMFont["info"]["padding"],
+      spacing: list(info, "spacing", 2) as BMFont["info"]["spacing"],
+      outline: int(info, "outline")
+    },
+    common: {
+      lineHeight: int(common, "lineHeight"),
+      base: int(common, "base"),
+      scaleW: int(common, "scaleW"),
+      scaleH: int(common, "scaleH"),
+      packed: flag(common, "packed"),
+      alphaChnl: int(common, "alphaChnl"),
+      redChnl: int(common, "redChnl"),
+      greenChnl: int(common, "greenChnl"),
+      blueChnl: int(common, "blueChnl")
+    },
+    // Fill gaps left by missing page ids so indexes stay aligned
+    pages: Array.from(pages, (file) => file ?? ""),
+    chars: tags
+      .filter((tag) => tag.name === "char")
+      .map(({ attributes }) => ({
+        id: int(attributes, "id"),
+        x: int(attributes, "x"),
+        y: int(attributes, "y"),
+        width: int(attributes, "width"),
+        height: int(attributes, "height"),
+        xoffset: int(attributes, "xoffset"),
+        yoffset: int(attributes, "yoffset"),
+        xadvance: int(attributes, "xadvance"),
+        page: int(attributes, "page"),
+        chnl: int(attributes, "chnl", 15)
+      })),
+    kernings: tags
+      .filter((tag) => tag.name === "kerning")
+      .map(({ attributes }) => ({
+        first: int(attributes, "first"),
+        second: int(attributes, "second"),
+        amount: int(attributes, "amount")
+      }))
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Binary
+// ---------------------------------------------------------------------------
+
+/**
+ * Encode as a version 3 binary file: the "BMF" header followed by the info,
+ * common, pages, chars and (when present) kerning blocks, all little-endian.
+ */
+export function writeBMFontBinary(font: BMFont): Uint8Array {
+  const { info, common } = font;
+  const faceBytes = encodeUtf8(info.face);
+  const pageBytes = font.pages.map(encodeUtf8);
+
+  const blocks: Array<{ type: number; size: number; write: (view: DataView, offset: number) => void }> = [
+    {
+      type: 1,
+      size: 14 + faceBytes.length + 1,
+      write: (view, offset) => {
+        view.setInt16(offset, info.size, true);
+        view.setUint8(
+          offset + 2,
+          (info.smooth ? INFO_SMOOTH : 0) |
+            (info.unicode ? INFO_UNICODE : 0) |
+            (info.italic ? INFO_ITALIC : 0) |
+            (info.bold ? INFO_BOLD : 0)
+        );
+        view.setUint8(offset + 3, 0);
+        view.setUint16(offset + 4, info.stretchH, true);
+        view.setUint8(offset + 6, info.aa);
+        info.padding.forEach((value, i) => view.setUint8(offset + 7 + i, value));
+        info.spacing.forEach((value, i) => view.setUint8(offset + 11 + i, value));
+        view.setUint8(offset + 13, info.outline);
+        faceBytes.forEach((byte, i) => view.setUint8(offset + 14 + i, byte));
+      }
+    },
+    {
+      type: 2,
+      size: 15,
+      write: (view, offset) => {
+        view.setUint16(offset, common.lineHeight, true);
+        view.setUint16(offset + 2, common.base, true);
+        view.setUint16(offset + 4, common.scaleW, true);
+        view.setUint16(offset + 6, common.scaleH, true);
+        view.setUint16(offset + 8, font.pages.length, true);
+        view.setUint8(offset + 10, common.packed ? COMMON_PACKED : 0);
+        view.setUint8(offset + 11, common.alphaChnl);
+        view.setUint8(offset + 12, common.redChnl);
+        view.setUint8(offset + 13, common.greenChnl);
+        view.setUint8(offset + 14, common.blueChnl);
+      }
+    },
+    {
+      type: 3,
+      size: pageBytes.reduce((sum, bytes) => sum + bytes.length + 1, 0),
+      write: (view, offset) => {
+        for (const bytes of pageBytes) {
+          bytes.forEach((byte, i) => view.setUint8(offset + i, byte));
+          offset += bytes.length + 1;
+        }
+      }
+    },
+    {
+      type: 4,
+      size: font.chars.length * CHAR_SIZE,
+      write: (view, offset) => {
+        font.chars.forEach((char, i) => {
+          const at = offset + i * CHAR_SIZE;
+          view.setUint32(at, char.id, true);
+          view.setUint16(at + 4, char.x, true);
+          view.setUint16(at + 6, char.y, true);
+          view.setUint16(at + 8, char.width, true);
+          view.setUint16(at + 10, char.height, true);
+          view.setInt16(at + 12, char.xoffset, true);
+          view.setInt16(at + 14, char.yoffset, true);
+          view.setInt16(at + 16, char.xadvance, true);
+          view.setUint8(at + 18, char.page);
+          view.setUint8(at + 19, char.chnl);
+        });
+      }
+    }
+  ];
+  if (font.kernings.length > 0) {
+    blocks.push({
+      type: 5,
+      size: font.kernings.length * KERNING_SIZE,
+      write: (view, offset) => {
+        font.kernings.forEach((kerning, i) => {
+          const at = offset + i * KERNING_SIZE;
+          view.setUint32(at, kerning.first, true);
+          view.setUint32(at + 4, kerning.second, true);
+          view.setInt16(at + 8, kerning.amount, true);
+        });
+      }
+    });
+  }
+
+  const bytes = new Uint8Array(4 + blocks.reduce((sum, block) => sum + 5 + block.size, 0));
+  const view = new DataView(bytes.buffer);
+  bytes.set([...BINARY_MAGIC, BINARY_VERSION]);
+  let offset = 4;
+  for (const block of blocks) {
+    view.setUint8(offset, block.type);
+    view.setUint32(offset + 1, block.size, true);
+    block.write(view, offset + 5);
+    offset += 5 + block.size;
+  }
+  return bytes;
+}
+
+function isBinary(bytes: Uint8Array): boolean {
+  return BINARY_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+function readBinary(bytes: Uint8Array): BMFont {
+  if (bytes[3] !== BINARY_VERSION) {
+    throw new Error(`Unsupported BMFont binary version ${bytes[3]}; only version ${BINARY_VERSION} can be read.`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  /** Null-terminated string at offset, with the offset after its terminator */
+  const readString = (offset: number, end: number): [string, number] => {
+    let terminator = offset;
+    while (terminator < end && bytes[terminator] !== 0) terminator++;
+    return [decodeUtf8(bytes.subarray(offset, terminator)), terminator + 1];
+  };
+
+  let info: BMFont["info"] | undefined;
+  let common: BMFont["common"] | undefined;
+  const pages: string[] = [];
+  const chars: BMFontChar[] = [];
+  const kernings: BMFontKerning[] = [];
+
+  let offset = 4;
+  while (offset + 5 <= bytes.length) {
+    const type = view.getUint8(offset);
+    const size = view.getUint32(offset + 1, true);
+    const start = offset + 5;
+    const end = start + size;
+    if (end > bytes.length) {
+      throw new Error(`BMFont block ${type} is truncated.`);
+    }
+
+    switch (type) {
+      case 1: {
+        const bits = view.getUint8(start + 2);
+        info = {
+          face: readString(start + 14, end)[0],
+          size: view.getInt16(start, true),
+          bold: (bits & INFO_BOLD) !== 0,
+          italic: (bits & INFO_ITALIC) !== 0,
+          unicode: (bits & INFO_UNICODE) !== 0,
+          stretchH: view.getUint16(start + 4, true),
+          smooth: (bits & INFO_SMOOTH) !== 0,
+          aa: view.getUint8(start + 6),
+          padding: [0, 1, 2, 3].map((i) => view.getUint8(start + 7 + i)) as BMFont["info"]["padding"],
+          spacing: [0, 1].map((i) => view.getUint8(start + 11 + i)) as BMFont["info"]["spacing"],
+          outline: view.getUint8(start + 13)
+        };
+        break;
+      }
+      case 2:
+        common = {
+          lineHeight: view.getUint16(start, true),
+          base: view.getUint16(start + 2, true),
+          scaleW: view.getUint16(start + 4, true),
+          scaleH: view.getUint16(start + 6, true),
+          packed: (view.getUint8(start + 10) & COMMON_PACKED) !== 0,
+          alphaChnl: view.getUint8(start + 11),
+          redChnl: view.getUint8(start + 12),
+          greenChnl: view.getUint8(start + 13),
+          blueChnl: view.getUint8(start + 14)
+        };
+        break;
+      case 3:
+        for (let at = start; at < end; ) {
+          const [file, next] = readString(at, end);
+          pages.push(file);
+          at = next;
+        }
+        break;
+      case 4:
+        for (let at = start; at + CHAR_SIZE <= end; at += CHAR_SIZE) {
+          chars.push({
+            id: view.getUint32(at, true),
+            x: view.getUint16(at + 4, true),
+            y: view.getUint16(at + 6, true),
+            width: view.getUint16(at + 8, true),
+            height: view.getUint16(at + 10, true),
+            xoffset: view.getInt16(at + 12, true),
+            yoffset: view.getInt16(at + 14, true),
+            xadvance: view.getInt16(at + 16, true),
+            page: view.getUint8(at + 18),
+            chnl: view.getUint8(at + 19)
+          });
+        }
+        break;
+      case 5:
+        for (let at = start; at + KERNING_SIZE <= end; at += KERNING_SIZE) {
+          kernings.push({
+            first: view.getUint32(at, true),
+            second: view.getUint32(at + 4, true),
+            amount: view.getInt16(at + 8, true)
+          });
+        }
+        break;
+      // Unknown blocks are skipped
+    }
+    offset = end;
+  }
+
+  if (!info || !common) {
+    throw new Error("Not a BMFont file: missing info or common block.");
+  }
+  return { info, common, pages, chars, kernings };
+}
+
+/**
+ * Detect the variant of a .fnt file: binary files start with "BMF", XML with a tag.
+ */
+export function detectBMFontFormat(bytes: Uint8Array): BMFontFormat {
+  if (isBinary(bytes)) return "binary";
+  const start = decodeUtf8(bytes.subarray(0, 64)).replace(/^\uFEFF/, "").trimStart();
+  return start.startsWith("<") ? "xml" : "text";
+}
+
+/**
+ * Parse a .fnt file in any of the three variants.
+ * @throws Error if the file is not a BMFont descriptor or uses an unsupported binary version
+ */
+export function parseBMFont(bytes: Uint8Array): BMFont {
+  const format = detectBMFontFormat(bytes);
+  if (format === "binary") return readBinary(bytes);
+  // Some exporters write a UTF-8 byte order mark
+  const source = decodeUtf8(bytes).replace(/^\uFEFF/, "");
+  return fromTags(readTags(source, format === "xml"));
+}
+
+/**
+ * Serialize in the given variant; text and XML as strings, binary as bytes.
+ */
+export function writeBMFont(font: BMFont, format: BMFontFormat): string | Uint8Array {
+  switch (format) {
+    case "text":
+      return writeBMFontText(font);
+    case "xml":
+      return writeBMFontXml(font);
+    case "binary":
+      return writeBMFontBinary(font);
+  }
+}
@@ -0,0 +1,519 @@
+/**
+ * Signed distance field rasterization of glyph outlines.
+ *
+ * A single-channel SDF stores the distance to the nearest outline edge. A multi-channel
+ * MSDF spreads the edges over the red, green and blue channels so that the median of
+ * the three reproduces sharp corners when the field is magnified.
+ */
+
+export type DistanceFieldType = "sdf" | "msdf";
+
+export const DISTANCE_FIELD_TYPES: ReadonlyArray<{ id: DistanceFieldType; label: string }> = [
+  { id: "sdf", label: "SDF (single channel)" },
+  { id: "msdf", label: "MSDF (multi-channel)" }
+];
+
+export interface DistanceFieldOptions {
+  type: DistanceFieldType;
+  /**
+   * Width of the distance span in pixels: a distance of ±distanceRange/2 from the
+   * outline maps to the ends of the 0-255 range, the outline itself to 128.
+   */
+  distanceRange: number;
+}
+
+/** Outline commands in pixel coordinates with y pointing down, as produced by opentype.js */
+export type OutlineCommand =
+  | { type: "M" | "L"; x: number; y: number }
+  | { type: "Q"; x1: number; y1: number; x: number; y: number }
+  | { type: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: "Z" };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Channel masks: MSDF edges are colored with two channels, or all three when a contour has no corners
+const RED = 1;
+const GREEN = 2;
+const BLUE = 4;
+const WHITE = RED | GREEN | BLUE;
+const EDGE_COLORS = [GREEN | BLUE, RED | BLUE, RED | GREEN];
+const CHANNELS = [RED, GREEN, BLUE];
+
+/** Edges meeting at a sharper angle than this (in radians from straight) form a corner */
+const CORNER_ANGLE = Math.PI - 3;
+/** Distances closer than this count as ties, decided by which edge is more perpendicular */
+const TIE_EPSILON = 1e-6;
+
+interface Edge {
+  /** Curve flattened into a polyline; a line has two points */
+  points: Point[];
+  startTangent: Point;
+  endTangent: Point;
+  color: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function subtract(a: Point, b: Point): Point {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function cross(a: Point, b: Point): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function length(a: Point): number {
+  return Math.hypot(a.x, a.y);
+}
+
+function normalize(a: Point): Point {
+  const len = length(a);
+  return len === 0 ? { x: 0, y: 0 } : { x: a.x / len, y: a.y / len };
+}
+
+/** First non-degenerate direction from `from` towards the candidates, in order */
+function tangent(from: Point, ...candidates: Point[]): Point {
+  for (const candidate of candidates) {
+    const direction = subtract(candidate, from);
+    if (direction.x !== 0 || direction.y !== 0) return normalize(direction);
+  }
+  return { x: 0, y: 0 };
+}
+
+function createEdge(points: Point[], startTangent: Point, endTangent: Point): Edge {
+  return {
+    points,
+    startTangent,
+    endTangent,
+    color: WHITE,
+    minX: Math.min(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    maxY: Math.max(...points.map((p) => p.y))
+  };
+}
+
+/** Pieces for flattening a curve: about one per pixel of its control polygon */
+function pieceCount(...controlPolygon: Point[]): number {
+  let total = 0;
+  for (let i = 1; i < controlPolygon.length; i++) {
+    total += length(subtract(controlPolygon[i], controlPolygon[i - 1]));
+  }
+  return Math.min(128, Math.max(2, Math.ceil(total)));
+}
+
+/**
+ * Split outline commands into closed contours of edges. Degenerate edges are dropped.
+ */
+function buildContours(commands: readonly OutlineCommand[]): Edge[][] {
+  const contours: Edge[][] = [];
+  let contour: Edge[] = [];
+  let start: Point = { x: 0, y: 0 };
+  let current: Point = { x: 0, y: 0 };
+
+  const lineTo = (to: Point) => {
+    if (to.x === current.x && to.y === current.y) return;
+    const direction = normalize(subtract(to, current));
+    contour.push(createEdge([current, to], direction, direction));
+    current = to;
+  };
+  const closeContour = () => {
+    lineTo(start);
+    if (contour.length > 0) contours.push(contour);
+    contour = [];
+  };
+
+  for (const command of commands) {
+    switch (command.type) {
+      case "M":
+        closeContour();
+        start = current = { x: command.x, y: command.y };
+        break;
+      case "L":
+        lineTo({ x: command.x, y: command.y });
+        break;
+      case "Q": {
+        const p0 = current;
+        const c = { x: command.x1, y: command.y1 };
+        const p1 = { x: command.x, y: command.y };
+        const n = pieceCount(p0, c, p1);
+        const points = [p0];
+        for (let i = 1; i <= n; i++) {
+          const t = i / n;
+          const u = 1 - t;
+          points.push({
+            x: u * u * p0.x + 2 * u * t * c.x + t * t * p1.x,
+            y: u * u * p0.y + 2 * u * t * c.y + t * t * p1.y
+          });
+        }
+        if (p0.x !== p1.x || p0.y !== p1.y) {
+          const end = tangent(p1, c, p0);
+          contour.push(createEdge(points, tangent(p0, c, p1), { x: -end.x, y: -end.y }));
+        }
+        current = p1;
+        break;
+      }
+      case "C": {
+        const p0 = current;
+        const c1 = { x: command.x1, y: command.y1 };
+        const c2 = { x: command.x2, y: command.y2 };
+        const p1 = { x: command.x, y: command.y };
+        const n = pieceCount(p0, c1, c2, p1);
+        const points = [p0];
+        for (let i = 1; i <= n; i++) {
+          const t = i / n;
+          const u = 1 - t;
+          const a = u * u * u;
+          const b = 3 * u * u * t;
+          const d = 3 * u * t * t;
+          const e = t * t * t;
+          points.push({
+            x: a * p0.x + b * c1.x + d * c2.x + e * p1.x,
+            y: a * p0.y + b * c1.y + d * c2.y + e * p1.y
+          });
+        }
+        if (p0.x !== p1.x || p0.y !== p1.y) {
+          const end = tangent(p1, c2, c1, p0);
+          contour.push(createEdge(points, tangent(p0, c1, c2, p1), { x: -end.x, y: -end.y }));
+        }
+        current = p1;
+        break;
+      }
+      case "Z":
+        closeContour();
+        current = start;
+        break;
+    }
+  }
+  closeContour();
+  return contours;
+}
+
+function isCorner(a: Point, b: Point): boolean {
+  return dot(a, b) <= 0 || Math.abs(cross(a, b)) > Math.sin(CORNER_ANGLE);
+}
+
+/**
+ * Assign channels to edges so that the two edges at every corner differ in at least
+ * one channel. Smooth contours keep all channels.
+ */
+function colorEdges(contour: Edge[]): void {
+  const corners: number[] = [];
+  contour.forEach((edge, i) => {
+    const previous = contour[(i + contour.length - 1) % contour.length];
+    if (isCorner(previous.endTangent, edge.startTangent)) corners.push(i);
+  });
+
+  if (corners.length === 0) {
+    contour.forEach((edge) => (edge.color = WHITE));
+  } else if (corners.length === 1) {
+    // A teardrop: split the contour into thirds around its single corner
+    const colors = [EDGE_COLORS[1], WHITE, EDGE_COLORS[2]];
+    contour.forEach((_, i) => {
+      const edge = contour[(corners[0] + i) % contour.length];
+      edge.color = contour.length < 3 ? WHITE : colors[Math.min(2, Math.floor((3 * i) / contour.length))];
+    });
+  } else {
+    // One color per run of edges between corners; the last run must also differ from the first
+    let spline = 0;
+    let color = EDGE_COLORS[0];
+    for (let i = 0; i < contour.length; i++) {
+      const index = (corners[0] + i) % contour.length;
+      if (i > 0 && corners.includes(index)) {
+        spline++;
+        const previous = color;
+        color =
+          spline === corners.length - 1
+            ? EDGE_COLORS.find((candidate) => candidate !== previous && candidate !== EDGE_COLORS[0]) ?? previous
+            : EDGE_COLORS[spline % 3];
+      }
+      contour[index].color = color;
+    }
+  }
+}
+
+interface EdgeDistance {
+  /** Unsigned distance to the nearest point of the edge */
+  distance: number;
+  /** How parallel the edge is to the direction of that point, for breaking ties at corners */
+  orthogonality: number;
+  /** Signed distance, extended along the tangent beyond the edge's ends; positive inside */
+  pseudoDistance: number;
+}
+
+function edgeDistance(edge: Edge, p: Point, orientation: number): EdgeDistance {
+  const points = edge.points;
+  let best = Infinity;
+  let bestPiece = 0;
+  let bestT = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const ab = subtract(points[i + 1], a);
+    const lengthSquared = dot(ab, ab);
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, dot(subtract(p, a), ab) / lengthSquared));
+    const distance = Math.hypot(p.x - (a.x + ab.x * t), p.y - (a.y + ab.y * t));
+    if (distance < best) {
+      best = distance;
+      bestPiece = i;
+      bestT = t;
+    }
+  }
+
+  const a = points[bestPiece];
+  const b = points[bestPiece + 1];
+  const direction = normalize(subtract(b, a));
+  const nearest = { x: a.x + (b.x - a.x) * bestT, y: a.y + (b.y - a.y) * bestT };
+  const sign = cross(direction, subtract(p, a)) * orientation >= 0 ? 1 : -1;
+  let pseudoDistance = sign * best;
+
+  // Beyond an end of the edge, measure to the line continuing its tangent instead
+  const first = bestPiece === 0 && bestT === 0;
+  const last = bestPiece === points.length - 2 && bestT === 1;
+  if (first || last) {
+    const end = first ? points[0] : points[points.length - 1];
+    const endTangent = first ? edge.startTangent : edge.endTangent;
+    const along = dot(subtract(p, end), endTangent);
+    if ((first && along < 0) || (last && along > 0)) {
+      const perpendicular = cross(endTangent, subtract(p, end)) * orientation;
+      if (Math.abs(perpendicular) <= best) pseudoDistance = perpendicular;
+    }
+  }
+
+  return {
+    distance: best,
+    orthogonality: best === 0 ? 0 : Math.abs(dot(direction, normalize(subtract(p, nearest)))),
+    pseudoDistance
+  };
+}
+
+/** Nonzero winding number of the contours around p */
+function winding(contours: Edge[][], p: Point): number {
+  let total = 0;
+  for (const contour of contours) {
+    for (const edge of contour) {
+      // Only edges spanning p.y somewhere right of p can cross the ray towards +x
+      if (p.y < edge.minY || p.y > edge.maxY || p.x > edge.maxX) continue;
+      const points = edge.points;
+      for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        if (a.y <= p.y) {
+          if (b.y > p.y && cross(subtract(b, a), subtract(p, a)) > 0) total++;
+        } else if (b.y <= p.y && cross(subtract(b, a), subtract(p, a)) < 0) {
+          total--;
+        }
+      }
+    }
+  }
+  return total;
+}
+
+/** Shoelace area of all contours; its sign tells which side of the edges is inside */
+function signedArea(contours: Edge[][]): number {
+  let area = 0;
+  for (const contour of contours) {
+    for (const edge of contour) {
+      for (let i = 0; i < edge.points.length - 1; i++) {
+        area += cross(edge.points[i], edge.points[i + 1]);
+      }
+    }
+  }
+  return area / 2;
+}
+
+function median(a: number, b: number, c: number): number {
+  return Math.max(Math.min(a, b), Math.min(Math.max(a, b), c));
+}
+
+const NEIGHBOURS = [
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+  [-1, 0],
+  [1, 0],
+  [-1, 1],
+  [0, 1],
+  [1, 1]
+];
+
+/**
+ * Flatten texels that would draw false edges when the field is interpolated: those
+ * whose channels swing against a neighbour's by more than the distance between the
+ * two allows (flattened to their median), and pairs of texels on the same side of the
+ * outline whose median flips sign halfway between them (reset to the true distance).
+ * @param channels Red, green and blue distances per texel
+ * @param distances True signed distance per texel
+ */
+function correctArtifacts(channels: Float64Array, distances: Float64Array, width: number, height: number): void {
+  const clashes = (a: number, b: number, threshold: number): boolean => {
+    const pairs = [0, 1, 2]
+      .map((c) => ({ a: channels[a * 3 + c], b: channels[b * 3 + c] }))
+      .sort((p, q) => Math.abs(q.b - q.a) - Math.abs(p.b - p.a));
+    const flattened = channels[b * 3] === channels[b * 3 + 1] && channels[b * 3] === channels[b * 3 + 2];
+    return (
+      Math.abs(pairs[1].b - pairs[1].a) >= threshold && !flattened && Math.abs(pairs[2].a) >= Math.abs(pairs[2].b)
+    );
+  };
+
+  const flagged: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const texel = y * width + x;
+      const clash = NEIGHBOURS.some(([dx, dy]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) return false;
+        // Just above the distance between the texels, which a true distance field can't exceed
+        return clashes(texel, ny * width + nx, 1.001 * Math.hypot(dx, dy));
+      });
+      if (clash) flagged.push(texel);
+    }
+  }
+  for (const texel of flagged) {
+    const value = median(channels[texel * 3], channels[texel * 3 + 1], channels[texel * 3 + 2]);
+    channels.fill(value, texel * 3, texel * 3 + 3);
+  }
+
+  const holes = new Set<number>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const texel = y * width + x;
+      // Each pair once: the neighbours to the right and below
+      for (const [dx, dy] of NEIGHBOURS.slice(4)) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) continue;
+        const other = ny * width + nx;
+        const inside = distances[texel] > 0;
+        if (inside !== distances[other] > 0) continue;
+        const [r, g, b] = [0, 1, 2].map((c) => (channels[texel * 3 + c] + channels[other * 3 + c]) / 2);
+        if (median(r, g, b) > 0 !== inside) {
+          holes.add(texel);
+          holes.add(other);
+        }
+      }
+    }
+  }
+  for (const texel of holes) {
+    channels.fill(distances[texel], texel * 3, texel * 3 + 3);
+  }
+}
+
+/**
+ * Rasterize an outline into a width×height RGBA distance field, sampled at pixel
+ * centers. SDF output is white with the distance in alpha, so it also reads as a
+ * soft glyph; MSDF output is opaque with the distances in red, green and blue.
+ */
+export function generateDistanceField(
+  commands: readonly OutlineCommand[],
+  width: number,
+  height: number,
+  options: DistanceFieldOptions
+): Uint8ClampedArray<ArrayBuffer> {
+  const contours = buildContours(commands);
+  const edges = contours.flat();
+  const msdf = options.type === "msdf";
+  if (msdf) contours.forEach(colorEdges);
+
+  const range = Math.max(options.distanceRange, 1e-3);
+  const encode = (distance: number) => Math.round((distance / range + 0.5) * 255);
+  // Fonts wind outer contours either way; orient so that the inside is positive
+  const orientation = signedArea(contours) >= 0 ? 1 : -1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const channels = new Float64Array(msdf ? width * height * 3 : 0);
+  const distances = new Float64Array(msdf ? width * height : 0);
+  const channelBest = CHANNELS.map(() => ({ distance: Infinity, orthogonality: Infinity, pseudoDistance: -Infinity }));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = { x: x + 0.5, y: y + 0.5 };
+      let nearest = Infinity;
+      for (const best of channelBest) {
+        best.distance = Infinity;
+        best.orthogonality = Infinity;
+        best.pseudoDistance = -Infinity;
+      }
+
+      for (const edge of edges) {
+        // Skip edges whose bounding box is farther than every distance they could improve
+        const dx = Math.max(edge.minX - p.x, 0, p.x - edge.maxX);
+        const dy = Math.max(edge.minY - p.y, 0, p.y - edge.maxY);
+        const bound = Math.hypot(dx, dy);
+        let worst = nearest;
+        if (msdf) {
+          for (let i = 0; i < CHANNELS.length; i++) {
+            if (edge.color & CHANNELS[i]) worst = Math.max(worst, channelBest[i].distance);
+          }
+        }
+        if (bound > worst) continue;
+
+        const result = edgeDistance(edge, p, orientation);
+        nearest = Math.min(nearest, result.distance);
+        if (!msdf) continue;
+        for (let i = 0; i < CHANNELS.length; i++) {
+          const best = channelBest[i];
+          if (!(edge.color & CHANNELS[i])) continue;
+          if (
+            result.distance < best.distance - TIE_EPSILON ||
+            (Math.abs(result.distance - best.distance) <= TIE_EPSILON && result.orthogonality < best.orthogonality)
+          ) {
+            best.distance = result.distance;
+            best.orthogonality = result.orthogonality;
+            best.pseudoDistance = result.pseudoDistance;
+          }
+        }
+      }
+
+      const inside = winding(contours, p) !== 0;
+      const distance = inside ? nearest : -nearest;
+      if (msdf) {
+        const [r, g, b] = channelBest.map((best) => best.pseudoDistance);
+        distances[y * width + x] = distance;
+        // Where the channels disagree with the true inside test, fall back to the plain distance
+        channels.set(median(r, g, b) > 0 !== inside ? [distance, distance, distance] : [r, g, b], (y * width + x) * 3);
+      } else {
+        const offset = (y * width + x) * 4;
+        data[offset] = 255;
+        data[offset + 1] = 255;
+        data[offset + 2] = 255;
+        data[offset + 3] = encode(distance);
+      }
+    }
+  }
+
+  if (msdf) {
+    correctArtifacts(channels, distances, width, height);
+    for (let texel = 0; texel < width * height; texel++) {
+      data[texel * 4] = encode(channels[texel * 3]);
+      data[texel * 4 + 1] = encode(channels[texel * 3 + 1]);
+      data[texel * 4 + 2] = encode(channels[texel * 3 + 2]);
+      data[texel * 4 + 3] = 255;
+    }
+  }
+  return data;
+}
+
+/**
+ * Coverage (0-1) of a distance field sample when drawn magnified by `scale`: the
+ * median of red, green and blue for MSDF, alpha for SDF, each in 0-1.
+ */
+export function distanceFieldCoverage(
+  type: DistanceFieldType,
+  sample: readonly [number, number, number, number],
+  distanceRange: number,
+  scale: number
+): number {
+  const value = type === "msdf" ? median(sample[0], sample[1], sample[2]) : sample[3];
+  // Distance in output pixels; one output pixel of antialiasing around the outline
+  const screenDistance = (value - 0.5) * distanceRange * scale;
+  return Math.max(0, Math.min(1, screenDistance + 0.5));
+}
@@ -0,0 +1,56 @@
+/**
+ * Effects baked into sprite font glyphs: outline, drop shadow, gradient fill and inner glow.
+ * Colors are CSS color strings; sizes and offsets are in pixels.
+ */
+
+export interface GlyphEffects {
+  /** Stroke around the glyph, drawn under the fill */
+  outline?: { width: number; color: string };
+  /** Copy of the outlined glyph behind it; positive offsets move it right and down */
+  shadow?: { offsetX: number; offsetY: number; color: string };
+  /** Vertical fill gradient from the ascender to the descender, the same for every glyph */
+  gradient?: { top: string; bottom: string };
+  /** Color fading inwards from the edges of the fill */
+  innerGlow?: { size: number; color: string };
+  /**
+   * Keep the effect colors in the atlas. Otherwise they are reduced to gray, so the
+   * glyphs can still be tinted as a whole while the effects stay distinguishable.
+   */
+  colorAtlas: boolean;
+}
+
+export interface EffectMargins {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Whole pixels the effects reach beyond the glyph on each side. The glyph rect and
+ * line height grow by these on top of the padding.
+ */
+export function getEffectMargins(effects: GlyphEffects | undefined): EffectMargins {
+  const outline = Math.ceil(Math.max(0, effects?.outline?.width ?? 0));
+  const dx = effects?.shadow?.offsetX ?? 0;
+  const dy = effects?.shadow?.offsetY ?? 0;
+  return {
+    left: outline + Math.ceil(Math.max(0, -dx)),
+    top: outline + Math.ceil(Math.max(0, -dy)),
+    right: outline + Math.ceil(Math.max(0, dx)),
+    bottom: outline + Math.ceil(Math.max(0, dy))
+  };
+}
+
+/**
+ * Extra advance so outlines of neighbouring glyphs don't overlap: the outline width
+ * on both sides. Shadows may overlap the next glyph, as they do in most text renderers.
+ */
+export function getEffectAdvance(effects: GlyphEffects | undefined): number {
+  return Math.ceil(Math.max(0, effects?.outline?.width ?? 0)) * 2;
+}
+
+/** True if the settings change the glyphs at all */
+export function hasGlyphEffects(effects: GlyphEffects | undefined): boolean {
+  return !!effects && !!(effects.outline || effects.shadow || effects.gradient || effects.innerGlow);
+}
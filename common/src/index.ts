@@ -1,2 +1,11 @@
 export * from "./sprite-font";
 export * from "./sprite-font-layout";
+export * from "./tileset";
+export * from "./tile-objects";
+export * from "./tilemap";
+export * from "./autotile";
+export * from "./tile-extract";
+export * from "./rect-packer";
+export * from "./distance-field";
+export * from "./glyph-effects";
+export * from "./bmfont";
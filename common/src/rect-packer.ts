@@ -0,0 +1,323 @@
+/**
+ * Packing of rectangles (glyphs, sprites) into fixed-size atlas pages.
+ * Strategies trade speed for density: shelf is fastest, MaxRects packs tightest.
+ */
+
+export type PackStrategy = "shelf" | "maxrects" | "skyline";
+
+export interface PackOptions {
+  strategy: PackStrategy;
+  /** Requested page size in pixels; see getPageSize for the constraints applied */
+  pageWidth: number;
+  pageHeight: number;
+  /** Round page dimensions up to the next power of two */
+  powerOfTwo: boolean;
+  /** Make pages square, using the larger dimension */
+  square: boolean;
+  /** Empty pixels between packed rects; page edges get none */
+  spacing: number;
+}
+
+export interface PackRect {
+  width: number;
+  height: number;
+}
+
+export interface PackPosition {
+  page: number;
+  x: number;
+  y: number;
+}
+
+export interface PackPageStats {
+  /** Pixels covered by packed rects, excluding spacing */
+  usedArea: number;
+  /** usedArea as a fraction (0-1) of the page area */
+  efficiency: number;
+}
+
+export interface PackResult<T extends PackRect> {
+  /** Input rects with their positions, in input order */
+  placements: Array<T & PackPosition>;
+  pageWidth: number;
+  pageHeight: number;
+  pages: PackPageStats[];
+}
+
+export const PACK_STRATEGIES: ReadonlyArray<{ id: PackStrategy; label: string }> = [
+  { id: "maxrects", label: "MaxRects (best short side fit)" },
+  { id: "skyline", label: "Skyline (bottom left)" },
+  { id: "shelf", label: "Shelf" }
+];
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Packs rects into a single page; returns undefined when a rect doesn't fit */
+interface PagePacker {
+  insert(width: number, height: number): { x: number; y: number } | undefined;
+}
+
+export function nextPowerOfTwo(value: number): number {
+  let result = 1;
+  while (result < value) result *= 2;
+  return result;
+}
+
+/**
+ * The page size actually used for the given options.
+ */
+export function getPageSize(options: Pick<PackOptions, "pageWidth" | "pageHeight" | "powerOfTwo" | "square">): {
+  width: number;
+  height: number;
+} {
+  let width = Math.max(1, Math.ceil(options.pageWidth));
+  let height = Math.max(1, Math.ceil(options.pageHeight));
+  if (options.square) {
+    width = height = Math.max(width, height);
+  }
+  if (options.powerOfTwo) {
+    width = nextPowerOfTwo(width);
+    height = nextPowerOfTwo(height);
+  }
+  return { width, height };
+}
+
+/**
+ * Shelves of rows filled left to right; a new shelf opens below when a rect
+ * doesn't fit any existing one. Works best with rects sorted by height.
+ */
+function createShelfPacker(pageWidth: number, pageHeight: number): PagePacker {
+  const shelves: Array<{ y: number; height: number; x: number }> = [];
+  let usedHeight = 0;
+
+  return {
+    insert(width, height) {
+      for (const shelf of shelves) {
+        if (width <= pageWidth - shelf.x && height <= shelf.height) {
+          const position = { x: shelf.x, y: shelf.y };
+          shelf.x += width;
+          return position;
+        }
+      }
+      if (width > pageWidth || usedHeight + height > pageHeight) return undefined;
+      shelves.push({ y: usedHeight, height, x: width });
+      usedHeight += height;
+      return { x: 0, y: shelves[shelves.length - 1].y };
+    }
+  };
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+/**
+ * MaxRects with the best short side fit heuristic: tracks every maximal free
+ * rectangle and places each rect where it leaves the smallest leftover side.
+ */
+function createMaxRectsPacker(pageWidth: number, pageHeight: number): PagePacker {
+  let free: Rect[] = [{ x: 0, y: 0, width: pageWidth, height: pageHeight }];
+
+  const split = (used: Rect) => {
+    const next: Rect[] = [];
+    for (const rect of free) {
+      const overlaps =
+        used.x < rect.x + rect.width &&
+        used.x + used.width > rect.x &&
+        used.y < rect.y + rect.height &&
+        used.y + used.height > rect.y;
+      if (!overlaps) {
+        next.push(rect);
+        continue;
+      }
+      // Keep the parts of the free rect on each side of the used one
+      if (used.x > rect.x) {
+        next.push({ x: rect.x, y: rect.y, width: used.x - rect.x, height: rect.height });
+      }
+      if (used.x + used.width < rect.x + rect.width) {
+        const x = used.x + used.width;
+        next.push({ x, y: rect.y, width: rect.x + rect.width - x, height: rect.height });
+      }
+      if (used.y > rect.y) {
+        next.push({ x: rect.x, y: rect.y, width: rect.width, height: used.y - rect.y });
+      }
+      if (used.y + used.height < rect.y + rect.height) {
+        const y = used.y + used.height;
+        next.push({ x: rect.x, y, width: rect.width, height: rect.y + rect.height - y });
+      }
+    }
+    // Drop free rects contained in others; they can never give a better fit
+    free = next.filter(
+      (rect, i) => !next.some((other, j) => i !== j && contains(other, rect) && (!contains(rect, other) || j < i))
+    );
+  };
+
+  return {
+    insert(width, height) {
+      let best: Rect | undefined;
+      let bestShort = Infinity;
+      let bestLong = Infinity;
+      for (const rect of free) {
+        if (width > rect.width || height > rect.height) continue;
+        const leftoverX = rect.width - width;
+        const leftoverY = rect.height - height;
+        const short = Math.min(leftoverX, leftoverY);
+        const long = Math.max(leftoverX, leftoverY);
+        if (short < bestShort || (short === bestShort && long < bestLong)) {
+          best = rect;
+          bestShort = short;
+          bestLong = long;
+        }
+      }
+      if (!best) return undefined;
+      const used = { x: best.x, y: best.y, width, height };
+      split(used);
+      return { x: used.x, y: used.y };
+    }
+  };
+}
+
+/**
+ * Skyline bottom-left: tracks the top edge of the packed area as horizontal
+ * segments and drops each rect where its bottom ends up lowest.
+ */
+function createSkylinePacker(pageWidth: number, pageHeight: number): PagePacker {
+  const skyline: Array<{ x: number; y: number; width: number }> = [{ x: 0, y: 0, width: pageWidth }];
+
+  /** Lowest y a rect starting at segment `index` can rest at, or -1 */
+  const fit = (index: number, width: number, height: number): number => {
+    const x = skyline[index].x;
+    if (x + width > pageWidth) return -1;
+    let remaining = width;
+    let y = 0;
+    for (let i = index; remaining > 0; i++) {
+      if (i >= skyline.length) return -1;
+      y = Math.max(y, skyline[i].y);
+      if (y + height > pageHeight) return -1;
+      remaining -= skyline[i].width;
+    }
+    return y;
+  };
+
+  return {
+    insert(width, height) {
+      let bestIndex = -1;
+      let bestY = Infinity;
+      let bestBottom = Infinity;
+      let bestWidth = Infinity;
+      skyline.forEach((segment, i) => {
+        const y = fit(i, width, height);
+        if (y < 0) return;
+        const bottom = y + height;
+        if (bottom < bestBottom || (bottom === bestBottom && segment.width < bestWidth)) {
+          bestIndex = i;
+          bestY = y;
+          bestBottom = bottom;
+          bestWidth = segment.width;
+        }
+      });
+      if (bestIndex < 0) return undefined;
+
+      const x = skyline[bestIndex].x;
+      skyline.splice(bestIndex, 0, { x, y: bestY + height, width });
+      // Shrink or remove the segments now covered by the new one
+      for (let i = bestIndex + 1; i < skyline.length; i++) {
+        const previous = skyline[i - 1];
+        const segment = skyline[i];
+        const overlap = previous.x + previous.width - segment.x;
+        if (overlap <= 0) break;
+        segment.x += overlap;
+        segment.width -= overlap;
+        if (segment.width > 0) break;
+        skyline.splice(i, 1);
+        i--;
+      }
+      // Merge neighbours at the same height
+      for (let i = 0; i < skyline.length - 1; i++) {
+        if (skyline[i].y === skyline[i + 1].y) {
+          skyline[i].width += skyline[i + 1].width;
+          skyline.splice(i + 1, 1);
+          i--;
+        }
+      }
+      return { x, y: bestY };
+    }
+  };
+}
+
+const createPacker: Record<PackStrategy, (pageWidth: number, pageHeight: number) => PagePacker> = {
+  shelf: createShelfPacker,
+  maxrects: createMaxRectsPacker,
+  skyline: createSkylinePacker
+};
+
+/**
+ * Pack rects into as many pages as needed.
+ * @throws Error if a rect is larger than a page
+ */
+export function packRects<T extends PackRect>(rects: readonly T[], options: PackOptions): PackResult<T> {
+  const { width: pageWidth, height: pageHeight } = getPageSize(options);
+  const spacing = Math.max(0, options.spacing);
+
+  const oversized = rects.find((rect) => rect.width > pageWidth || rect.height > pageHeight);
+  if (oversized) {
+    throw new Error(
+      `A ${oversized.width}x${oversized.height} rect does not fit in a ${pageWidth}x${pageHeight} page.`
+    );
+  }
+
+  // Each rect reserves spacing to its right and bottom; growing the page by the same
+  // amount keeps rects at the right and bottom edges from losing that space
+  const pagers: PagePacker[] = [];
+  const pages: PackPageStats[] = [];
+  const newPage = () => {
+    pagers.push(createPacker[options.strategy](pageWidth + spacing, pageHeight + spacing));
+    pages.push({ usedArea: 0, efficiency: 0 });
+  };
+
+  // Shelves fill best by height; the other strategies by longest side first
+  const order = rects
+    .map((rect, index) => ({ rect, index }))
+    .sort((a, b) =>
+      options.strategy === "shelf"
+        ? b.rect.height - a.rect.height || b.rect.width - a.rect.width
+        : Math.max(b.rect.width, b.rect.height) - Math.max(a.rect.width, a.rect.height) ||
+          b.rect.width * b.rect.height - a.rect.width * a.rect.height
+    );
+
+  const placements = new Array<T & PackPosition>(rects.length);
+  for (const { rect, index } of order) {
+    const width = rect.width + spacing;
+    const height = rect.height + spacing;
+    let page = 0;
+    let position: { x: number; y: number } | undefined;
+    for (; page < pagers.length; page++) {
+      position = pagers[page].insert(width, height);
+      if (position) break;
+    }
+    if (!position) {
+      newPage();
+      position = pagers[page].insert(width, height);
+      if (!position) {
+        throw new Error(`Failed to place a ${rect.width}x${rect.height} rect on an empty page.`);
+      }
+    }
+    placements[index] = { ...rect, page, x: position.x, y: position.y };
+    pages[page].usedArea += rect.width * rect.height;
+  }
+
+  for (const stats of pages) {
+    stats.efficiency = stats.usedArea / (pageWidth * pageHeight);
+  }
+  return { placements, pageWidth, pageHeight, pages };
+}
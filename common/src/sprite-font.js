@@ -1,6 +0,0 @@
-/**
- * Shared types for sprite font asset serialization.
- * Used by both the generator tool and the runtime.
- */
-export {};
-//# sourceMappingURL=sprite-font.js.map
\ No newline at end of file
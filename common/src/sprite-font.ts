@@ -2,6 +2,8 @@
  * Shared types for sprite font asset serialization.
  * Used by both the generator tool and the runtime.
  */
+import type { DistanceFieldType } from "./distance-field";
+import type { GlyphEffects } from "./glyph-effects";
 
 export interface GlyphBounds {
   xMin: number;
@@ -25,11 +27,15 @@ export interface GlyphMetrics {
   height: number;
 }
 
+/** Current asset format version; version 1 stored a single `image` and the page size in `pages` */
+export const SPRITE_FONT_VERSION = 2;
+
 export type FontStyle = "normal" | "italic";
 export type FontWeight = "normal" | "bold";
 
 export interface SpriteFontAsset {
   type: "spritefont";
+  version?: number;
   info: {
     face: string;
     size: number;
@@ -39,9 +45,45 @@ export interface SpriteFontAsset {
     lineHeight: number;
     baseline: number;
     padding: number;
+    /** Empty pixels between glyphs in the atlas */
+    spacing?: number;
     antialias: boolean;
+    /** Set when the pages hold distance fields rather than coverage; see generateDistanceField */
+    distanceField?: { type: DistanceFieldType; distanceRange: number };
+    /** Effects baked into the glyphs, kept so the font can be regenerated with the same settings */
+    effects?: GlyphEffects;
   };
-  image: string;
+  /**
+   * Page images, relative to the asset: one per page, or a single image holding
+   * all `info.pages` pages stacked vertically.
+   */
+  pages: string[];
+  /** Size of one page in pixels */
+  pageSize: { width: number; height: number };
   glyphs: Record<string, GlyphMetrics>;
-  pages: { width: number; height: number };
+}
+
+export interface GlyphSource {
+  /** Page image holding the glyph, relative to the asset */
+  image: string;
+  /** Glyph position within that image */
+  x: number;
+  y: number;
+}
+
+/**
+ * True if all pages are stored in one vertically stacked image.
+ */
+export function hasStackedPages(asset: SpriteFontAsset): boolean {
+  return asset.pages.length === 1 && asset.info.pages > 1;
+}
+
+/**
+ * Locate a glyph's pixels: the image of its page and its position in that image.
+ */
+export function getGlyphSource(asset: SpriteFontAsset, glyph: GlyphMetrics): GlyphSource {
+  if (hasStackedPages(asset)) {
+    return { image: asset.pages[0], x: glyph.x, y: glyph.page * asset.pageSize.height + glyph.y };
+  }
+  return { image: asset.pages[glyph.page] ?? asset.pages[0], x: glyph.x, y: glyph.y };
 }
@@ -0,0 +1,194 @@
+/**
+ * Slicing of source images into deduplicated tiles.
+ * Works on raw RGBA pixel data so it can run anywhere pixels are available.
+ */
+
+import { TILE_FLIP_H, TILE_FLIP_V } from "./tilemap";
+
+export interface TileExtractOptions {
+  /** Tile width in pixels */
+  tw: number;
+  /** Tile height in pixels */
+  th: number;
+  /** Treat tiles that match under horizontal and/or vertical flip as duplicates */
+  detectFlips: boolean;
+  /** Map fully transparent tiles to the empty tile instead of storing them */
+  skipEmpty: boolean;
+}
+
+export interface TileExtractStats {
+  /** Number of grid cells in the source image */
+  cells: number;
+  /** Number of distinct tiles kept */
+  unique: number;
+  /** Cells that exactly repeat an earlier tile */
+  duplicates: number;
+  /** Cells that repeat an earlier tile under a flip */
+  flipped: number;
+  /** Fully transparent cells */
+  empty: number;
+}
+
+export interface ExtractedTiles {
+  /** Source pixel position of each distinct tile, in output order */
+  tiles: Array<{ x: number; y: number }>;
+  /** Source grid as tile values (see tilemap.ts), indexed as data[row][column] */
+  data: number[][];
+  /** Source grid size in tiles; partial tiles at the right and bottom edges are included */
+  columns: number;
+  rows: number;
+  stats: TileExtractStats;
+}
+
+/**
+ * Copies one tile out of an RGBA buffer. Pixels outside the image and fully
+ * transparent pixels are zeroed so they compare equal regardless of color.
+ */
+function readTile(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  x0: number,
+  y0: number,
+  tw: number,
+  th: number
+): Uint8Array {
+  const tile = new Uint8Array(tw * th * 4);
+  for (let y = 0; y < th; y++) {
+    const sy = y0 + y;
+    if (sy >= height) break;
+    for (let x = 0; x < tw; x++) {
+      const sx = x0 + x;
+      if (sx >= width) break;
+      const src = (sy * width + sx) * 4;
+      if (pixels[src + 3] === 0) continue;
+      const dst = (y * tw + x) * 4;
+      tile[dst] = pixels[src];
+      tile[dst + 1] = pixels[src + 1];
+      tile[dst + 2] = pixels[src + 2];
+      tile[dst + 3] = pixels[src + 3];
+    }
+  }
+  return tile;
+}
+
+function flipTile(tile: Uint8Array, tw: number, th: number, horizontal: boolean, vertical: boolean): Uint8Array {
+  const flipped = new Uint8Array(tile.length);
+  for (let y = 0; y < th; y++) {
+    const sy = vertical ? th - 1 - y : y;
+    for (let x = 0; x < tw; x++) {
+      const sx = horizontal ? tw - 1 - x : x;
+      flipped.set(tile.subarray((sy * tw + sx) * 4, (sy * tw + sx) * 4 + 4), (y * tw + x) * 4);
+    }
+  }
+  return flipped;
+}
+
+function isEmptyTile(tile: Uint8Array): boolean {
+  for (let i = 3; i < tile.length; i += 4) {
+    if (tile[i] !== 0) return false;
+  }
+  return true;
+}
+
+// FNV-1a; collisions are resolved by comparing pixels
+function hashTile(tile: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < tile.length; i++) {
+    hash ^= tile[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function sameTile(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Slices an RGBA image into a tile grid and keeps one copy of every distinct tile.
+ * Each grid cell references its distinct tile by id (index + 1) plus the flip
+ * flags needed to reproduce the cell, so the grid can be saved as a tilemap layer.
+ */
+export function extractTiles(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: TileExtractOptions
+): ExtractedTiles {
+  const { tw, th } = options;
+  if (tw < 1 || th < 1) {
+    throw new Error("Tile size must be at least 1x1 pixels");
+  }
+
+  const columns = Math.ceil(width / tw);
+  const rows = Math.ceil(height / th);
+  const tiles: Array<{ x: number; y: number }> = [];
+  const tilePixels: Uint8Array[] = [];
+  const buckets = new Map<number, number[]>();
+  const stats: TileExtractStats = { cells: columns * rows, unique: 0, duplicates: 0, flipped: 0, empty: 0 };
+
+  const find = (tile: Uint8Array): number => {
+    const candidates = buckets.get(hashTile(tile)) ?? [];
+    return candidates.find((index) => sameTile(tilePixels[index], tile)) ?? -1;
+  };
+
+  const variants: Array<{ h: boolean; v: boolean; flags: number }> = [
+    { h: true, v: false, flags: TILE_FLIP_H },
+    { h: false, v: true, flags: TILE_FLIP_V },
+    { h: true, v: true, flags: TILE_FLIP_H | TILE_FLIP_V }
+  ];
+
+  const data: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const line: number[] = [];
+    for (let col = 0; col < columns; col++) {
+      const tile = readTile(pixels, width, height, col * tw, row * th, tw, th);
+
+      if (options.skipEmpty && isEmptyTile(tile)) {
+        stats.empty++;
+        line.push(0);
+        continue;
+      }
+
+      const exact = find(tile);
+      if (exact >= 0) {
+        stats.duplicates++;
+        line.push(exact + 1);
+        continue;
+      }
+
+      // A cell equal to flip(u) is rendered by drawing u with the same flip
+      let value = 0;
+      if (options.detectFlips) {
+        for (const variant of variants) {
+          const match = find(flipTile(tile, tw, th, variant.h, variant.v));
+          if (match >= 0) {
+            value = (match + 1) | variant.flags;
+            break;
+          }
+        }
+      }
+      if (value !== 0) {
+        stats.flipped++;
+        line.push(value);
+        continue;
+      }
+
+      const index = tiles.length;
+      tiles.push({ x: col * tw, y: row * th });
+      tilePixels.push(tile);
+      const hash = hashTile(tile);
+      buckets.set(hash, [...(buckets.get(hash) ?? []), index]);
+      line.push(index + 1);
+    }
+    data.push(line);
+  }
+
+  stats.unique = tiles.length;
+  return { tiles, data, columns, rows, stats };
+}
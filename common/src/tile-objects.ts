@@ -0,0 +1,104 @@
+/**
+ * Shared types for tile objects (tob) asset serialization.
+ * A tile object is a metasprite composed of fixed-size tiles from a tileset,
+ * similar to how objects on 8 and 16 bit consoles were built from hardware sprites.
+ */
+
+/** Tile id meaning "no tile" inside a frame */
+export const EMPTY_TILE = 0;
+
+/** Sequence every tile object contains */
+export const DEFAULT_SEQUENCE = "default";
+
+/** Frame duration in milliseconds used when a frame does not specify one */
+export const DEFAULT_FRAME_DURATION = 100;
+
+export interface TileObjectsTileset {
+  /** Source image path, relative to the asset file */
+  path: string;
+  /** Tile width in pixels */
+  w: number;
+  /** Tile height in pixels */
+  h: number;
+  /** Number of tiles per row in the source image */
+  tilesPerRow: number;
+}
+
+export interface TileFrame {
+  /** Width of the frame in tiles */
+  w: number;
+  /** Tile ids in row-major order; length is a multiple of w. Id 0 is empty, id n is tile index n - 1 */
+  t: number[];
+  /** Display duration in milliseconds during sequence playback */
+  d?: number;
+}
+
+export interface TileObject {
+  name: string;
+  sequences: Record<string, TileFrame[]>;
+}
+
+export interface TileObjectsAsset {
+  type: "tileobjects";
+  tileset: TileObjectsTileset;
+  objects: TileObject[];
+}
+
+/**
+ * Height of a frame in tiles.
+ */
+export function getFrameHeight(frame: TileFrame): number {
+  return frame.w > 0 ? Math.ceil(frame.t.length / frame.w) : 0;
+}
+
+/**
+ * Display duration of a frame in milliseconds.
+ */
+export function getFrameDuration(frame: TileFrame): number {
+  return typeof frame.d === "number" && frame.d > 0 ? frame.d : DEFAULT_FRAME_DURATION;
+}
+
+/**
+ * Total playback duration of a sequence in milliseconds.
+ */
+export function getSequenceDuration(frames: TileFrame[]): number {
+  return frames.reduce((sum, frame) => sum + getFrameDuration(frame), 0);
+}
+
+/**
+ * Creates an empty frame of the given size in tiles.
+ */
+export function createFrame(width: number, height: number): TileFrame {
+  const w = Math.max(1, Math.floor(width));
+  const h = Math.max(1, Math.floor(height));
+  return { w, t: new Array<number>(w * h).fill(EMPTY_TILE) };
+}
+
+/**
+ * Resizes a frame, keeping tiles anchored to the top-left corner.
+ * The resulting tile array is always exactly width * height long.
+ */
+export function resizeFrame(frame: TileFrame, width: number, height: number): TileFrame {
+  const resized: TileFrame = { ...createFrame(width, height), d: frame.d };
+  const oldHeight = getFrameHeight(frame);
+  const copyW = Math.min(frame.w, resized.w);
+  const copyH = Math.min(oldHeight, getFrameHeight(resized));
+
+  for (let y = 0; y < copyH; y++) {
+    for (let x = 0; x < copyW; x++) {
+      resized.t[y * resized.w + x] = frame.t[y * frame.w + x] ?? EMPTY_TILE;
+    }
+  }
+
+  return resized;
+}
+
+/**
+ * Creates a tile object with a single-frame default sequence.
+ */
+export function createTileObject(name: string, width = 2, height = 2): TileObject {
+  return {
+    name,
+    sequences: { [DEFAULT_SEQUENCE]: [createFrame(width, height)] }
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Shared types and grid utilities for tilemap asset serialization.
+ *
+ * Each cell stores a tile value: 0 is empty, otherwise the low bits hold the
+ * tile id (tileset index + 1) and the high bits hold orientation flags.
+ * Flags are applied like Tiled: diagonal flip first, then horizontal, then vertical.
+ */
+
+/** Mirror the tile horizontally */
+export const TILE_FLIP_H = 0x40000000;
+/** Mirror the tile vertically */
+export const TILE_FLIP_V = 0x20000000;
+/** Mirror the tile along its top-left to bottom-right diagonal */
+export const TILE_FLIP_D = 0x10000000;
+/** Mask selecting the tile id bits of a tile value */
+export const TILE_ID_MASK = 0x0fffffff;
+
+const TILE_FLAG_MASK = TILE_FLIP_H | TILE_FLIP_V | TILE_FLIP_D;
+
+export interface TilesetReference {
+  /** Tileset asset path, relative to the tilemap asset */
+  path?: string;
+  /** Gid of the tileset asset */
+  gid?: string;
+}
+
+export interface TilemapLayer {
+  name: string;
+  tileset: TilesetReference;
+  visible: boolean;
+  /** Tile values indexed as data[row][column] */
+  data: number[][];
+}
+
+export interface TilemapAsset {
+  type: "tilemap";
+  /** Map width in tiles */
+  w: number;
+  /** Map height in tiles */
+  h: number;
+  /** Cell width in pixels */
+  tw: number;
+  /** Cell height in pixels */
+  th: number;
+  /** Layers from bottom to top */
+  layers: TilemapLayer[];
+}
+
+// ===== Tile values =====
+
+export function getTileId(value: number): number {
+  return value & TILE_ID_MASK;
+}
+
+export function getTileFlags(value: number): number {
+  return value & TILE_FLAG_MASK;
+}
+
+export function makeTileValue(id: number, flags = 0): number {
+  return id === 0 ? 0 : (id & TILE_ID_MASK) | (flags & TILE_FLAG_MASK);
+}
+
+/**
+ * 2x2 matrix [a, b, c, d] mapping tile-local (x, y) to (a*x + c*y, b*x + d*y),
+ * matching CanvasRenderingContext2D.transform argument order.
+ */
+export type TileTransform = [number, number, number, number];
+
+/**
+ * Returns the transform that renders a tile with the given orientation flags.
+ */
+export function getTileTransform(flags: number): TileTransform {
+  let m: TileTransform = [1, 0, 0, 1];
+  if (flags & TILE_FLIP_D) m = multiply([0, 1, 1, 0], m);
+  if (flags & TILE_FLIP_H) m = multiply([-1, 0, 0, 1], m);
+  if (flags & TILE_FLIP_V) m = multiply([1, 0, 0, -1], m);
+  return m;
+}
+
+function multiply(left: TileTransform, right: TileTransform): TileTransform {
+  const [a1, b1, c1, d1] = left;
+  const [a2, b2, c2, d2] = right;
+  return [a1 * a2 + c1 * b2, b1 * a2 + d1 * b2, a1 * c2 + c1 * d2, b1 * c2 + d1 * d2];
+}
+
+const ALL_FLAG_COMBINATIONS = [0, 1, 2, 3, 4, 5, 6, 7].map(
+  (bits) => (bits & 1 ? TILE_FLIP_H : 0) | (bits & 2 ? TILE_FLIP_V : 0) | (bits & 4 ? TILE_FLIP_D : 0)
+);
+
+function flagsForTransform(m: TileTransform): number {
+  const match = ALL_FLAG_COMBINATIONS.find((flags) =>
+    getTileTransform(flags).every((v, i) => v === m[i])
+  );
+  return match ?? 0;
+}
+
+/**
+ * Rotates a tile value by 90 degrees, keeping its tile id.
+ */
+export function rotateTileValue(value: number, clockwise = true): number {
+  if (value === 0) return 0;
+  const rotation: TileTransform = clockwise ? [0, 1, -1, 0] : [0, -1, 1, 0];
+  const flags = flagsForTransform(multiply(rotation, getTileTransform(getTileFlags(value))));
+  return makeTileValue(getTileId(value), flags);
+}
+
+/**
+ * Mirrors a tile value horizontally or vertically in screen space, keeping its tile id.
+ */
+export function flipTileValue(value: number, axis: "h" | "v"): number {
+  if (value === 0) return 0;
+  const mirror: TileTransform = axis === "h" ? [-1, 0, 0, 1] : [1, 0, 0, -1];
+  const flags = flagsForTransform(multiply(mirror, getTileTransform(getTileFlags(value))));
+  return makeTileValue(getTileId(value), flags);
+}
+
+// ===== Layer grids =====
+
+export function createLayerData(width: number, height: number): number[][] {
+  return Array.from({ length: Math.max(0, height) }, () => new Array<number>(Math.max(0, width)).fill(0));
+}
+
+/**
+ * Creates a visible, empty layer without a tileset reference.
+ */
+export function createLayer(name: string, width: number, height: number): TilemapLayer {
+  return { name, tileset: {}, visible: true, data: createLayerData(width, height) };
+}
+
+/**
+ * Resizes a layer grid, keeping tiles anchored to the top-left corner.
+ */
+export function resizeLayerData(data: number[][], width: number, height: number): number[][] {
+  return Array.from({ length: Math.max(0, height) }, (_, y) =>
+    Array.from({ length: Math.max(0, width) }, (_, x) => data[y]?.[x] ?? 0)
+  );
+}
+
+/**
+ * Returns a copy of the grid with the given cells set. Untouched rows are shared.
+ */
+export function setCells(
+  data: number[][],
+  cells: Iterable<{ x: number; y: number }>,
+  value: number
+): number[][] {
+  const rows = new Map<number, number[]>();
+  for (const { x, y } of cells) {
+    if (y < 0 || y >= data.length || x < 0 || x >= data[y].length) continue;
+    let row = rows.get(y);
+    if (!row) {
+      row = [...data[y]];
+      rows.set(y, row);
+    }
+    row[x] = value;
+  }
+  return rows.size === 0 ? data : data.map((row, y) => rows.get(y) ?? row);
+}
+
+/**
+ * Cells of the rectangle spanned by two corner cells (inclusive).
+ */
+export function getRectCells(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): Array<{ x: number; y: number }> {
+  const cells: Array<{ x: number; y: number }> = [];
+  for (let y = Math.min(y0, y1); y <= Math.max(y0, y1); y++) {
+    for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) {
+      cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells of the 4-connected region sharing the value of the start cell.
+ */
+export function getFillCells(data: number[][], startX: number, startY: number): Array<{ x: number; y: number }> {
+  const target = data[startY]?.[startX];
+  if (target === undefined) return [];
+
+  const cells: Array<{ x: number; y: number }> = [];
+  const visited = new Set<number>();
+  const width = data[0]?.length ?? 0;
+  const stack = [{ x: startX, y: startY }];
+
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    const key = y * width + x;
+    if (visited.has(key) || data[y]?.[x] !== target) continue;
+    visited.add(key);
+    cells.push({ x, y });
+    stack.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
+  }
+
+  return cells;
+}
@@ -0,0 +1,202 @@
+/**
+ * Shared types for tileset asset serialization.
+ * A tileset slices a single source image into a grid of fixed-size tiles.
+ */
+
+import type { TerrainRuleSet } from "./autotile";
+
+export type TilePropertyType = "bool" | "int" | "float" | "string";
+
+export interface TileProperty {
+  type: TilePropertyType;
+  value: boolean | number | string;
+}
+
+/**
+ * Collision geometry in tile-local pixels.
+ * - `box`: the whole tile
+ * - `rect`: a partial rectangle
+ * - `polygon`: a closed polygon
+ * - `mask`: one string of "0"/"1" characters per pixel row
+ */
+export type TileCollision =
+  | { kind: "box" }
+  | { kind: "rect"; x: number; y: number; w: number; h: number }
+  | { kind: "polygon"; points: Array<{ x: number; y: number }> }
+  | { kind: "mask"; rows: string[] };
+
+export type TileCollisionKind = TileCollision["kind"];
+
+export interface TileAnimationFrame {
+  /** Zero-based tile index shown during this frame */
+  tile: number;
+  /** Display duration in milliseconds */
+  duration: number;
+}
+
+export interface TileData {
+  properties?: Record<string, TileProperty>;
+  collision?: TileCollision;
+  /** Frames played in place of the tile; all instances of the tile animate in sync */
+  animation?: TileAnimationFrame[];
+}
+
+export interface TilesetAsset {
+  type: "tileset";
+  /** Globally unique identifier used to reference the tileset from other assets */
+  gid: string;
+  /** Source image path, relative to the asset file */
+  file: string;
+  /** Tile width in pixels */
+  tw: number;
+  /** Tile height in pixels */
+  th: number;
+  /** Number of tiles per row in the source image */
+  w: number;
+  /** Autotile rule sets used by terrain painting tools */
+  terrains?: TerrainRuleSet[];
+  /** Per-tile metadata keyed by zero-based tile index */
+  tiles?: Record<string, TileData>;
+}
+
+/** Commonly used properties, offered as presets by the tileset editor */
+export const WELL_KNOWN_TILE_PROPERTIES: Record<string, TileProperty> = {
+  solid: { type: "bool", value: true },
+  damage: { type: "int", value: 1 },
+  friction: { type: "float", value: 1 }
+};
+
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns the source rectangle of a zero-based tile index.
+ */
+export function getTileRect(tileset: TilesetAsset, index: number): TileRect {
+  const columns = Math.max(1, tileset.w);
+  return {
+    x: (index % columns) * tileset.tw,
+    y: Math.floor(index / columns) * tileset.th,
+    width: tileset.tw,
+    height: tileset.th
+  };
+}
+
+/**
+ * Number of complete tile rows that fit in an image of the given height.
+ */
+export function getTileRows(tileset: TilesetAsset, imageHeight: number): number {
+  return tileset.th > 0 ? Math.floor(imageHeight / tileset.th) : 0;
+}
+
+/**
+ * Total number of tiles addressable in an image of the given height.
+ */
+export function getTileCount(tileset: TilesetAsset, imageHeight: number): number {
+  return Math.max(0, tileset.w) * getTileRows(tileset, imageHeight);
+}
+
+/**
+ * Default value for a property of the given type.
+ */
+export function getDefaultPropertyValue(type: TilePropertyType): boolean | number | string {
+  switch (type) {
+    case "bool":
+      return false;
+    case "int":
+    case "float":
+      return 0;
+    case "string":
+      return "";
+  }
+}
+
+/**
+ * Creates collision geometry of the given kind covering the whole tile.
+ */
+export function createCollision(kind: TileCollisionKind, tw: number, th: number): TileCollision {
+  switch (kind) {
+    case "box":
+      return { kind: "box" };
+    case "rect":
+      return { kind: "rect", x: 0, y: 0, w: tw, h: th };
+    case "polygon":
+      return {
+        kind: "polygon",
+        points: [
+          { x: 0, y: 0 },
+          { x: tw, y: 0 },
+          { x: tw, y: th },
+          { x: 0, y: th }
+        ]
+      };
+    case "mask":
+      return { kind: "mask", rows: new Array<string>(th).fill("1".repeat(tw)) };
+  }
+}
+
+/**
+ * Returns true when the tile-local pixel is covered by the collision geometry.
+ */
+export function isCollisionPixel(collision: TileCollision, tw: number, th: number, x: number, y: number): boolean {
+  if (x < 0 || y < 0 || x >= tw || y >= th) return false;
+  switch (collision.kind) {
+    case "box":
+      return true;
+    case "rect":
+      return x >= collision.x && x < collision.x + collision.w && y >= collision.y && y < collision.y + collision.h;
+    case "polygon": {
+      // Even-odd test at the pixel center
+      const px = x + 0.5;
+      const py = y + 0.5;
+      let inside = false;
+      const points = collision.points;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if (a.y > py !== b.y > py && px < ((b.x - a.x) * (py - a.y)) / (b.y - a.y) + a.x) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    }
+    case "mask":
+      return collision.rows[y]?.[x] === "1";
+  }
+}
+
+/**
+ * Total duration of a tile animation in milliseconds.
+ */
+export function getAnimationDuration(frames: TileAnimationFrame[]): number {
+  return frames.reduce((sum, frame) => sum + Math.max(0, frame.duration), 0);
+}
+
+/**
+ * Tile index to display for a possibly animated tile at the given time.
+ * Animations loop; tiles without an animation are returned unchanged.
+ */
+export function getAnimatedTile(tileset: TilesetAsset, index: number, timeMs: number): number {
+  const frames = tileset.tiles?.[index]?.animation;
+  if (!frames || frames.length === 0) return index;
+  const total = getAnimationDuration(frames);
+  if (total <= 0) return frames[0].tile;
+
+  let t = ((timeMs % total) + total) % total;
+  for (const frame of frames) {
+    if (t < frame.duration) return frame.tile;
+    t -= Math.max(0, frame.duration);
+  }
+  return frames[frames.length - 1].tile;
+}
+
+/**
+ * Returns true when any tile of the tileset has an animation.
+ */
+export function hasAnimatedTiles(tileset: TilesetAsset): boolean {
+  return Object.values(tileset.tiles ?? {}).some((data) => (data.animation?.length ?? 0) > 0);
+}
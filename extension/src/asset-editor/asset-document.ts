@@ -1,20 +1,61 @@
 import * as vscode from "vscode";
 import { AssetData } from "../plugin-system/types";
 import { isAssetJson } from "../protocol/messages";
+import { SchemaProblem, validateJsonSchema } from "../protocol/json-schema";
+import { getPluginSchema } from "../plugin-system/registry";
+import { migrateAsset } from "../plugin-system/migrations";
+
+/**
+ * An undoable change, forwarded to VS Code as a CustomDocumentEditEvent.
+ */
+export interface AssetDocumentEdit {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+/**
+ * New content for views. `source` is the webview the change came from, which
+ * already shows it; changes from the host (undo, revert) have no source.
+ */
+export interface AssetDocumentChange {
+  content: AssetData;
+  source?: vscode.Webview;
+}
+
+// Changes arriving faster than this are merged into one undo step, so a paint
+// stroke or a burst of typing is undone at once
+const EDIT_MERGE_WINDOW_MS = 500;
+
+// Edits arrive continuously while painting; validate once they settle
+const VALIDATE_DELAY_MS = 300;
 
 export class AssetDocument implements vscode.CustomDocument {
   public static async create(
     uri: vscode.Uri,
     backupId?: string
   ): Promise<AssetDocument> {
-    const dataFile = typeof backupId === "string" ? vscode.Uri.parse(backupId) : uri;
-    const fileData = await AssetDocument.readFile(dataFile);
-    return new AssetDocument(uri, fileData);
+    if (typeof backupId === "string") {
+      const backup = await AssetDocument.readFile(vscode.Uri.parse(backupId));
+      // The file on disk may be gone; a recovered document is dirty either way
+      const diskText = await AssetDocument.readText(uri).catch(() => undefined);
+      return new AssetDocument(uri, backup.data, diskText, true);
+    }
+    const file = await AssetDocument.readFile(uri);
+    return new AssetDocument(uri, file.data, file.text, false);
   }
 
-  private static async readFile(uri: vscode.Uri): Promise<AssetData> {
+  private static async readText(uri: vscode.Uri): Promise<string> {
     const bytes = await vscode.workspace.fs.readFile(uri);
-    const text = Buffer.from(bytes).toString("utf8");
+    return Buffer.from(bytes).toString("utf8");
+  }
+
+  private static async readFile(uri: vscode.Uri): Promise<{ data: AssetData; text: string }> {
+    const text = await AssetDocument.readText(uri);
+    return { data: AssetDocument.parse(uri, text), text };
+  }
+
+  private static parse(uri: vscode.Uri, text: string): AssetData {
     let parsed: unknown;
     try {
       parsed = JSON.parse(text);
@@ -36,12 +77,35 @@ export class AssetDocument implements vscode.CustomDocument {
   private readonly _onDidDispose = new vscode.EventEmitter<void>();
   public readonly onDidDispose = this._onDidDispose.event;
 
-  private readonly _onDidChange = new vscode.EventEmitter<AssetData>();
+  private readonly _onDidChange = new vscode.EventEmitter<AssetDocumentChange>();
   public readonly onDidChange = this._onDidChange.event;
 
-  private constructor(uri: vscode.Uri, data: AssetData) {
+  private readonly _onDidEdit = new vscode.EventEmitter<AssetDocumentEdit>();
+  public readonly onDidEdit = this._onDidEdit.event;
+
+  private readonly _onDidValidate = new vscode.EventEmitter<SchemaProblem[]>();
+  public readonly onDidValidate = this._onDidValidate.event;
+
+  private _problems: SchemaProblem[] = [];
+  private _migration: { from: number; to: number } | undefined;
+  // Upgrade edit held back until VS Code has registered the document; see announceUpgrade
+  private _pendingUpgrade: AssetDocumentEdit | undefined;
+  private _validateTimer: ReturnType<typeof setTimeout> | undefined;
+
+  private _lastEdit: { before: AssetData; after: AssetData; time: number } | undefined;
+  // Bumped when a changed file is reloaded; VS Code keeps older edits on its undo stack
+  private _generation = 0;
+  private _recovered: boolean;
+  // Content as of the last load or save, to tell clean from dirty and our own writes from others'
+  private _savedData: AssetData | undefined;
+  private _diskText: string | undefined;
+
+  private constructor(uri: vscode.Uri, data: AssetData, diskText: string | undefined, recovered: boolean) {
     this._uri = uri;
     this._data = data;
+    this._diskText = diskText;
+    this._savedData = recovered ? undefined : data;
+    this._recovered = recovered;
   }
 
   public get uri(): vscode.Uri {
@@ -52,25 +116,201 @@ export class AssetDocument implements vscode.CustomDocument {
     return this._data;
   }
 
+  /**
+   * Text of the file as last loaded or written by this document; undefined if a
+   * recovered document's file couldn't be read.
+   */
+  public get diskText(): string | undefined {
+    return this._diskText;
+  }
+
+  /**
+   * True while the document holds unsaved content restored from a hot-exit backup.
+   */
+  public get recovered(): boolean {
+    return this._recovered;
+  }
+
+  /**
+   * Format versions of an upgrade applied on open that hasn't been saved yet.
+   */
+  public get migration(): { from: number; to: number } | undefined {
+    return this._migration;
+  }
+
+  /**
+   * Upgrade older content to the plugin's current format version. The upgrade is
+   * an undoable edit, so the document stays dirty until the upgraded form is saved.
+   * Called while opening, before VS Code knows the document, so the edit is only
+   * reported (onDidEdit) by announceUpgrade.
+   * @throws Error if a migration step is missing or fails
+   */
+  public upgrade(): { from: number; to: number } | undefined {
+    const result = migrateAsset(this._data);
+    if (!result) return undefined;
+
+    const before = this._data;
+    this._data = result.data;
+    this._lastEdit = undefined;
+    this._migration = { from: result.from, to: result.to };
+    this._pendingUpgrade = {
+      label: `Upgrade to version ${result.to}`,
+      undo: this.ifCurrent(() => this.update(before)),
+      redo: this.ifCurrent(() => this.update(result.data))
+    };
+    return this._migration;
+  }
+
+  /**
+   * Report the upgrade from upgrade() as an edit (onDidEdit), once. VS Code rejects
+   * edits for documents that openCustomDocument hasn't returned yet, so this is
+   * called when the first editor is resolved.
+   */
+  public announceUpgrade(): void {
+    const edit = this._pendingUpgrade;
+    this._pendingUpgrade = undefined;
+    if (edit) this._onDidEdit.fire(edit);
+  }
+
+  /**
+   * True if the content differs from what was last loaded or saved.
+   * Undoing back to the saved state makes the document clean again.
+   */
+  public get isDirty(): boolean {
+    return this._data !== this._savedData;
+  }
+
+  /**
+   * Schema problems found by the last validation.
+   */
+  public get problems(): SchemaProblem[] {
+    return this._problems;
+  }
+
+  /**
+   * Validate the content against the plugin's schema, if it declares one.
+   */
+  public validate(): SchemaProblem[] {
+    clearTimeout(this._validateTimer);
+    this._validateTimer = undefined;
+    const schema = getPluginSchema(this._data.type);
+    this._problems = schema ? validateJsonSchema(this._data, schema) : [];
+    this._onDidValidate.fire(this._problems);
+    return this._problems;
+  }
+
+  /**
+   * Read the file and return its text if it differs from the last version this
+   * document loaded or wrote, so our own saves are not mistaken for external changes.
+   */
+  public async readExternalChange(): Promise<string | undefined> {
+    const text = await AssetDocument.readText(this._uri);
+    return text === this._diskText ? undefined : text;
+  }
+
+  /**
+   * Accept an external change without loading it; the next save overwrites it.
+   */
+  public ignoreExternalChange(text: string): void {
+    this._diskText = text;
+  }
+
+  /**
+   * Replace the content and notify views (onDidChange). Not undoable.
+   */
   public update(newData: AssetData): void {
     this._data = newData;
-    this._onDidChange.fire(this._data);
+    this._onDidChange.fire({ content: this._data });
+    this.validate();
+  }
+
+  /**
+   * Record a change made in a view as an undoable edit (onDidEdit) and pass it
+   * on to the document's other views (onDidChange with the source view).
+   */
+  public edit(newData: AssetData, source?: vscode.Webview): void {
+    const previous = this._data;
+    this._data = newData;
+    this._onDidChange.fire({ content: newData, source });
+    clearTimeout(this._validateTimer);
+    this._validateTimer = setTimeout(() => this.validate(), VALIDATE_DELAY_MS);
+
+    const now = Date.now();
+    const last = this._lastEdit;
+    if (last && last.after === previous && now - last.time < EDIT_MERGE_WINDOW_MS) {
+      last.after = newData;
+      last.time = now;
+      return;
+    }
+
+    const edit = { before: previous, after: newData, time: now };
+    this._lastEdit = edit;
+    this._onDidEdit.fire({
+      label: "Edit",
+      undo: this.ifCurrent(() => {
+        this._lastEdit = undefined;
+        this.update(edit.before);
+      }),
+      redo: this.ifCurrent(() => {
+        this._lastEdit = undefined;
+        this.update(edit.after);
+      })
+    });
+  }
+
+  /**
+   * Wrap an undo or redo so it does nothing once the document has been reloaded
+   * with different content from disk, which the edit was not made against.
+   */
+  private ifCurrent(apply: () => void): () => void {
+    const generation = this._generation;
+    return () => {
+      if (generation === this._generation) apply();
+    };
   }
 
   public async revert(): Promise<void> {
-    const diskData = await AssetDocument.readFile(this._uri);
-    this.update(diskData);
+    const file = await AssetDocument.readFile(this._uri);
+    if (file.text !== this._diskText) {
+      this._generation++;
+    }
+    this._lastEdit = undefined;
+    this._recovered = false;
+    this._migration = undefined;
+    this._pendingUpgrade = undefined;
+    this._savedData = file.data;
+    this._diskText = file.text;
+    this.update(file.data);
   }
 
   public async save(destination?: vscode.Uri): Promise<void> {
     const target = destination ?? this._uri;
-    const contents = Buffer.from(JSON.stringify(this._data, null, 2));
-    await vscode.workspace.fs.writeFile(target, contents);
+    if (!destination) {
+      // Invalid content is still saved so no work is lost; the problems stay visible
+      this.validate();
+    }
+    const text = JSON.stringify(this._data, null, 2);
+    if (!destination) {
+      // Set before writing so the watcher event for our own write is recognized
+      this._diskText = text;
+    }
+    await vscode.workspace.fs.writeFile(target, Buffer.from(text));
+    if (!destination) {
+      // VS Code marks the current edit as saved; later changes must start a new edit
+      this._lastEdit = undefined;
+      this._recovered = false;
+      this._migration = undefined;
+      this._pendingUpgrade = undefined;
+      this._savedData = this._data;
+    }
   }
 
   public dispose(): void {
     this._onDidDispose.fire();
     this._onDidDispose.dispose();
     this._onDidChange.dispose();
+    this._onDidEdit.dispose();
+    this._onDidValidate.dispose();
+    clearTimeout(this._validateTimer);
   }
 }
@@ -3,6 +3,7 @@ import { WebviewToHostMessage } from "../protocol/messages";
 import { AssetDocument } from "./asset-document";
 import { CommonHandler } from "../framework/common-handler";
 import { PathContext } from "../framework/path-context";
+import { showDiffWithDisk } from "./disk-diff";
 
 /**
  * Handles webview messages for the asset editor.
@@ -27,11 +28,17 @@ export class AssetEditorHandler extends CommonHandler {
         // Ready message is handled by provider
         break;
       case "contentChanged":
-        this.document.update(message.content);
+        this.document.edit(message.content, this.webview);
         break;
       case "requestSave":
         await this.handleRequestSave();
         break;
+      case "compareWithDisk":
+        await showDiffWithDisk(this.document, "Recovered");
+        break;
+      case "openAsText":
+        await vscode.commands.executeCommand("vscode.openWith", this.document.uri, "default");
+        break;
       default:
         // Let parent handle common messages (pickFile, showNotification, readFile, readImage, writeFile)
         await super.dispatch(message);
@@ -39,7 +46,11 @@ export class AssetEditorHandler extends CommonHandler {
     }
   }
 
+  /**
+   * Save through VS Code rather than writing directly, so the dirty state and
+   * undo stack know about the save. The panel is active while its button is clicked.
+   */
   private async handleRequestSave(): Promise<void> {
-    await this.document.save();
+    await vscode.commands.executeCommand("workbench.action.files.save");
   }
 }
@@ -4,10 +4,14 @@ import {
   WebviewToHostMessage
 } from "../protocol/messages";
 import { AssetDocument } from "./asset-document";
-import { getPluginDescriptor } from "../plugin-system/registry";
+import { getPluginDescriptor, getPluginSchema, hasPlugin, listPlugins } from "../plugin-system/registry";
 import { BaseWebviewProvider } from "../framework/base-webview-provider";
 import { AssetEditorHandler } from "./asset-editor-handler";
 import { DocumentPathContext } from "../framework/path-context";
+import { registerDiskDiff, trackDiffableDocument } from "./disk-diff";
+import { watchExternalChanges } from "./external-changes";
+import { registerSchemaDiagnostics, trackSchemaProblems } from "./schema-diagnostics";
+import { getAssetVersion, getCurrentVersion, isNewerThanSupported } from "../plugin-system/migrations";
 
 export class AssetEditorProvider extends BaseWebviewProvider
   implements vscode.CustomEditorProvider<AssetDocument>
@@ -15,29 +19,31 @@ export class AssetEditorProvider extends BaseWebviewProvider
   public static readonly viewType = "tile-engine.assetEditor";
 
   private readonly onDidChangeCustomDocumentEmitter =
-    new vscode.EventEmitter<vscode.CustomDocumentContentChangeEvent<AssetDocument>>();
+    new vscode.EventEmitter<vscode.CustomDocumentEditEvent<AssetDocument>>();
 
   public readonly onDidChangeCustomDocument =
     this.onDidChangeCustomDocumentEmitter.event;
 
-  private handlers: AssetEditorHandler | undefined;
+  // One handler per editor panel; a document can be open in several panels
+  private readonly handlers = new Map<vscode.WebviewPanel, AssetEditorHandler>();
 
   constructor(context: vscode.ExtensionContext) {
-    super(context, async (message: WebviewToHostMessage) => {
-      if (this.handlers) {
-        await this.handlers.dispatch(message);
-      }
-    });
+    // Custom editor panels are created by VS Code and dispatch to their own handler
+    super(context, async () => undefined);
   }
 
   public static register(context: vscode.ExtensionContext): vscode.Disposable {
     const provider = new AssetEditorProvider(context);
-    return vscode.window.registerCustomEditorProvider(
-      AssetEditorProvider.viewType,
-      provider,
-      {
-        supportsMultipleEditorsPerDocument: false
-      }
+    return vscode.Disposable.from(
+      vscode.window.registerCustomEditorProvider(
+        AssetEditorProvider.viewType,
+        provider,
+        {
+          supportsMultipleEditorsPerDocument: true
+        }
+      ),
+      registerDiskDiff(),
+      registerSchemaDiagnostics()
     );
   }
 
@@ -45,16 +51,52 @@ export class AssetEditorProvider extends BaseWebviewProvider
     uri: vscode.Uri,
     openContext: vscode.CustomDocumentOpenContext
   ): Promise<AssetDocument> {
+    // Assets of unknown types still open, in the webview's raw JSON view
     const document = await AssetDocument.create(uri, openContext.backupId);
-    // Validate plugin availability early to fail fast.
-    getPluginDescriptor(document.data.type);
+
+    // Forward edits to VS Code so it drives undo/redo and the dirty indicator
+    const editSubscription = document.onDidEdit((edit) => {
+      this.onDidChangeCustomDocumentEmitter.fire({ document, ...edit });
+    });
+    const watcher = watchExternalChanges(document, AssetEditorProvider.viewType);
+    document.onDidDispose(() => {
+      editSubscription.dispose();
+      watcher.dispose();
+    });
+    trackDiffableDocument(document);
+    trackSchemaProblems(document);
+    this.upgradeDocument(document);
+    document.validate();
+
     return document;
   }
 
+  /**
+   * Bring older assets up to the current format and warn about assets from newer versions.
+   */
+  private upgradeDocument(document: AssetDocument): void {
+    const name = vscode.workspace.asRelativePath(document.uri);
+    try {
+      document.upgrade();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Could not upgrade ${name}: ${message}`);
+    }
+    if (isNewerThanSupported(document.data)) {
+      vscode.window.showWarningMessage(
+        `${name} uses format version ${getAssetVersion(document.data)}, but this extension only supports ` +
+          `version ${getCurrentVersion(document.data.type)}. Saving it may lose data.`
+      );
+    }
+  }
+
   public async resolveCustomEditor(
     document: AssetDocument,
     webviewPanel: vscode.WebviewPanel
   ): Promise<void> {
+    // The document is registered with VS Code by now, so an upgrade on open can become an edit
+    document.announceUpgrade();
+
     const webview = webviewPanel.webview;
     webview.options = {
       enableScripts: true,
@@ -65,18 +107,28 @@ export class AssetEditorProvider extends BaseWebviewProvider
 
     webview.html = this.getHtmlForWebview(webview, "Asset Editor");
 
-    const plugin = getPluginDescriptor(document.data.type);
-
-    // Set up handlers for this document
+    // Set up a handler for this panel
     const pathContext = new DocumentPathContext(document.uri);
-    this.handlers = new AssetEditorHandler(document, webview, this.context, pathContext);
+    const handler = new AssetEditorHandler(document, webview, this.context, pathContext);
+    this.handlers.set(webviewPanel, handler);
 
+    // Type the webview was last initialized for; fixing a mistyped type switches plugins
+    let postedType: string | undefined;
     const postInit = () => {
+      const type = document.data.type;
+      const known = hasPlugin(type);
+      postedType = type;
       const message: HostToWebviewMessage = {
         kind: "init",
         documentUri: document.uri.toString(),
         content: document.data,
-        plugin
+        plugin: known
+          ? getPluginDescriptor(type)
+          : { type, title: "Unknown Asset Type", description: `No plugin is registered for type '${type}'` },
+        registeredTypes: known ? undefined : listPlugins(),
+        schema: getPluginSchema(type),
+        recovered: document.recovered,
+        migration: document.migration
       };
       webview.postMessage(message);
     };
@@ -86,12 +138,18 @@ export class AssetEditorProvider extends BaseWebviewProvider
         if (message.kind === "ready") {
           postInit();
         } else {
-          await this.handlers?.dispatch(message);
+          await this.handlers.get(webviewPanel)?.dispatch(message);
         }
       }
     );
 
-    const changeSubscription = document.onDidChange((content) => {
+    // Broadcast changes to every panel except the one they came from
+    const changeSubscription = document.onDidChange(({ content, source }) => {
+      if (postedType !== undefined && content.type !== postedType) {
+        postInit();
+        return;
+      }
+      if (source === webview) return;
       const message: HostToWebviewMessage = {
         kind: "applyContent",
         content
@@ -102,7 +160,7 @@ export class AssetEditorProvider extends BaseWebviewProvider
     webviewPanel.onDidDispose(() => {
       messageSubscription.dispose();
       changeSubscription.dispose();
-      this.handlers = undefined;
+      this.handlers.delete(webviewPanel);
     });
   }
 
@@ -146,6 +204,7 @@ export class AssetEditorProvider extends BaseWebviewProvider
       throw new Error("Backup cancelled");
     }
 
+    // Hot exit: VS Code passes the backup's URI back to openCustomDocument as backupId
     await document.save(context.destination);
     return {
       id: context.destination.toString(),
@@ -0,0 +1,79 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AssetDocument } from "./asset-document";
+
+const DIFF_SCHEME = "tile-engine-diff";
+
+// Open documents by URI, so the content provider can serve their unsaved content
+const documents = new Map<string, AssetDocument>();
+const onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+type Source = "disk" | "document";
+
+/**
+ * Build a read-only URI for one side of the diff. The `.json` suffix keeps the
+ * asset custom editor from claiming it and gives the diff JSON highlighting.
+ */
+function toDiffUri(document: AssetDocument, source: Source): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: DIFF_SCHEME,
+    path: `${document.uri.path}.json`,
+    query: new URLSearchParams({ source, uri: document.uri.toString() }).toString()
+  });
+}
+
+const contentProvider: vscode.TextDocumentContentProvider = {
+  onDidChange: onDidChangeEmitter.event,
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const params = new URLSearchParams(uri.query);
+    const documentUri = params.get("uri") ?? "";
+    if (params.get("source") === "document") {
+      const document = documents.get(documentUri);
+      return document ? JSON.stringify(document.data, null, 2) : "";
+    }
+    try {
+      const bytes = await vscode.workspace.fs.readFile(vscode.Uri.parse(documentUri));
+      return Buffer.from(bytes).toString("utf8");
+    } catch {
+      return "";
+    }
+  }
+};
+
+/**
+ * Register the content provider behind the on-disk/unsaved diff.
+ */
+export function registerDiskDiff(): vscode.Disposable {
+  return vscode.Disposable.from(
+    vscode.workspace.registerTextDocumentContentProvider(DIFF_SCHEME, contentProvider),
+    onDidChangeEmitter
+  );
+}
+
+/**
+ * Make a document's unsaved content available to the diff while it is open.
+ */
+export function trackDiffableDocument(document: AssetDocument): void {
+  const key = document.uri.toString();
+  documents.set(key, document);
+  document.onDidDispose(() => documents.delete(key));
+}
+
+/**
+ * Open a diff between the file on disk and the document's current content.
+ * @param label Name for the document side, e.g. "Recovered"
+ */
+export async function showDiffWithDisk(document: AssetDocument, label: string): Promise<void> {
+  const name = path.basename(document.uri.fsPath);
+  const left = toDiffUri(document, "disk");
+  const right = toDiffUri(document, "document");
+  // Refresh diff documents that are still open from an earlier comparison
+  onDidChangeEmitter.fire(left);
+  onDidChangeEmitter.fire(right);
+  await vscode.commands.executeCommand(
+    "vscode.diff",
+    left,
+    right,
+    `${name} (On Disk) ↔ (${label})`
+  );
+}
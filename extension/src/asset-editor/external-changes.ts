@@ -0,0 +1,95 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AssetDocument } from "./asset-document";
+import { showDiffWithDisk } from "./disk-diff";
+
+const KEEP_MINE = "Keep Mine";
+const TAKE_THEIRS = "Take Theirs";
+const SHOW_DIFF = "Show Diff";
+
+/**
+ * Revert through VS Code so its dirty state and undo stack follow the reload.
+ * Revert acts on the active editor, so focus the document's editor first.
+ */
+async function takeTheirs(document: AssetDocument, viewType: string): Promise<void> {
+  await vscode.commands.executeCommand("vscode.openWith", document.uri, viewType);
+  await vscode.commands.executeCommand("workbench.action.files.revert");
+}
+
+async function resolveConflict(document: AssetDocument, viewType: string, diskText: string): Promise<void> {
+  const name = path.basename(document.uri.fsPath);
+  const choice = await vscode.window.showWarningMessage(
+    `${name} was changed on disk, but you have unsaved changes.`,
+    KEEP_MINE,
+    TAKE_THEIRS,
+    SHOW_DIFF
+  );
+
+  switch (choice) {
+    case TAKE_THEIRS:
+      await takeTheirs(document, viewType);
+      break;
+    case SHOW_DIFF:
+      await showDiffWithDisk(document, "Unsaved");
+      // Ask again once the user has seen what changed
+      await resolveConflict(document, viewType, diskText);
+      break;
+    default:
+      // Keep mine, or dismissed: saving will overwrite the external change
+      document.ignoreExternalChange(diskText);
+      break;
+  }
+}
+
+/**
+ * Watch an open document's file for changes made outside the editor (git, scripts, other tools).
+ * Clean documents reload silently; dirty documents ask whether to keep the unsaved
+ * changes, take the version on disk, or compare the two.
+ */
+export function watchExternalChanges(document: AssetDocument, viewType: string): vscode.Disposable {
+  const pattern = new vscode.RelativePattern(
+    vscode.Uri.joinPath(document.uri, ".."),
+    path.basename(document.uri.fsPath)
+  );
+  const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, false, true);
+
+  const checkDisk = async () => {
+    try {
+      const diskText = await document.readExternalChange();
+      if (diskText === undefined) return;
+      if (document.isDirty) {
+        await resolveConflict(document, viewType, diskText);
+      } else {
+        // Undo entries from before the reload no longer apply; see AssetDocument.ifCurrent
+        await document.revert();
+      }
+    } catch (error) {
+      // Usually a partially written file; the write's next change event retries
+      console.warn(`Failed to reload ${document.uri.fsPath}:`, error);
+    }
+  };
+
+  let handling = false;
+  let changedAgain = false;
+  const onDiskChange = async () => {
+    // Events arrive in bursts while a file is written; handle one at a time, and
+    // check again afterwards if the file changed meanwhile, so the last write isn't missed
+    if (handling) {
+      changedAgain = true;
+      return;
+    }
+    handling = true;
+    try {
+      do {
+        changedAgain = false;
+        await checkDisk();
+      } while (changedAgain);
+    } finally {
+      handling = false;
+    }
+  };
+
+  watcher.onDidChange(() => void onDiskChange());
+  watcher.onDidCreate(() => void onDiskChange());
+  return watcher;
+}
@@ -0,0 +1,103 @@
+import * as vscode from "vscode";
+import { getDefaultContentForType, listPlugins } from "../plugin-system/registry";
+import { assignGid } from "../framework/gid-registry";
+import { indexAssetFile } from "../asset-index/asset-index";
+import { AssetEditorProvider } from "./asset-editor-provider";
+
+export const NEW_ASSET_COMMAND = "tile-engine.newAsset";
+
+const ASSET_EXTENSION = ".asset";
+
+/**
+ * Folder to create the asset in: the Explorer selection (or its parent for files),
+ * the active editor's folder, or the first workspace folder.
+ */
+async function getTargetFolder(uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+  if (uri) {
+    const stat = await vscode.workspace.fs.stat(uri);
+    return stat.type & vscode.FileType.Directory ? uri : vscode.Uri.joinPath(uri, "..");
+  }
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  if (
+    (input instanceof vscode.TabInputCustom || input instanceof vscode.TabInputText) &&
+    vscode.workspace.getWorkspaceFolder(input.uri)
+  ) {
+    return vscode.Uri.joinPath(input.uri, "..");
+  }
+  return vscode.workspace.workspaceFolders?.[0]?.uri;
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toFileName(name: string): string {
+  const trimmed = name.trim();
+  return trimmed.endsWith(ASSET_EXTENSION) ? trimmed : `${trimmed}${ASSET_EXTENSION}`;
+}
+
+async function createNewAsset(uri?: vscode.Uri): Promise<void> {
+  const folder = await getTargetFolder(uri);
+  if (!folder) {
+    vscode.window.showErrorMessage("Open a workspace folder to create assets in.");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    listPlugins().map((plugin) => ({
+      label: plugin.title,
+      description: plugin.type,
+      detail: plugin.description,
+      type: plugin.type
+    })),
+    {
+      title: "New Asset",
+      placeHolder: "Select the type of asset to create",
+      matchOnDescription: true
+    }
+  );
+  if (!picked) return;
+
+  const name = await vscode.window.showInputBox({
+    title: `New ${picked.label}`,
+    prompt: `File name in ${vscode.workspace.asRelativePath(folder)}`,
+    value: `${picked.type}${ASSET_EXTENSION}`,
+    valueSelection: [0, picked.type.length],
+    validateInput: async (value) => {
+      if (!value.trim()) return "Enter a file name";
+      if (/[\\/]/.test(value)) return "The name must not contain path separators";
+      if (await exists(vscode.Uri.joinPath(folder, toFileName(value)))) return `${toFileName(value)} already exists`;
+      return undefined;
+    }
+  });
+  if (!name) return;
+
+  const target = vscode.Uri.joinPath(folder, toFileName(name));
+  try {
+    const content = getDefaultContentForType(picked.type) ?? { type: picked.type };
+    await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(assignGid(content), null, 2)));
+    // Index right away so references to the new asset resolve before the watcher fires
+    await indexAssetFile(target);
+    await vscode.commands.executeCommand("vscode.openWith", target, AssetEditorProvider.viewType);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    vscode.window.showErrorMessage(`Failed to create ${vscode.workspace.asRelativePath(target)}: ${message}`);
+  }
+}
+
+/**
+ * Register the "New Asset…" command. Lists every editor plugin, writes the picked
+ * type's default content (with a fresh gid where the type has one) and opens it.
+ * Invoked from the Explorer context menu with the selected folder or file, or from
+ * the Command Palette.
+ */
+export function registerNewAssetCommand(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(NEW_ASSET_COMMAND, (uri?: vscode.Uri) => createNewAsset(uri))
+  );
+}
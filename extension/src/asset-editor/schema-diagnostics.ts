@@ -0,0 +1,55 @@
+import * as vscode from "vscode";
+import { AssetDocument } from "./asset-document";
+import { findJsonRange } from "../framework/json-location";
+import { formatPropertyPath } from "../asset-index/asset-index";
+
+const DIAGNOSTIC_SOURCE = "tile-engine-schema";
+
+let collection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Create the diagnostic collection for schema problems in open asset documents.
+ */
+export function registerSchemaDiagnostics(): vscode.Disposable {
+  collection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+  return collection;
+}
+
+/**
+ * Text the diagnostics are shown against: the file as open in a text editor, which
+ * may have unsaved edits, or else as on disk.
+ */
+function getFileText(document: AssetDocument): string | undefined {
+  const uri = document.uri.toString();
+  const open = vscode.workspace.textDocuments.find((text) => text.uri.toString() === uri);
+  return open ? open.getText() : document.diskText;
+}
+
+function toDiagnostics(document: AssetDocument): vscode.Diagnostic[] {
+  // Ranges must point into the file itself, which needn't be formatted as we would save it
+  const text = getFileText(document);
+  const wholeDocument = new vscode.Range(0, 0, Number.MAX_SAFE_INTEGER, 0);
+  return document.problems.map((problem) => {
+    const location = problem.path.length > 0 ? formatPropertyPath(problem.path) : "asset";
+    const diagnostic = new vscode.Diagnostic(
+      text === undefined ? wholeDocument : findJsonRange(text, problem.path),
+      `${problem.message} (${location})`,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    return diagnostic;
+  });
+}
+
+/**
+ * Publish a document's schema problems whenever it is validated, until it is closed.
+ */
+export function trackSchemaProblems(document: AssetDocument): void {
+  const subscription = document.onDidValidate(() => {
+    collection?.set(document.uri, toDiagnostics(document));
+  });
+  document.onDidDispose(() => {
+    subscription.dispose();
+    collection?.delete(document.uri);
+  });
+}
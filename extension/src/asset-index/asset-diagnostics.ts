@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import {
+  IndexedAsset,
+  findAssetByGid,
+  formatPropertyPath,
+  getIndexedAsset,
+  getIndexedAssets,
+  onDidUpdateAssetIndex
+} from "./asset-index";
+import { findJsonRange } from "../framework/json-location";
+
+const DIAGNOSTIC_SOURCE = "tile-engine";
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function validateAsset(asset: IndexedAsset): Promise<vscode.Diagnostic[]> {
+  if (asset.references.length === 0) return [];
+
+  let text = "";
+  try {
+    text = Buffer.from(await vscode.workspace.fs.readFile(asset.uri)).toString("utf8");
+  } catch {
+    // Ranges fall back to the start of the file
+  }
+
+  const diagnostics: vscode.Diagnostic[] = [];
+  for (const reference of asset.references) {
+    const property = formatPropertyPath(reference.property);
+    if (reference.kind === "file") {
+      if (reference.target && (await exists(reference.target))) continue;
+      const diagnostic = new vscode.Diagnostic(
+        findJsonRange(text, reference.property),
+        `Referenced file '${reference.path}' does not exist (${property})`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostics.push(diagnostic);
+    } else {
+      if (await findAssetByGid(reference.gid)) continue;
+      const diagnostic = new vscode.Diagnostic(
+        findJsonRange(text, reference.property),
+        `No asset with gid ${reference.gid} found in the workspace (${property})`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostics.push(diagnostic);
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Publish diagnostics for asset references that point at missing files or unknown gids.
+ * Assets are validated after the initial index scan, when they change, and when
+ * files they depend on appear or disappear.
+ */
+export function registerAssetDiagnostics(context: vscode.ExtensionContext): void {
+  const collection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+
+  const validate = async (assets: IndexedAsset[]) => {
+    for (const asset of assets) {
+      collection.set(asset.uri, await validateAsset(asset));
+    }
+  };
+
+  const updateSubscription = onDidUpdateAssetIndex((uris) => {
+    for (const uri of uris) {
+      if (!getIndexedAsset(uri)) collection.delete(uri);
+    }
+    // Any asset change can add or remove a gid, so gid references are re-checked too
+    const changed = new Set(uris.map((uri) => uri.toString()));
+    void validate(
+      getIndexedAssets().filter(
+        (asset) => changed.has(asset.uri.toString()) || asset.references.some((r) => r.kind === "gid")
+      )
+    );
+  });
+
+  // Referenced files are usually images, so watch everything rather than just assets
+  const revalidateDependents = (uri: vscode.Uri) => {
+    const key = uri.toString();
+    void validate(
+      getIndexedAssets().filter((asset) =>
+        asset.references.some((r) => r.kind === "file" && r.target?.toString() === key)
+      )
+    );
+  };
+  const watcher = vscode.workspace.createFileSystemWatcher("**/*", false, true, false);
+  watcher.onDidCreate(revalidateDependents);
+  watcher.onDidDelete(revalidateDependents);
+
+  context.subscriptions.push(collection, updateSubscription, watcher);
+}
@@ -0,0 +1,212 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { AssetPropertyPath, AssetReference } from "../plugin-system/types";
+import { getAssetReferences } from "../plugin-system/registry";
+import { isAssetJson } from "../protocol/messages";
+import { normalizeRelativePath } from "../framework/path-utils";
+
+const ASSET_GLOB = "**/*.asset";
+const EXCLUDE_GLOB = "**/node_modules/**";
+
+/**
+ * A reference with file paths resolved against the referencing asset.
+ */
+export type IndexedReference = AssetReference & { target?: vscode.Uri };
+
+export interface IndexedAsset {
+  uri: vscode.Uri;
+  type: string;
+  gid?: string;
+  references: IndexedReference[];
+}
+
+export interface AssetReferenceMatch {
+  asset: IndexedAsset;
+  reference: IndexedReference;
+}
+
+// Index state - populated by initializeAssetIndex()
+const assets = new Map<string, IndexedAsset>();
+const uriByGid = new Map<string, vscode.Uri>();
+let ready: Promise<void> = Promise.resolve();
+
+const onDidUpdateEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+
+/**
+ * Fires with the asset files that were (re-)indexed or removed.
+ */
+export const onDidUpdateAssetIndex = onDidUpdateEmitter.event;
+
+/**
+ * Resolve a reference path stored in an asset against the asset's directory.
+ */
+export function resolveReferencePath(assetUri: vscode.Uri, referencePath: string): vscode.Uri {
+  if (path.isAbsolute(referencePath)) {
+    return vscode.Uri.file(referencePath);
+  }
+  return vscode.Uri.joinPath(assetUri, "..", normalizeRelativePath(referencePath));
+}
+
+/**
+ * Format a property path for display, e.g. `layers[0].tileset.path`.
+ */
+export function formatPropertyPath(property: AssetPropertyPath): string {
+  return property
+    .map((key, i) => (typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`))
+    .join("");
+}
+
+async function readAsset(uri: vscode.Uri): Promise<IndexedAsset | undefined> {
+  let parsed: unknown;
+  try {
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    parsed = JSON.parse(Buffer.from(bytes).toString("utf8"));
+  } catch {
+    // Unreadable or invalid files simply aren't indexed
+    return undefined;
+  }
+  if (!isAssetJson(parsed)) return undefined;
+
+  let references: AssetReference[] = [];
+  try {
+    references = getAssetReferences(parsed);
+  } catch (error) {
+    console.warn(`Failed to read references of ${uri.fsPath}:`, error);
+  }
+
+  return {
+    uri,
+    type: parsed.type,
+    gid: typeof parsed.gid === "string" && parsed.gid !== "" ? parsed.gid : undefined,
+    references: references.map((reference) => {
+      if (reference.kind !== "file") return reference;
+      try {
+        return { ...reference, target: resolveReferencePath(uri, reference.path) };
+      } catch {
+        return reference;
+      }
+    })
+  };
+}
+
+function removeEntry(uri: vscode.Uri): boolean {
+  const key = uri.toString();
+  const existing = assets.get(key);
+  if (!existing) return false;
+  assets.delete(key);
+  if (existing.gid && uriByGid.get(existing.gid)?.toString() === key) {
+    uriByGid.delete(existing.gid);
+  }
+  return true;
+}
+
+async function indexFile(uri: vscode.Uri): Promise<void> {
+  const entry = await readAsset(uri);
+  removeEntry(uri);
+  if (!entry) return;
+
+  assets.set(uri.toString(), entry);
+  if (entry.gid) {
+    const existing = uriByGid.get(entry.gid);
+    if (existing && existing.toString() !== uri.toString()) {
+      // Usually a copied asset; keep the first file so references stay stable
+      console.warn(`Duplicate gid ${entry.gid} in ${uri.fsPath}; already used by ${existing.fsPath}`);
+    } else {
+      uriByGid.set(entry.gid, uri);
+    }
+  }
+}
+
+/**
+ * (Re-)index a single asset file.
+ */
+export async function indexAssetFile(uri: vscode.Uri): Promise<void> {
+  await indexFile(uri);
+  onDidUpdateEmitter.fire([uri]);
+}
+
+/**
+ * Drop an asset file from the index.
+ */
+export function removeAssetFile(uri: vscode.Uri): void {
+  if (removeEntry(uri)) {
+    onDidUpdateEmitter.fire([uri]);
+  }
+}
+
+async function scanWorkspace(): Promise<void> {
+  assets.clear();
+  uriByGid.clear();
+  const uris = await vscode.workspace.findFiles(ASSET_GLOB, EXCLUDE_GLOB);
+  await Promise.all(uris.map((uri) => indexFile(uri)));
+  onDidUpdateEmitter.fire(uris);
+}
+
+function rescan(): void {
+  ready = scanWorkspace().catch((error) => {
+    console.error("Failed to index workspace assets:", error);
+  });
+}
+
+/**
+ * Index every asset file in the workspace with its gid and references, and keep
+ * the index up to date as asset files are created, changed, moved or deleted.
+ * Called once during extension activation.
+ */
+export function initializeAssetIndex(context: vscode.ExtensionContext): void {
+  rescan();
+
+  const watcher = vscode.workspace.createFileSystemWatcher(ASSET_GLOB);
+  watcher.onDidCreate((uri) => void indexAssetFile(uri));
+  watcher.onDidChange((uri) => void indexAssetFile(uri));
+  watcher.onDidDelete((uri) => removeAssetFile(uri));
+
+  const folderSubscription = vscode.workspace.onDidChangeWorkspaceFolders(() => rescan());
+
+  context.subscriptions.push(watcher, folderSubscription, onDidUpdateEmitter);
+}
+
+/**
+ * Resolves once the initial workspace scan has finished.
+ */
+export function whenAssetIndexReady(): Promise<void> {
+  return ready;
+}
+
+export function getIndexedAssets(): IndexedAsset[] {
+  return Array.from(assets.values());
+}
+
+export function getIndexedAsset(uri: vscode.Uri): IndexedAsset | undefined {
+  return assets.get(uri.toString());
+}
+
+/**
+ * Find the asset file that owns a gid.
+ * Waits for the initial workspace scan to finish.
+ */
+export async function findAssetByGid(gid: string): Promise<vscode.Uri | undefined> {
+  await ready;
+  return uriByGid.get(gid);
+}
+
+/**
+ * Find every reference to a file, by path or - for assets with a gid - by gid.
+ * Waits for the initial workspace scan to finish.
+ */
+export async function findReferences(target: vscode.Uri): Promise<AssetReferenceMatch[]> {
+  await ready;
+  const key = target.toString();
+  const gid = assets.get(key)?.gid;
+  const matches: AssetReferenceMatch[] = [];
+  for (const asset of assets.values()) {
+    for (const reference of asset.references) {
+      const byPath = reference.kind === "file" && reference.target?.toString() === key;
+      const byGid = reference.kind === "gid" && gid !== undefined && reference.gid === gid;
+      if (byPath || byGid) {
+        matches.push({ asset, reference });
+      }
+    }
+  }
+  return matches;
+}
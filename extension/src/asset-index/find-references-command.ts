@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+import { findReferences, formatPropertyPath } from "./asset-index";
+
+export const FIND_REFERENCES_COMMAND = "tile-engine.findAssetReferences";
+
+/**
+ * The file shown in the active editor tab, including custom asset editors.
+ */
+function getActiveUri(): vscode.Uri | undefined {
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  if (input instanceof vscode.TabInputCustom || input instanceof vscode.TabInputText) {
+    return input.uri;
+  }
+  return undefined;
+}
+
+async function findAssetReferences(uri?: vscode.Uri): Promise<void> {
+  const target = uri ?? getActiveUri();
+  if (!target) {
+    vscode.window.showErrorMessage("Select a file in the Explorer or open an asset to find its references.");
+    return;
+  }
+
+  const name = vscode.workspace.asRelativePath(target);
+  const matches = await findReferences(target);
+  if (matches.length === 0) {
+    vscode.window.showInformationMessage(`No assets reference ${name}.`);
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    matches.map((match) => ({
+      label: vscode.workspace.asRelativePath(match.asset.uri),
+      description: formatPropertyPath(match.reference.property),
+      detail: match.reference.kind === "gid" ? `by gid ${match.reference.gid}` : `by path ${match.reference.path}`,
+      uri: match.asset.uri
+    })),
+    {
+      title: `${matches.length} reference${matches.length === 1 ? "" : "s"} to ${name}`,
+      placeHolder: "Select an asset to open",
+      matchOnDescription: true
+    }
+  );
+
+  if (picked) {
+    await vscode.commands.executeCommand("vscode.open", picked.uri);
+  }
+}
+
+/**
+ * Register the "Find Asset References" command.
+ * Invoked from the Explorer context menu with the selected file, or from the
+ * Command Palette for the file in the active editor.
+ */
+export function registerFindReferencesCommand(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(FIND_REFERENCES_COMMAND, (uri?: vscode.Uri) => findAssetReferences(uri))
+  );
+}
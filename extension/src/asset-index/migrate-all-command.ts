@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import { AssetData } from "../plugin-system/types";
+import { isAssetJson } from "../protocol/messages";
+import { migrateAsset } from "../plugin-system/migrations";
+import { getIndexedAssets, whenAssetIndexReady } from "./asset-index";
+
+export const MIGRATE_ALL_COMMAND = "tile-engine.migrateAllAssets";
+
+interface PendingMigration {
+  uri: vscode.Uri;
+  data: AssetData;
+  from: number;
+  to: number;
+}
+
+async function readAsset(uri: vscode.Uri): Promise<AssetData> {
+  const parsed: unknown = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+  if (!isAssetJson(parsed)) {
+    throw new Error("Not an asset: missing string 'type' property");
+  }
+  return parsed as AssetData;
+}
+
+async function migrateAllAssets(): Promise<void> {
+  await whenAssetIndexReady();
+
+  const pending: PendingMigration[] = [];
+  const failures: string[] = [];
+  for (const asset of getIndexedAssets()) {
+    try {
+      const result = migrateAsset(await readAsset(asset.uri));
+      if (result) {
+        pending.push({ uri: asset.uri, ...result });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${vscode.workspace.asRelativePath(asset.uri)}: ${message}`);
+    }
+  }
+
+  if (pending.length === 0) {
+    const suffix = failures.length > 0 ? ` ${failures.length} could not be read or upgraded.` : "";
+    vscode.window.showInformationMessage(`All assets are up to date.${suffix}`);
+    failures.forEach((failure) => console.warn(`Migrate all assets: ${failure}`));
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Upgrade ${pending.length} asset${pending.length === 1 ? "" : "s"} to the current format?`,
+    {
+      modal: true,
+      detail: pending
+        .map((entry) => `${vscode.workspace.asRelativePath(entry.uri)} (version ${entry.from} → ${entry.to})`)
+        .join("\n")
+    },
+    "Upgrade"
+  );
+  if (confirm !== "Upgrade") return;
+
+  let upgraded = 0;
+  for (const entry of pending) {
+    try {
+      // Open editors pick the new content up through their external change watcher
+      await vscode.workspace.fs.writeFile(entry.uri, new TextEncoder().encode(JSON.stringify(entry.data, null, 2)));
+      upgraded++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${vscode.workspace.asRelativePath(entry.uri)}: ${message}`);
+    }
+  }
+
+  failures.forEach((failure) => console.warn(`Migrate all assets: ${failure}`));
+  if (failures.length > 0) {
+    vscode.window.showWarningMessage(
+      `Upgraded ${upgraded} asset${upgraded === 1 ? "" : "s"}; ${failures.length} failed. ` +
+        `First failure: ${failures[0]}`
+    );
+  } else {
+    vscode.window.showInformationMessage(`Upgraded ${upgraded} asset${upgraded === 1 ? "" : "s"}.`);
+  }
+}
+
+/**
+ * Register the "Migrate All Assets" command, which upgrades every asset in the
+ * workspace to its plugin's current format version in one pass.
+ */
+export function registerMigrateAllCommand(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(vscode.commands.registerCommand(MIGRATE_ALL_COMMAND, () => migrateAllAssets()));
+}
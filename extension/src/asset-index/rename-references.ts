@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { findJsonValueOffsets } from "../framework/json-location";
+import { IndexedAsset, getIndexedAssets, whenAssetIndexReady } from "./asset-index";
+
+type Relocate = (uri: vscode.Uri) => vscode.Uri;
+
+/**
+ * Build a function mapping a URI to its location after the given renames.
+ * Renamed folders move everything below them.
+ */
+function createRelocate(files: ReadonlyArray<{ oldUri: vscode.Uri; newUri: vscode.Uri }>): Relocate {
+  return (uri) => {
+    for (const { oldUri, newUri } of files) {
+      if (uri.toString() === oldUri.toString()) return newUri;
+      const relative = path.relative(oldUri.fsPath, uri.fsPath);
+      if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+        return vscode.Uri.joinPath(newUri, ...relative.split(path.sep));
+      }
+    }
+    return uri;
+  };
+}
+
+/**
+ * The path an asset at `assetUri` should store to reach `target`.
+ * Keeps absolute paths absolute and always uses forward slashes.
+ */
+function toReferencePath(assetUri: vscode.Uri, target: vscode.Uri, previous: string): string {
+  if (path.isAbsolute(previous)) {
+    return target.fsPath;
+  }
+  return path.relative(path.dirname(assetUri.fsPath), target.fsPath).replace(/\\/g, "/");
+}
+
+/**
+ * The text edits that rewrite the path references of one asset. Only the path
+ * strings are replaced, so the rest of the file keeps its formatting.
+ */
+async function rewriteAsset(asset: IndexedAsset, relocate: Relocate): Promise<vscode.TextEdit[]> {
+  const newAssetUri = relocate(asset.uri);
+  const assetMoved = newAssetUri.toString() !== asset.uri.toString();
+  const updates = asset.references.flatMap((reference) => {
+    if (reference.kind !== "file" || !reference.target) return [];
+    const newTarget = relocate(reference.target);
+    // Leave references untouched unless the rename moves one of their ends
+    if (!assetMoved && newTarget.toString() === reference.target.toString()) return [];
+    const newPath = toReferencePath(newAssetUri, newTarget, reference.path);
+    return newPath !== reference.path ? [{ reference, path: newPath }] : [];
+  });
+  if (updates.length === 0) return [];
+
+  // Edit the open text document if there is one so unsaved text edits aren't lost
+  const document = await vscode.workspace.openTextDocument(asset.uri);
+  const text = document.getText();
+  const edits: vscode.TextEdit[] = [];
+  for (const { reference, path: newPath } of updates) {
+    const offsets = findJsonValueOffsets(text, reference.property);
+    // The index may be behind unsaved text edits; leave references it has wrong alone
+    if (!offsets || !isJsonString(text.slice(offsets.start, offsets.end), reference.path)) continue;
+    const range = new vscode.Range(document.positionAt(offsets.start), document.positionAt(offsets.end));
+    edits.push(vscode.TextEdit.replace(range, JSON.stringify(newPath)));
+  }
+  return edits;
+}
+
+function isJsonString(json: string, value: string): boolean {
+  try {
+    return JSON.parse(json) === value;
+  } catch {
+    return false;
+  }
+}
+
+async function createRenameEdit(event: vscode.FileWillRenameEvent): Promise<vscode.WorkspaceEdit> {
+  await whenAssetIndexReady();
+  const relocate = createRelocate(event.files);
+  const edit = new vscode.WorkspaceEdit();
+  const metadata: vscode.WorkspaceEditEntryMetadata = {
+    label: "Update asset references",
+    needsConfirmation: false
+  };
+
+  for (const asset of getIndexedAssets()) {
+    try {
+      for (const textEdit of await rewriteAsset(asset, relocate)) {
+        edit.replace(asset.uri, textEdit.range, textEdit.newText, metadata);
+      }
+    } catch (error) {
+      console.warn(`Failed to update references in ${asset.uri.fsPath}:`, error);
+    }
+  }
+  return edit;
+}
+
+/**
+ * Keep asset references intact when files or folders are renamed or moved.
+ * Referencing assets are rewritten through a WorkspaceEdit applied before the
+ * rename, so the whole refactoring can be undone in one step.
+ * References by gid need no update; the asset index follows the moved file.
+ */
+export function registerRenameReferences(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.workspace.onWillRenameFiles((event) => {
+      event.waitUntil(createRenameEdit(event));
+    })
+  );
+}
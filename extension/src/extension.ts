@@ -2,13 +2,31 @@ import * as vscode from "vscode";
 import { AssetEditorProvider } from "./asset-editor/asset-editor-provider";
 import { StandaloneToolProvider } from "./tool/standalone-tool-provider";
 import { setupPluginRegistry, getToolPlugins, getHeadlessTools } from "./plugin-system/plugin-registry-setup";
+import { initializeAssetIndex } from "./asset-index/asset-index";
+import { registerAssetSchemaProvider } from "./framework/asset-schema-provider";
+import { registerAssetDiagnostics } from "./asset-index/asset-diagnostics";
+import { registerFindReferencesCommand } from "./asset-index/find-references-command";
+import { registerRenameReferences } from "./asset-index/rename-references";
+import { registerMigrateAllCommand } from "./asset-index/migrate-all-command";
+import { registerNewAssetCommand } from "./asset-editor/new-asset-command";
 
 export function activate(context: vscode.ExtensionContext): void {
   // Set up plugin registry - single point of registration
   setupPluginRegistry();
 
+  // Index assets across the workspace so gids and cross-references can be resolved
+  registerAssetDiagnostics(context);
+  initializeAssetIndex(context);
+  registerFindReferencesCommand(context);
+  registerRenameReferences(context);
+  registerMigrateAllCommand(context);
+
   // Register custom editor for file-based asset editing
   context.subscriptions.push(AssetEditorProvider.register(context));
+  registerNewAssetCommand(context);
+
+  // Serve plugin schemas to the JSON language service for the text editor fallback
+  registerAssetSchemaProvider(context);
 
   // Register standalone tool commands
   const toolProvider = new StandaloneToolProvider(context);
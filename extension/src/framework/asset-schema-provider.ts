@@ -0,0 +1,48 @@
+import * as vscode from "vscode";
+import { JsonSchema } from "../protocol/json-schema";
+import { getPluginSchema, listPlugins } from "../plugin-system/registry";
+
+/** Referenced by `contributes.jsonValidation` in package.json */
+const SCHEMA_SCHEME = "tile-engine-schema";
+
+/**
+ * Combine the schemas of all editor plugins into one schema for `*.asset` files,
+ * selecting each plugin's schema by the `type` property.
+ */
+function buildAssetSchema(): JsonSchema & { $schema: string } {
+  const plugins = listPlugins();
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    required: ["type"],
+    properties: {
+      type: {
+        description: "Asset type; selects the editor plugin",
+        enum: plugins.map((plugin) => plugin.type)
+      },
+      version: {
+        description: "Format version of the asset's content; older versions are upgraded on open",
+        type: "integer",
+        minimum: 1
+      }
+    },
+    allOf: plugins.flatMap((plugin) => {
+      const schema = getPluginSchema(plugin.type);
+      return schema
+        ? [{ if: { properties: { type: { const: plugin.type } }, required: ["type"] }, then: schema }]
+        : [];
+    })
+  };
+}
+
+/**
+ * Serve the combined asset schema to VS Code's JSON language service, so assets
+ * opened in the text editor get validation and completion.
+ */
+export function registerAssetSchemaProvider(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(SCHEMA_SCHEME, {
+      provideTextDocumentContent: () => JSON.stringify(buildAssetSchema(), null, 2)
+    })
+  );
+}
@@ -1,9 +1,10 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { HostToWebviewMessage, WebviewToHostMessage } from "../protocol/messages";
+import { FILE_SELECTION_CANCELLED, HostToWebviewMessage, WebviewToHostMessage, isAssetJson } from "../protocol/messages";
 import { PathContext } from "./path-context";
 import { getMimeType } from "./mime-types";
 import { normalizeRelativePath } from "./path-utils";
+import { resolveGid } from "./gid-registry";
 
 /**
  * Base handler for webview messages shared across different plugin types.
@@ -18,7 +19,7 @@ export class CommonHandler {
 
   /**
    * Dispatch messages to appropriate handlers.
-   * Handles common messages (pickFile, showNotification, readFile, readImage, writeFile, getDirectory).
+   * Handles common messages (pickFile, showNotification, readFile, readImage, writeFile, getDirectory, resolveGid).
    * Subclasses should override to handle their own messages and call super.dispatch() for unhandled ones.
    */
   async dispatch(message: WebviewToHostMessage): Promise<void> {
@@ -46,6 +47,9 @@ export class CommonHandler {
       case "getDirectory":
         await this.handleGetDirectory(message.requestId, message.dirPath);
         break;
+      case "resolveGid":
+        await this.handleResolveGid(message.requestId, message.gid);
+        break;
       default:
         // Subclasses should handle other message types
         break;
@@ -90,7 +94,7 @@ export class CommonHandler {
         };
         this.postMessage(response);
       } else {
-        this.postError("filePicked", requestId, "File selection cancelled");
+        this.postError("filePicked", requestId, FILE_SELECTION_CANCELLED);
       }
     } catch (error) {
       this.postError(
@@ -274,6 +278,43 @@ export class CommonHandler {
     }
   }
 
+  /**
+   * Handle gid resolution - shared across all handler types.
+   * Looks the gid up in the workspace index and returns the owning asset.
+   */
+  protected async handleResolveGid(
+    requestId: string,
+    gid: string
+  ): Promise<void> {
+    try {
+      const targetUri = await resolveGid(gid);
+      if (!targetUri) {
+        throw new Error(`No asset with gid ${gid} found in the workspace`);
+      }
+
+      const bytes = await vscode.workspace.fs.readFile(targetUri);
+      const content: unknown = JSON.parse(Buffer.from(bytes).toString("utf8"));
+      if (!isAssetJson(content)) {
+        throw new Error(`Asset file ${targetUri.fsPath} must be a JSON object with a string 'type' property.`);
+      }
+
+      const response: HostToWebviewMessage = {
+        kind: "gidResolved",
+        requestId,
+        success: true,
+        path: this.pathContext.toRelativePaths([targetUri])[0],
+        content
+      };
+      this.postMessage(response);
+    } catch (error) {
+      this.postError(
+        "gidResolved",
+        requestId,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
   /**
    * Send a message to the webview.
    */
@@ -285,7 +326,7 @@ export class CommonHandler {
    * Send an error response to the webview.
    */
   protected postError(
-    kind: "filePicked" | "fileContent" | "imageData" | "fileWritten" | "saveDialogResult" | "directoryListing",
+    kind: "filePicked" | "fileContent" | "imageData" | "fileWritten" | "saveDialogResult" | "directoryListing" | "gidResolved",
     requestId: string,
     error: string
   ): void {
@@ -0,0 +1,30 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { AssetData } from "../plugin-system/types";
+import { findAssetByGid } from "../asset-index/asset-index";
+
+/**
+ * Create a random 64-bit globally unique identifier as 16 hex characters.
+ * Matches the format generated by the webview for existing assets.
+ */
+export function createGid(): string {
+  return crypto.randomBytes(8).toString("hex");
+}
+
+/**
+ * Give newly created asset content a gid if its plugin declares a `gid` property.
+ * Call this wherever an asset file is created from default content.
+ */
+export function assignGid<T extends AssetData>(data: T): T {
+  if (!("gid" in data) || (typeof data.gid === "string" && data.gid !== "")) {
+    return data;
+  }
+  return { ...data, gid: createGid() };
+}
+
+/**
+ * Find the asset file that owns a gid using the workspace asset index.
+ */
+export async function resolveGid(gid: string): Promise<vscode.Uri | undefined> {
+  return findAssetByGid(gid);
+}
@@ -0,0 +1,109 @@
+import * as vscode from "vscode";
+
+/**
+ * Find the text offsets of the value at `path` in a JSON document.
+ * If the path doesn't exist, the closest existing ancestor is returned instead,
+ * which is where a missing property belongs.
+ */
+function locate(
+  text: string,
+  path: Array<string | number>
+): { start: number; end: number; depth: number } | undefined {
+  let pos = 0;
+  let found: { start: number; end: number; depth: number } | undefined;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    pos++;
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) throw new Error(`Expected '${char}' at ${pos}`);
+    pos++;
+  };
+
+  const readValue = (depth: number, onPath: boolean): void => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === "{" || char === "[") {
+      const close = char === "{" ? "}" : "]";
+      pos++;
+      skipWhitespace();
+      let index = 0;
+      while (text[pos] !== close) {
+        let key: string | number = index++;
+        if (char === "{") {
+          skipWhitespace();
+          key = readString();
+          expect(":");
+        }
+        readValue(depth + 1, onPath && depth < path.length && path[depth] === key);
+        skipWhitespace();
+        if (text[pos] === ",") pos++;
+        else if (text[pos] !== close) throw new Error(`Expected ',' at ${pos}`);
+        skipWhitespace();
+      }
+      pos++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+    }
+
+    // Children finish first, so the deepest match on the path wins
+    if (onPath && (!found || depth > found.depth)) {
+      found = { start, end: pos, depth };
+    }
+  };
+
+  try {
+    readValue(0, true);
+  } catch {
+    return undefined;
+  }
+  return found;
+}
+
+/**
+ * Find the text offsets of the value at exactly `path` in a JSON document, or
+ * undefined if the path doesn't exist or the JSON is malformed.
+ */
+export function findJsonValueOffsets(
+  text: string,
+  path: Array<string | number>
+): { start: number; end: number } | undefined {
+  const location = locate(text, path);
+  return location && location.depth === path.length ? { start: location.start, end: location.end } : undefined;
+}
+
+/**
+ * Find the range of the value at `path` in a JSON document, falling back to the
+ * closest existing ancestor, or the start of the document if the JSON is malformed.
+ */
+export function findJsonRange(text: string, path: Array<string | number>): vscode.Range {
+  const location = locate(text, path);
+  if (!location) {
+    return new vscode.Range(0, 0, 0, 0);
+  }
+  const toPosition = (offset: number) => {
+    const before = text.slice(0, offset);
+    const line = before.split("\n").length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf("\n") + 1));
+  };
+  // Large objects and arrays would highlight pages of text; mark their first line only
+  const end = text.indexOf("\n", location.start);
+  const clippedEnd = end >= 0 && end < location.end ? end : location.end;
+  return new vscode.Range(toPosition(location.start), toPosition(clippedEnd));
+}
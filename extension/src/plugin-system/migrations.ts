@@ -0,0 +1,49 @@
+import { AssetData } from "./types";
+import { getEditorPlugin } from "./registry";
+
+export interface MigrationResult {
+  data: AssetData;
+  from: number;
+  to: number;
+}
+
+export function getAssetVersion(data: AssetData): number {
+  return typeof data.version === "number" ? data.version : 1;
+}
+
+/**
+ * Current format version for an asset type.
+ */
+export function getCurrentVersion(type: string): number {
+  return getEditorPlugin(type)?.version ?? 1;
+}
+
+/**
+ * Asset was written by a newer version of the extension; saving it may drop data.
+ */
+export function isNewerThanSupported(data: AssetData): boolean {
+  // Without a plugin there is no supported version to compare against
+  return getEditorPlugin(data.type) !== undefined && getAssetVersion(data) > getCurrentVersion(data.type);
+}
+
+/**
+ * Upgrade asset content to the current format version of its plugin by running
+ * the plugin's migrations in order. Returns undefined if no upgrade is needed.
+ * @throws Error if a migration step is missing or fails
+ */
+export function migrateAsset(data: AssetData): MigrationResult | undefined {
+  const plugin = getEditorPlugin(data.type);
+  const from = getAssetVersion(data);
+  const to = plugin?.version ?? 1;
+  if (!plugin || from >= to) return undefined;
+
+  let current = data;
+  for (let version = from; version < to; version++) {
+    const migration = plugin.migrations?.find((entry) => entry.from === version);
+    if (!migration) {
+      throw new Error(`No migration for '${data.type}' assets from version ${version} to ${version + 1}`);
+    }
+    current = { ...migration.migrate(current), version: version + 1 };
+  }
+  return { data: current, from, to };
+}
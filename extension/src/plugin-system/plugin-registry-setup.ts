@@ -4,8 +4,12 @@ import { initializeRegistry, getToolPlugins, getHeadlessTools } from "./registry
 import { exampleAssetPlugin } from "../plugins/example/example-asset-plugin";
 import { assetGeneratorTool } from "../plugins/example/asset-generator-tool";
 import { spriteFontTool } from "../plugins/sprite-font/sprite-font-tool";
+import { bmfontImportTool } from "../plugins/sprite-font/bmfont-import-tool";
 import { spriteFontPreviewPlugin } from "../plugins/sprite-font/sprite-font-preview-plugin";
-import { tilesetTool } from "../plugins/tools/tileset-tool";
+import { tilesetEditorPlugin } from "../plugins/tileset/tileset-editor-plugin";
+import { tilesetExtractTool } from "../plugins/tileset/tileset-extract-tool";
+import { tileObjectsEditorPlugin } from "../plugins/tile-objects/tile-objects-editor-plugin";
+import { tilemapEditorPlugin } from "../plugins/tilemap/tilemap-editor-plugin";
 
 /**
  * Set up the plugin registry.
@@ -15,15 +19,21 @@ import { tilesetTool } from "../plugins/tools/tileset-tool";
 export function setupPluginRegistry(): void {
   const editorPlugins: AssetEditorPlugin[] = [
     exampleAssetPlugin,
-    spriteFontPreviewPlugin
+    spriteFontPreviewPlugin,
+    tilesetEditorPlugin,
+    tileObjectsEditorPlugin,
+    tilemapEditorPlugin
   ];
 
   const toolPlugins: StandaloneToolPlugin[] = [
     assetGeneratorTool,
-    spriteFontTool
+    spriteFontTool,
+    bmfontImportTool,
+    tilesetExtractTool
   ];
 
-  const headlessTools: HeadlessTool[] = [tilesetTool];
+  // New assets are created with the "New Asset…" command from each editor plugin's createDefault
+  const headlessTools: HeadlessTool[] = [];
 
   initializeRegistry(editorPlugins, toolPlugins, headlessTools);
 }
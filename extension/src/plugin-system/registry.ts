@@ -2,9 +2,11 @@ import {
   AssetEditorPlugin,
   AssetEditorPluginDescriptor,
   AssetData,
+  AssetReference,
   StandaloneToolPlugin,
   HeadlessTool
 } from "./types";
+import { JsonSchema } from "../protocol/json-schema";
 
 // Plugin storage - populated by setupPluginRegistry()
 let editorPlugins: AssetEditorPlugin[] = [];
@@ -39,17 +41,33 @@ export function getPluginDescriptor(type: string): AssetEditorPluginDescriptor {
   return plugin.metadata;
 }
 
+export function getEditorPlugin(type: string): AssetEditorPlugin | undefined {
+  return editorPlugins.find((entry) => entry.metadata.type === type);
+}
+
 export function getDefaultContentForType<T extends AssetData>(
   type: string
 ): T | undefined {
   const plugin = editorPlugins.find((entry) => entry.metadata.type === type);
-  return plugin?.createDefault() as T | undefined;
+  if (!plugin) return undefined;
+  const content = plugin.createDefault();
+  // New assets start at the current format version
+  return (plugin.version && plugin.version > 1 ? { ...content, version: plugin.version } : content) as T;
 }
 
 export function hasPlugin(type: string): boolean {
   return editorPlugins.some((entry) => entry.metadata.type === type);
 }
 
+export function getPluginSchema(type: string): JsonSchema | undefined {
+  return editorPlugins.find((entry) => entry.metadata.type === type)?.schema;
+}
+
+export function getAssetReferences(data: AssetData): AssetReference[] {
+  const plugin = editorPlugins.find((entry) => entry.metadata.type === data.type);
+  return plugin?.references?.(data) ?? [];
+}
+
 // ===== Tool Plugin Functions =====
 
 export function getToolPlugins(): StandaloneToolPlugin[] {
@@ -1,11 +1,34 @@
 import * as vscode from "vscode";
 import { PluginMetadata } from "../protocol/messages";
+import { JsonSchema } from "../protocol/json-schema";
 
 export interface AssetData {
   type: string;
+  /** Format version of the asset type; missing means version 1 */
+  version?: number;
   [key: string]: unknown;
 }
 
+/** Location of a value inside asset JSON, as property names and array indices */
+export type AssetPropertyPath = Array<string | number>;
+
+/**
+ * A link from an asset to another file, either by path or by gid.
+ * File paths are relative to the directory of the referencing asset.
+ */
+export type AssetReference =
+  | { kind: "file"; path: string; property: AssetPropertyPath }
+  | { kind: "gid"; gid: string; property: AssetPropertyPath };
+
+/**
+ * Upgrades asset content by one format version.
+ */
+export interface AssetMigration {
+  /** Version this migration upgrades from; it produces version `from + 1` */
+  from: number;
+  migrate(data: AssetData): AssetData;
+}
+
 export interface AssetEditorPluginDescriptor extends PluginMetadata {
   mode: "editor";
 }
@@ -13,6 +36,20 @@ export interface AssetEditorPluginDescriptor extends PluginMetadata {
 export interface AssetEditorPlugin<T extends AssetData = AssetData> {
   readonly metadata: AssetEditorPluginDescriptor;
   readonly createDefault: () => T;
+  /**
+   * Optional JSON Schema for the asset type. Open documents are validated against it,
+   * and it powers completion when an asset is opened in the text editor.
+   */
+  readonly schema?: JsonSchema;
+  /** Current format version of the asset type (default 1). Bump it when adding a migration. */
+  readonly version?: number;
+  /** One migration per version step, upgrading older documents when they are opened */
+  readonly migrations?: AssetMigration[];
+  /**
+   * Optional extractor listing the files and gids an asset points at.
+   * Receives content read from disk, so it must tolerate missing properties.
+   */
+  references?(data: T): AssetReference[];
 }
 
 export interface StandaloneToolPluginDescriptor extends PluginMetadata {
@@ -14,6 +14,16 @@ export const exampleAssetPlugin: AssetEditorPlugin<ExampleAsset> = {
     title: "Example Asset",
     description: "Demonstration plugin for Tile Engine assets."
   },
+  schema: {
+    type: "object",
+    required: ["type", "name", "value", "enabled"],
+    properties: {
+      type: { const: "example" },
+      name: { type: "string", title: "Name" },
+      value: { type: "number", title: "Value" },
+      enabled: { type: "boolean", title: "Enabled" }
+    }
+  },
   createDefault: () => ({
     type: "example",
     name: "New Asset",
@@ -0,0 +1,11 @@
+import { StandaloneToolPlugin } from "../../plugin-system/types";
+
+export const bmfontImportTool: StandaloneToolPlugin = {
+  metadata: {
+    mode: "tool",
+    type: "bmfont-import",
+    commandId: "tile-engine.tools.importBMFont",
+    title: "Import BMFont",
+    description: "Convert an AngelCode BMFont (.fnt) and its page images into a sprite font."
+  }
+};
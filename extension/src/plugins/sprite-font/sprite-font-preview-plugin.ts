@@ -11,11 +11,21 @@ interface SpriteFontAsset extends AssetData {
     lineHeight: number;
     baseline: number;
     padding: number;
+    spacing?: number;
     antialias: boolean;
+    distanceField?: { type: "sdf" | "msdf"; distanceRange: number };
+    effects?: {
+      outline?: { width: number; color: string };
+      shadow?: { offsetX: number; offsetY: number; color: string };
+      gradient?: { top: string; bottom: string };
+      innerGlow?: { size: number; color: string };
+      colorAtlas: boolean;
+    };
   };
-  image: string;
+  /** One image per page, or a single image with the pages stacked vertically */
+  pages: string[];
+  pageSize: { width: number; height: number };
   glyphs: Record<string, unknown>;
-  pages: { width: number; height: number };
 }
 
 export const spriteFontPreviewPlugin: AssetEditorPlugin<SpriteFontAsset> = {
@@ -26,6 +36,139 @@ export const spriteFontPreviewPlugin: AssetEditorPlugin<SpriteFontAsset> = {
     description: "Preview and test sprite font assets",
     readonly: true
   },
+  version: 2,
+  migrations: [
+    {
+      // v1 had a single vertically stacked `image` and stored the page size in `pages`
+      from: 1,
+      migrate: ({ image, pages, ...rest }) => ({
+        ...rest,
+        pages: typeof image === "string" ? [image] : [],
+        pageSize: pages
+      })
+    }
+  ],
+  schema: {
+    type: "object",
+    required: ["type", "info", "pages", "pageSize", "glyphs"],
+    properties: {
+      type: { const: "spritefont" },
+      info: {
+        type: "object",
+        required: ["face", "size", "lineHeight", "baseline"],
+        properties: {
+          face: { type: "string", description: "Font family name" },
+          size: { type: "number", minimum: 1, description: "Font size in pixels" },
+          style: { enum: ["normal", "italic"] },
+          weight: { enum: ["normal", "bold"] },
+          pages: { type: "integer", minimum: 1 },
+          lineHeight: { type: "number", minimum: 0 },
+          baseline: { type: "number" },
+          padding: { type: "integer", minimum: 0 },
+          spacing: { type: "integer", minimum: 0 },
+          antialias: { type: "boolean" },
+          distanceField: {
+            type: "object",
+            description: "Present when the pages hold signed distance fields instead of bitmap glyphs",
+            required: ["type", "distanceRange"],
+            properties: {
+              type: { enum: ["sdf", "msdf"] },
+              distanceRange: {
+                type: "number",
+                minimum: 1,
+                description: "Width of the distance span in atlas pixels"
+              }
+            }
+          },
+          effects: {
+            type: "object",
+            description: "Effects baked into the glyphs when the font was generated",
+            required: ["colorAtlas"],
+            properties: {
+              outline: {
+                type: "object",
+                required: ["width", "color"],
+                properties: {
+                  width: { type: "number", minimum: 0 },
+                  color: { type: "string", format: "color" }
+                }
+              },
+              shadow: {
+                type: "object",
+                required: ["offsetX", "offsetY", "color"],
+                properties: {
+                  offsetX: { type: "number" },
+                  offsetY: { type: "number" },
+                  color: { type: "string", format: "color" }
+                }
+              },
+              gradient: {
+                type: "object",
+                required: ["top", "bottom"],
+                properties: {
+                  top: { type: "string", format: "color" },
+                  bottom: { type: "string", format: "color" }
+                }
+              },
+              innerGlow: {
+                type: "object",
+                required: ["size", "color"],
+                properties: {
+                  size: { type: "number", minimum: 0 },
+                  color: { type: "string", format: "color" }
+                }
+              },
+              colorAtlas: {
+                type: "boolean",
+                description: "Whether the glyphs keep the effect colors, or are gray so they can be tinted"
+              }
+            }
+          }
+        }
+      },
+      pages: {
+        type: "array",
+        minItems: 1,
+        description: "Page images relative to the asset: one per page, or one image with all pages stacked vertically",
+        items: { type: "string", minLength: 1, format: "file-path" }
+      },
+      pageSize: {
+        type: "object",
+        required: ["width", "height"],
+        properties: {
+          width: { type: "integer", minimum: 1 },
+          height: { type: "integer", minimum: 1 }
+        }
+      },
+      glyphs: {
+        type: "object",
+        description: "Glyph metrics keyed by character",
+        additionalProperties: {
+          type: "object",
+          required: ["codepoint", "x", "y", "width", "height", "xAdvance"],
+          properties: {
+            codepoint: { type: "integer", minimum: 0 },
+            x: { type: "number", minimum: 0 },
+            y: { type: "number", minimum: 0 },
+            width: { type: "number", minimum: 0 },
+            height: { type: "number", minimum: 0 },
+            xAdvance: { type: "number" },
+            xOffset: { type: "number" },
+            yOffset: { type: "number" },
+            baseline: { type: "number" },
+            page: { type: "integer", minimum: 0 },
+            kerning: { type: "object", additionalProperties: { type: "number" } }
+          }
+        }
+      }
+    }
+  },
+  references: (data) =>
+    Array.isArray(data.pages)
+      ? data.pages.flatMap((path, i) =>
+          typeof path === "string" && path ? [{ kind: "file" as const, path, property: ["pages", i] }] : []
+        )
+      : [],
   createDefault: () => ({
     type: "spritefont",
     info: {
@@ -39,8 +182,8 @@ export const spriteFontPreviewPlugin: AssetEditorPlugin<SpriteFontAsset> = {
       padding: 1,
       antialias: true
     },
-    image: "font.png",
-    glyphs: {},
-    pages: { width: 256, height: 256 }
+    pages: ["font.png"],
+    pageSize: { width: 256, height: 256 },
+    glyphs: {}
   })
 };
@@ -0,0 +1,93 @@
+import { AssetData, AssetEditorPlugin } from "../../plugin-system/types";
+
+interface TileFrame {
+  w: number;
+  t: number[];
+  d?: number;
+}
+
+export interface TileObjectsAsset extends AssetData {
+  type: "tileobjects";
+  tileset: {
+    path: string;
+    w: number;
+    h: number;
+    tilesPerRow: number;
+  };
+  objects: Array<{
+    name: string;
+    sequences: Record<string, TileFrame[]>;
+  }>;
+}
+
+export const tileObjectsEditorPlugin: AssetEditorPlugin<TileObjectsAsset> = {
+  metadata: {
+    mode: "editor",
+    type: "tileobjects",
+    title: "Tile Objects",
+    description: "Compose metasprites from tileset tiles"
+  },
+  schema: {
+    type: "object",
+    required: ["type", "tileset", "objects"],
+    properties: {
+      type: { const: "tileobjects" },
+      tileset: {
+        type: "object",
+        required: ["path", "w", "h", "tilesPerRow"],
+        properties: {
+          path: { type: "string", format: "file-path", description: "Tileset image, relative to the asset" },
+          w: { type: "integer", minimum: 1, title: "Tile Width" },
+          h: { type: "integer", minimum: 1, title: "Tile Height" },
+          tilesPerRow: { type: "integer", minimum: 1 }
+        }
+      },
+      objects: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["name", "sequences"],
+          properties: {
+            name: { type: "string" },
+            sequences: {
+              type: "object",
+              additionalProperties: {
+                type: "array",
+                items: {
+                  type: "object",
+                  required: ["w", "t"],
+                  properties: {
+                    w: { type: "integer", minimum: 1, description: "Frame width in tiles" },
+                    t: { type: "array", items: { type: "integer" }, description: "Tile indices, row by row" },
+                    d: { type: "number", minimum: 1, description: "Frame duration in milliseconds" }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  references: (data) =>
+    typeof data.tileset?.path === "string" && data.tileset.path
+      ? [{ kind: "file", path: data.tileset.path, property: ["tileset", "path"] }]
+      : [],
+  createDefault: () => ({
+    type: "tileobjects",
+    tileset: {
+      path: "",
+      w: 16,
+      h: 16,
+      tilesPerRow: 16
+    },
+    objects: [
+      {
+        name: "object",
+        sequences: {
+          default: [{ w: 2, t: [0, 0, 0, 0] }]
+        }
+      }
+    ]
+  })
+};
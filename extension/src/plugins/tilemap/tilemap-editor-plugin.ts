@@ -0,0 +1,95 @@
+import { AssetData, AssetEditorPlugin, AssetReference } from "../../plugin-system/types";
+
+interface TilemapLayer {
+  name: string;
+  tileset: {
+    path?: string;
+    gid?: string;
+  };
+  visible: boolean;
+  data: number[][];
+}
+
+export interface TilemapAsset extends AssetData {
+  type: "tilemap";
+  w: number;
+  h: number;
+  tw: number;
+  th: number;
+  layers: TilemapLayer[];
+}
+
+const DEFAULT_WIDTH = 32;
+const DEFAULT_HEIGHT = 18;
+
+export const tilemapEditorPlugin: AssetEditorPlugin<TilemapAsset> = {
+  metadata: {
+    mode: "editor",
+    type: "tilemap",
+    title: "Tilemap",
+    description: "Paint layered tile maps from tileset assets"
+  },
+  schema: {
+    type: "object",
+    required: ["type", "w", "h", "tw", "th", "layers"],
+    properties: {
+      type: { const: "tilemap" },
+      w: { type: "integer", minimum: 1, title: "Width", description: "Map width in tiles" },
+      h: { type: "integer", minimum: 1, title: "Height", description: "Map height in tiles" },
+      tw: { type: "integer", minimum: 1, title: "Tile Width" },
+      th: { type: "integer", minimum: 1, title: "Tile Height" },
+      layers: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["name", "tileset", "visible", "data"],
+          properties: {
+            name: { type: "string" },
+            tileset: {
+              type: "object",
+              properties: {
+                path: { type: "string", format: "file-path", description: "Tileset asset, relative to the tilemap" },
+                gid: { type: "string", description: "Gid of the tileset asset" }
+              }
+            },
+            visible: { type: "boolean" },
+            data: {
+              type: "array",
+              description: "Tile values by row; 0 is empty, the upper bits hold flip flags",
+              items: { type: "array", items: { type: "integer", minimum: 0 } }
+            }
+          }
+        }
+      }
+    }
+  },
+  references: (data) => {
+    const references: AssetReference[] = [];
+    (Array.isArray(data.layers) ? data.layers : []).forEach((layer, i) => {
+      const { path, gid } = layer?.tileset ?? {};
+      if (typeof path === "string" && path) {
+        references.push({ kind: "file", path, property: ["layers", i, "tileset", "path"] });
+      }
+      if (typeof gid === "string" && gid) {
+        references.push({ kind: "gid", gid, property: ["layers", i, "tileset", "gid"] });
+      }
+    });
+    return references;
+  },
+  createDefault: () => ({
+    type: "tilemap",
+    w: DEFAULT_WIDTH,
+    h: DEFAULT_HEIGHT,
+    tw: 16,
+    th: 16,
+    layers: [
+      {
+        name: "ground",
+        tileset: { path: "" },
+        visible: true,
+        data: Array.from({ length: DEFAULT_HEIGHT }, () => new Array<number>(DEFAULT_WIDTH).fill(0))
+      }
+    ]
+  })
+};
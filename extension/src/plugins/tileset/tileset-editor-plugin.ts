@@ -0,0 +1,107 @@
+import { AssetData, AssetEditorPlugin } from "../../plugin-system/types";
+
+interface TerrainRuleSet {
+  name: string;
+  scheme: "blob47" | "wang16" | "corner4";
+  tiles: Record<string, number>;
+}
+
+interface TileData {
+  properties?: Record<string, { type: "bool" | "int" | "float" | "string"; value: boolean | number | string }>;
+  collision?:
+    | { kind: "box" }
+    | { kind: "rect"; x: number; y: number; w: number; h: number }
+    | { kind: "polygon"; points: Array<{ x: number; y: number }> }
+    | { kind: "mask"; rows: string[] };
+  animation?: Array<{ tile: number; duration: number }>;
+}
+
+export interface TilesetAsset extends AssetData {
+  type: "tileset";
+  gid: string;
+  file: string;
+  tw: number;
+  th: number;
+  w: number;
+  terrains?: TerrainRuleSet[];
+  tiles?: Record<string, TileData>;
+}
+
+export const tilesetEditorPlugin: AssetEditorPlugin<TilesetAsset> = {
+  metadata: {
+    mode: "editor",
+    type: "tileset",
+    title: "Tileset",
+    description: "Slice an image into a grid of fixed-size tiles"
+  },
+  schema: {
+    type: "object",
+    required: ["type", "gid", "file", "tw", "th", "w"],
+    properties: {
+      type: { const: "tileset" },
+      gid: { type: "string", description: "Globally unique identifier other assets reference this tileset by" },
+      file: { type: "string", format: "file-path", description: "Source image, relative to the asset" },
+      tw: { type: "integer", minimum: 1, title: "Tile Width" },
+      th: { type: "integer", minimum: 1, title: "Tile Height" },
+      w: { type: "integer", minimum: 1, title: "Tiles per Row" },
+      terrains: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["name", "scheme", "tiles"],
+          properties: {
+            name: { type: "string" },
+            scheme: { enum: ["blob47", "wang16", "corner4"] },
+            tiles: { type: "object", additionalProperties: { type: "integer", minimum: 0 } }
+          }
+        }
+      },
+      tiles: {
+        type: "object",
+        description: "Per-tile metadata keyed by tile index",
+        additionalProperties: {
+          type: "object",
+          properties: {
+            properties: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                required: ["type", "value"],
+                properties: {
+                  type: { enum: ["bool", "int", "float", "string"] },
+                  value: { type: ["boolean", "number", "string"] }
+                }
+              }
+            },
+            collision: {
+              type: "object",
+              required: ["kind"],
+              properties: { kind: { enum: ["box", "rect", "polygon", "mask"] } }
+            },
+            animation: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["tile", "duration"],
+                properties: {
+                  tile: { type: "integer", minimum: 0 },
+                  duration: { type: "number", minimum: 1 }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  references: (data) =>
+    typeof data.file === "string" && data.file ? [{ kind: "file", path: data.file, property: ["file"] }] : [],
+  createDefault: () => ({
+    type: "tileset",
+    gid: "",
+    file: "",
+    tw: 16,
+    th: 16,
+    w: 16
+  })
+};
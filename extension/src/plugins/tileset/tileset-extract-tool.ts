@@ -0,0 +1,11 @@
+import { StandaloneToolPlugin } from "../../plugin-system/types";
+
+export const tilesetExtractTool: StandaloneToolPlugin = {
+  metadata: {
+    mode: "tool",
+    type: "tileset-extract",
+    commandId: "tile-engine.tools.extractTileset",
+    title: "Extract Tileset from Image",
+    description: "Slice an image into deduplicated tiles and rebuild it as a tilemap."
+  }
+};
@@ -0,0 +1,159 @@
+/**
+ * The subset of JSON Schema (draft-07) used to describe asset types.
+ * Shared with the webview; keep this module free of host-only imports.
+ */
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  /** Editor hint, e.g. "file-path" or "color"; not validated */
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  // Strings
+  minLength?: number;
+  pattern?: string;
+  // Composition
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+}
+
+export interface SchemaProblem {
+  /** Location of the offending value as property names and array indices */
+  path: Array<string | number>;
+  message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function describe(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Validate a value against a schema and return every problem found.
+ * An empty list means the value is valid.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: Array<string | number> = []
+): SchemaProblem[] {
+  const problems: SchemaProblem[] = [];
+  const report = (message: string) => problems.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      report(`Expected ${types.join(" or ")} but found ${typeOf(value)}`);
+      // Further checks would only repeat the type mismatch
+      return problems;
+    }
+  }
+
+  if (schema.const !== undefined && describe(value) !== describe(schema.const)) {
+    report(`Expected ${describe(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option) => describe(option) === describe(value))) {
+    report(`Expected one of ${schema.enum.map(describe).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(`Must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report(`Must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report(schema.minLength === 1 ? "Must not be empty" : `Must be at least ${schema.minLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      report(`Must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`Must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      report(`Must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) => problems.push(...validateJsonSchema(item, items, [...path, i])));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        report(`Missing required property '${key}'`);
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        problems.push(...validateJsonSchema(child, propertySchema, [...path, key]));
+      } else if (schema.additionalProperties === false) {
+        problems.push({ path: [...path, key], message: `Unknown property '${key}'` });
+      } else if (typeof schema.additionalProperties === "object") {
+        problems.push(...validateJsonSchema(child, schema.additionalProperties, [...path, key]));
+      }
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    problems.push(...validateJsonSchema(value, sub, path));
+  }
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateJsonSchema(value, sub, path).length === 0)) {
+    report("Does not match any of the allowed shapes");
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((sub) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) {
+      report(matches === 0 ? "Does not match any of the allowed shapes" : "Matches more than one allowed shape");
+    }
+  }
+  if (schema.if) {
+    const branch = validateJsonSchema(value, schema.if, path).length === 0 ? schema.then : schema.else;
+    if (branch) {
+      problems.push(...validateJsonSchema(value, branch, path));
+    }
+  }
+
+  return problems;
+}
@@ -1,5 +1,9 @@
+import type { JsonSchema } from "./json-schema";
+
 export interface AssetJson {
   type: string;
+  /** Format version of the asset type; missing means version 1 */
+  version?: number;
   // Additional properties are plugin-defined
   [key: string]: unknown;
 }
@@ -16,12 +20,23 @@ export interface DirectoryEntry {
   isDirectory: boolean;
 }
 
+/** Error of a failed `filePicked` response when the user closed the picker without a selection */
+export const FILE_SELECTION_CANCELLED = "File selection cancelled";
+
 export type HostToWebviewMessage =
   | {
       kind: "init";
       documentUri: string;
       content: AssetJson;
       plugin: PluginMetadata;
+      /** Set when no plugin handles the asset's type: the types that do, to fix a mistyped `type` */
+      registeredTypes?: PluginMetadata[];
+      /** Declared schema of the asset type; drives the generic form editor */
+      schema?: JsonSchema;
+      /** Content was restored from a hot-exit backup and differs from the file on disk */
+      recovered?: boolean;
+      /** Content was upgraded from an older format version on open and not saved yet */
+      migration?: { from: number; to: number };
     }
   | {
       kind: "initTool";
@@ -105,6 +120,20 @@ export type HostToWebviewMessage =
       requestId: string;
       success: false;
       error: string;
+    }
+  | {
+      kind: "gidResolved";
+      requestId: string;
+      success: true;
+      /** Path of the owning asset, relative like any other path in this context */
+      path: string;
+      content: AssetJson;
+    }
+  | {
+      kind: "gidResolved";
+      requestId: string;
+      success: false;
+      error: string;
     };
 
 export type WebviewToHostMessage =
@@ -114,6 +143,8 @@ export type WebviewToHostMessage =
       content: AssetJson;
     }
   | { kind: "requestSave" }
+  | { kind: "compareWithDisk" }
+  | { kind: "openAsText" }
   | {
       kind: "readFile";
       requestId: string;
@@ -158,6 +189,11 @@ export type WebviewToHostMessage =
       kind: "getDirectory";
       requestId: string;
       dirPath: string;
+    }
+  | {
+      kind: "resolveGid";
+      requestId: string;
+      gid: string;
     };
 
 export function isAssetJson(value: unknown): value is AssetJson {
@@ -0,0 +1,52 @@
+// Installs the vscode stub, so it must come before the modules under test
+import { vscode, writeFile } from "./vscode-stub";
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import type * as vscodeTypes from "vscode";
+import { AssetDocument, AssetDocumentEdit } from "../asset-editor/asset-document";
+import { initializeRegistry } from "../plugin-system/registry";
+
+initializeRegistry([], [], []);
+
+test("edits made before an external change was reloaded don't apply to the new content", async () => {
+  const uri = vscode.Uri.file("/workspace/reloaded.asset") as unknown as vscodeTypes.Uri;
+  writeFile(uri, JSON.stringify({ type: "example", value: 1 }));
+
+  const document = await AssetDocument.create(uri);
+  const edits: AssetDocumentEdit[] = [];
+  document.onDidEdit((edit) => edits.push(edit));
+
+  document.edit({ type: "example", value: 2 });
+  await document.save();
+  assert.equal(edits.length, 1);
+
+  // Another tool rewrites the file; the clean document reloads it
+  writeFile(uri, JSON.stringify({ type: "example", value: 3 }));
+  await document.revert();
+  assert.deepEqual({ ...document.data }, { type: "example", value: 3 });
+
+  await edits[0].undo();
+  assert.deepEqual({ ...document.data }, { type: "example", value: 3 });
+  assert.equal(document.isDirty, false);
+
+  document.dispose();
+});
+
+test("reverting to unchanged file content keeps earlier edits undoable", async () => {
+  const uri = vscode.Uri.file("/workspace/reverted.asset") as unknown as vscodeTypes.Uri;
+  writeFile(uri, JSON.stringify({ type: "example", value: 1 }));
+
+  const document = await AssetDocument.create(uri);
+  const edits: AssetDocumentEdit[] = [];
+  document.onDidEdit((edit) => edits.push(edit));
+
+  document.edit({ type: "example", value: 2 });
+  await document.save();
+  await document.revert();
+
+  await edits[0].undo();
+  assert.deepEqual({ ...document.data }, { type: "example", value: 1 });
+  assert.equal(document.isDirty, true);
+
+  document.dispose();
+});
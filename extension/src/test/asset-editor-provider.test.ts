@@ -0,0 +1,82 @@
+// Installs the vscode stub, so it must come before the modules under test
+import { createWebviewPanel, vscode, writeFile } from "./vscode-stub";
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import type * as vscodeTypes from "vscode";
+import { AssetEditorProvider } from "../asset-editor/asset-editor-provider";
+import { AssetDocument } from "../asset-editor/asset-document";
+import { initializeRegistry } from "../plugin-system/registry";
+import { spriteFontPreviewPlugin } from "../plugins/sprite-font/sprite-font-preview-plugin";
+
+initializeRegistry([spriteFontPreviewPlugin], [], []);
+
+const context = { extensionUri: vscode.Uri.file("/extension") } as unknown as vscodeTypes.ExtensionContext;
+const openContext = { backupId: undefined, untitledDocumentData: undefined };
+
+// A version 1 sprite font: one stacked `image` and the page size in `pages`
+const v1SpriteFont = {
+  type: "spritefont",
+  info: { face: "Test", size: 16, lineHeight: 20, baseline: 16, pages: 1 },
+  image: "font.png",
+  pages: { width: 256, height: 256 },
+  glyphs: {}
+};
+
+test("opening a v1 asset reports the upgrade as an undoable edit once an editor is resolved", async () => {
+  const uri = vscode.Uri.file("/workspace/font.asset");
+  writeFile(uri, JSON.stringify(v1SpriteFont, null, 2));
+
+  const provider = new AssetEditorProvider(context);
+  const edits: Array<vscodeTypes.CustomDocumentEditEvent<AssetDocument>> = [];
+  provider.onDidChangeCustomDocument((edit) => edits.push(edit));
+
+  const document = await provider.openCustomDocument(uri as unknown as vscodeTypes.Uri, openContext);
+  // VS Code doesn't know the document until openCustomDocument returns, so no edit yet
+  assert.equal(edits.length, 0);
+  assert.equal(document.data.version, 2);
+  assert.deepEqual(document.data.pages, ["font.png"]);
+  assert.deepEqual(document.migration, { from: 1, to: 2 });
+  assert.equal(document.isDirty, true);
+
+  const first = createWebviewPanel();
+  await provider.resolveCustomEditor(document, first.panel as vscodeTypes.WebviewPanel);
+  assert.equal(edits.length, 1);
+  assert.equal(edits[0].document, document);
+  assert.equal(edits[0].label, "Upgrade to version 2");
+
+  // Further panels for the same document don't repeat the edit
+  const second = createWebviewPanel();
+  await provider.resolveCustomEditor(document, second.panel as vscodeTypes.WebviewPanel);
+  assert.equal(edits.length, 1);
+
+  await edits[0].undo();
+  assert.deepEqual({ ...document.data }, v1SpriteFont);
+  assert.equal(document.isDirty, false);
+
+  await edits[0].redo();
+  assert.equal(document.data.version, 2);
+  assert.equal(document.isDirty, true);
+
+  first.dispose();
+  second.dispose();
+  document.dispose();
+});
+
+test("opening a current asset reports no edit", async () => {
+  const uri = vscode.Uri.file("/workspace/current.asset");
+  writeFile(uri, JSON.stringify({ ...v1SpriteFont, version: 2, pages: ["font.png"], pageSize: v1SpriteFont.pages }));
+
+  const provider = new AssetEditorProvider(context);
+  const edits: unknown[] = [];
+  provider.onDidChangeCustomDocument((edit) => edits.push(edit));
+
+  const document = await provider.openCustomDocument(uri as unknown as vscodeTypes.Uri, openContext);
+  const panel = createWebviewPanel();
+  await provider.resolveCustomEditor(document, panel.panel as vscodeTypes.WebviewPanel);
+  assert.equal(edits.length, 0);
+  assert.equal(document.migration, undefined);
+  assert.equal(document.isDirty, false);
+
+  panel.dispose();
+  document.dispose();
+});
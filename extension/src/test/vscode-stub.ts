@@ -0,0 +1,155 @@
+import Module = require("module");
+import * as path from "path";
+
+/**
+ * Stand-in for the parts of the `vscode` API the asset editor uses, so host code
+ * can be tested in plain Node. Files live in memory; see writeFile.
+ * Importing this module installs it; import it before any module that uses vscode.
+ */
+
+type Listener<T> = (event: T) => unknown;
+
+class Disposable {
+  public static from(...disposables: Array<{ dispose(): unknown }>): Disposable {
+    return new Disposable(() => disposables.forEach((disposable) => disposable.dispose()));
+  }
+
+  constructor(private readonly callOnDispose: () => unknown) {}
+
+  public dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+class EventEmitter<T> {
+  private listeners: Array<Listener<T>> = [];
+
+  public readonly event = (listener: Listener<T>): Disposable => {
+    this.listeners.push(listener);
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter((entry) => entry !== listener);
+    });
+  };
+
+  public fire(event: T): void {
+    [...this.listeners].forEach((listener) => listener(event));
+  }
+
+  public dispose(): void {
+    this.listeners = [];
+  }
+}
+
+class Uri {
+  public static file(fsPath: string): Uri {
+    return new Uri("file", fsPath);
+  }
+
+  public static parse(value: string): Uri {
+    const match = /^([a-z][\w+.-]*):(?:\/\/)?(.*)$/i.exec(value);
+    return match ? new Uri(match[1], match[2]) : new Uri("file", value);
+  }
+
+  public static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(base.scheme, path.posix.join(base.path, ...segments));
+  }
+
+  private constructor(public readonly scheme: string, public readonly path: string) {}
+
+  public get fsPath(): string {
+    return this.path;
+  }
+
+  public toString(): string {
+    return `${this.scheme}://${this.path}`;
+  }
+}
+
+class RelativePattern {
+  constructor(public readonly base: Uri, public readonly pattern: string) {}
+}
+
+const files = new Map<string, Uint8Array>();
+
+/**
+ * Messages shown through window.show*Message, oldest first.
+ */
+export const shownMessages: string[] = [];
+
+export function writeFile(uri: Uri, text: string): void {
+  files.set(uri.toString(), Buffer.from(text));
+}
+
+export function readFile(uri: Uri): string {
+  const bytes = files.get(uri.toString());
+  if (!bytes) throw new Error(`File not found: ${uri.toString()}`);
+  return Buffer.from(bytes).toString("utf8");
+}
+
+const noEvent = () => new Disposable(() => undefined);
+const showMessage = async (message: string) => {
+  shownMessages.push(message);
+  return undefined;
+};
+
+export const vscode = {
+  Disposable,
+  EventEmitter,
+  Uri,
+  RelativePattern,
+  ViewColumn: { Active: -1, Beside: -2 },
+  workspace: {
+    workspaceFolders: undefined,
+    fs: {
+      readFile: async (uri: Uri) => Buffer.from(readFile(uri)),
+      writeFile: async (uri: Uri, content: Uint8Array) => void files.set(uri.toString(), content),
+      delete: async (uri: Uri) => void files.delete(uri.toString())
+    },
+    asRelativePath: (uri: Uri) => uri.path,
+    createFileSystemWatcher: () => ({
+      onDidChange: noEvent,
+      onDidCreate: noEvent,
+      onDidDelete: noEvent,
+      dispose: () => undefined
+    })
+  },
+  window: {
+    showErrorMessage: showMessage,
+    showWarningMessage: showMessage,
+    showInformationMessage: showMessage
+  },
+  commands: {
+    executeCommand: async () => undefined
+  }
+};
+
+/**
+ * A webview panel that records the messages posted to it.
+ */
+export function createWebviewPanel(): { panel: unknown; posted: unknown[]; dispose(): void } {
+  const posted: unknown[] = [];
+  const onDidDispose = new EventEmitter<void>();
+  const webview = {
+    options: {},
+    html: "",
+    cspSource: "vscode-resource:",
+    asWebviewUri: (uri: Uri) => uri,
+    postMessage: async (message: unknown) => {
+      posted.push(message);
+      return true;
+    },
+    onDidReceiveMessage: noEvent
+  };
+  return {
+    panel: { webview, onDidDispose: onDidDispose.event },
+    posted,
+    dispose: () => onDidDispose.fire()
+  };
+}
+
+// Resolve `require("vscode")` to the stub
+const moduleLoader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+  return request === "vscode" ? vscode : load.call(this, request, ...rest);
+};
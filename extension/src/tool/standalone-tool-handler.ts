@@ -66,7 +66,8 @@ export class StandaloneToolHandler extends CommonHandler {
         kind: "saveDialogResult" as const,
         requestId,
         success: true as const,
-        path: uri ? uri.fsPath : null
+        // Relative like pickFile's paths, so tools can compare and combine the two
+        path: uri ? this.pathContext.toRelativePaths([uri])[0] : null
       };
       this.postMessage(response);
     } catch (error) {
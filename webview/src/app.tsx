@@ -1,26 +1,39 @@
-import { createMemo, createSignal, onCleanup, onMount, Show } from "solid-js";
+import { createMemo, createSignal, ErrorBoundary, For, onCleanup, onMount, Show } from "solid-js";
 import type { JSX } from "solid-js";
 import type {
   AssetJson,
   PluginMetadata
 } from "@protocol/messages";
+import type { JsonSchema } from "@protocol/json-schema";
 import { MessageService } from "./services/message-service";
 import { resolvePlugin, type WebviewAssetPlugin } from "./plugins/registry";
 import { examplePlugin } from "./plugins/example/example-asset-plugin";
 import { assetGeneratorPlugin } from "./plugins/example/asset-generator-tool";
 import { spriteFontPlugin } from "./plugins/sprite-font/sprite-font-tool";
+import { bmfontImportPlugin } from "./plugins/sprite-font/bmfont-import-tool";
 import { spriteFontPreviewPlugin } from "./plugins/sprite-font/sprite-font-preview";
+import { tilesetEditorPlugin } from "./plugins/tileset/tileset-editor";
+import { tileObjectsEditorPlugin } from "./plugins/tile-objects/tile-objects-editor";
+import { tilemapEditorPlugin } from "./plugins/tilemap/tilemap-editor";
+import { tilesetExtractPlugin } from "./plugins/tileset/tileset-extract-tool";
+import { schemaFormPlugin } from "./plugins/schema-form/schema-form-editor";
+import { jsonTreePlugin } from "./plugins/json-tree/json-tree-editor";
 
 // Ensure plugins are registered at module load time.
 const registeredEditorPlugins: WebviewAssetPlugin<AssetJson>[] = [
   examplePlugin as WebviewAssetPlugin<AssetJson>,
-  spriteFontPreviewPlugin as unknown as WebviewAssetPlugin<AssetJson>
+  spriteFontPreviewPlugin as unknown as WebviewAssetPlugin<AssetJson>,
+  tilesetEditorPlugin as unknown as WebviewAssetPlugin<AssetJson>,
+  tileObjectsEditorPlugin as unknown as WebviewAssetPlugin<AssetJson>,
+  tilemapEditorPlugin as unknown as WebviewAssetPlugin<AssetJson>
 ];
 registeredEditorPlugins.forEach((plugin) => resolvePlugin.register(plugin));
 
 const registeredToolPlugins: WebviewAssetPlugin<AssetJson>[] = [
   assetGeneratorPlugin as WebviewAssetPlugin<AssetJson>,
-  spriteFontPlugin as WebviewAssetPlugin<AssetJson>
+  spriteFontPlugin as WebviewAssetPlugin<AssetJson>,
+  bmfontImportPlugin as WebviewAssetPlugin<AssetJson>,
+  tilesetExtractPlugin as WebviewAssetPlugin<AssetJson>
 ];
 registeredToolPlugins.forEach((plugin) => resolvePlugin.registerTool(plugin));
 
@@ -30,20 +43,39 @@ const cspNonce = (window as typeof window & { __webviewNonce__?: string })
 export default function App(): JSX.Element {
   const [content, setContent] = createSignal<AssetJson | null>(null);
   const [pluginMeta, setPluginMeta] = createSignal<PluginMetadata | null>(null);
+  const [schema, setSchema] = createSignal<JsonSchema | undefined>();
+  // Set when the host has no plugin for the asset's type
+  const [registeredTypes, setRegisteredTypes] = createSignal<PluginMetadata[] | undefined>();
   const [status, setStatus] = createSignal<string>("Waiting for host…");
   const [mode, setMode] = createSignal<"editor" | "tool">("editor");
+  const [recovered, setRecovered] = createSignal(false);
+  const [migration, setMigration] = createSignal<{ from: number; to: number } | undefined>();
 
   const plugin = createMemo(() => {
     const meta = pluginMeta();
     if (!meta) return undefined;
-    return resolvePlugin.get(meta.type);
+    if (mode() === "editor" && registeredTypes()) return jsonTreePlugin;
+    // Asset types without a custom webview get a form built from their schema
+    return resolvePlugin.get(meta.type) ?? (mode() === "editor" && schema() ? schemaFormPlugin : undefined);
   });
 
+  const persistState = (next: AssetJson | null) => {
+    MessageService.instance.setState({
+      content: next,
+      plugin: pluginMeta(),
+      registeredTypes: registeredTypes(),
+      schema: schema(),
+      mode: mode()
+    });
+  };
+
   onMount(() => {
     const cached = MessageService.instance.getState();
     if (cached?.content) {
       setContent(cached.content);
       setPluginMeta(cached.plugin ?? null);
+      setSchema(cached.schema);
+      setRegisteredTypes(cached.registeredTypes);
       setMode(cached.mode ?? "editor");
     }
 
@@ -51,9 +83,13 @@ export default function App(): JSX.Element {
     const unsubscribeInit = MessageService.instance.onInit.on((data) => {
       setContent(data.content);
       setPluginMeta(data.plugin);
+      setSchema(data.schema);
+      setRegisteredTypes(data.registeredTypes);
       setStatus("Editing asset");
       setMode("editor");
-      MessageService.instance.setState({ content: data.content, plugin: data.plugin, mode: "editor" });
+      setRecovered(data.recovered);
+      setMigration(data.migration);
+      persistState(data.content);
     });
 
     // Subscribe to initTool event
@@ -68,7 +104,7 @@ export default function App(): JSX.Element {
     const unsubscribeApplyContent = MessageService.instance.onApplyContent.on((data) => {
       setContent(data.content);
       setStatus("Content synchronized");
-      MessageService.instance.setState({ content: data.content, plugin: pluginMeta(), mode: mode() });
+      persistState(data.content);
     });
 
     // Subscribe to error event
@@ -89,7 +125,7 @@ export default function App(): JSX.Element {
 
   const handleChange = (next: AssetJson) => {
     setContent(next);
-    MessageService.instance.setState({ content: next, plugin: pluginMeta(), mode: mode() });
+    persistState(next);
     MessageService.instance.notifyContentChanged(next);
   };
 
@@ -110,18 +146,98 @@ export default function App(): JSX.Element {
             </button>
           </Show>
         </header>
+        <Show when={registeredTypes()}>
+          {(types) => (
+            <div class="banner">
+              <span>
+                No plugin is registered for asset type <code>{content()?.type}</code>. Edit the JSON below, or change
+                the type to one of:{" "}
+                <For each={types()}>
+                  {(entry) => (
+                    <button
+                      class="link type-option"
+                      title={entry.title}
+                      onClick={() => {
+                        const current = content();
+                        if (current) handleChange({ ...current, type: entry.type });
+                      }}
+                    >
+                      {entry.type}
+                    </button>
+                  )}
+                </For>
+              </span>
+              <button class="link" onClick={() => MessageService.instance.notifyOpenAsText()}>
+                Open as Text
+              </button>
+            </div>
+          )}
+        </Show>
+        <Show when={recovered()}>
+          <div class="banner">
+            <span>Recovered unsaved changes from a previous session. Save to keep them or revert the file to discard them.</span>
+            <button class="link" onClick={() => MessageService.instance.notifyCompareWithDisk()}>
+              Compare with Disk
+            </button>
+            <button class="link" onClick={() => setRecovered(false)}>
+              Dismiss
+            </button>
+          </div>
+        </Show>
+        <Show when={migration()}>
+          {(upgrade) => (
+            <div class="banner">
+              <span>
+                This asset was upgraded from format version {upgrade().from} to {upgrade().to}. Save to keep the upgraded
+                form.
+              </span>
+              {/* Also for read-only plugins: saving the upgrade isn't an edit of the content */}
+              <button
+                class="link"
+                onClick={() => {
+                  MessageService.instance.notifyRequestSave();
+                  setMigration(undefined);
+                }}
+              >
+                Save
+              </button>
+              <button class="link" onClick={() => setMigration(undefined)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+        </Show>
       </Show>
       <main class="content">
-        <Show when={(mode() === "editor" && content() && plugin()) || (mode() === "tool" && plugin())} fallback={<p>{status()}</p>}>
+        {/* Keyed so the component is replaced when the plugin changes, e.g. after fixing the type */}
+        <Show
+          when={(mode() === "editor" && content() && plugin()) || (mode() === "tool" && plugin())}
+          keyed
+          fallback={<p>{status()}</p>}
+        >
           {(resolvedPlugin) => {
-            const PluginComponent = resolvedPlugin().Component;
-            const value = mode() === "editor" ? content()! : { type: pluginMeta()?.type ?? "" };
+            const PluginComponent = resolvedPlugin.Component;
+            // Read through a getter so plugins see content updates (their own edits, undo, reloads)
+            const value = () => (mode() === "editor" ? content()! : { type: pluginMeta()?.type ?? "" });
+            // Malformed content can throw while rendering; keep the panel usable and point at the details
             return (
-              <PluginComponent
-                value={value}
-                nonce={cspNonce}
-                onChange={handleChange}
-              />
+              <ErrorBoundary
+                fallback={(error, reset) => (
+                  <div class="render-error">
+                    <strong>This asset could not be displayed.</strong>
+                    <p>{error instanceof Error ? error.message : String(error)}</p>
+                    <p>Check the Problems panel for schema errors, fix the file and retry.</p>
+                    <button class="save" onClick={reset}>Retry</button>
+                  </div>
+                )}
+              >
+                <PluginComponent
+                  value={value()}
+                  nonce={cspNonce}
+                  schema={schema()}
+                  onChange={handleChange}
+                />
+              </ErrorBoundary>
             );
           }}
         </Show>
@@ -168,4 +284,36 @@ button.save {
 button.save:hover {
   background: var(--vscode-button-hoverBackground);
 }
+.render-error {
+  padding: 1rem;
+  border: 1px solid var(--vscode-inputValidation-errorBorder);
+  background: var(--vscode-inputValidation-errorBackground);
+  border-radius: 4px;
+}
+.banner {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  padding: 0.5rem 1rem;
+  background: var(--vscode-inputValidation-warningBackground);
+  border-bottom: 1px solid var(--vscode-inputValidation-warningBorder);
+}
+.banner span {
+  flex: 1;
+}
+button.type-option {
+  margin-right: 0.5rem;
+  font-family: var(--vscode-editor-font-family, monospace);
+}
+button.link {
+  background: none;
+  border: none;
+  padding: 0;
+  color: var(--vscode-textLink-foreground);
+  cursor: pointer;
+}
+button.link:hover {
+  color: var(--vscode-textLink-activeForeground);
+  text-decoration: underline;
+}
 `; 
@@ -0,0 +1,316 @@
+import type { Component } from "solid-js";
+import { createSignal, For, Match, Show, Switch } from "solid-js";
+import type { AssetJson } from "@protocol/messages";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+type ValueKind = "string" | "number" | "boolean" | "null" | "object" | "array";
+
+type JsonObject = Record<string, unknown>;
+
+const KINDS: ValueKind[] = ["string", "number", "boolean", "null", "object", "array"];
+
+function kindOf(value: unknown): ValueKind {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value === "object" ? "object" : (typeof value as ValueKind);
+}
+
+/**
+ * Convert a value to another kind, keeping what carries over (e.g. "12" → 12).
+ */
+function convert(value: unknown, kind: ValueKind): unknown {
+  switch (kind) {
+    case "string":
+      return value === null || typeof value === "object" ? "" : String(value);
+    case "number": {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : 0;
+    }
+    case "boolean":
+      return value === true || value === "true";
+    case "null":
+      return null;
+    case "object":
+      return {};
+    case "array":
+      return [];
+  }
+}
+
+const JsonNode: Component<{
+  name: string | number;
+  value: unknown;
+  depth: number;
+  /** Keep the value's kind, e.g. for the asset's `type` */
+  fixedKind?: boolean;
+  onChange: (next: unknown) => void;
+  onRemove?: () => void;
+}> = (props) => {
+  const kind = () => kindOf(props.value);
+  const isContainer = () => kind() === "object" || kind() === "array";
+  // Deep trees start collapsed so large assets stay readable
+  const [expanded, setExpanded] = createSignal(props.depth < 2);
+  const [newKey, setNewKey] = createSignal("");
+
+  // Iterate keys rather than entries so rows (and input focus) survive edits
+  const keys = (): Array<string | number> =>
+    kind() === "array" ? (props.value as unknown[]).map((_, i) => i) : Object.keys(props.value as JsonObject);
+  const child = (key: string | number) =>
+    kind() === "array" ? (props.value as unknown[])[key as number] : (props.value as JsonObject)[key];
+
+  const setChild = (key: string | number, next: unknown) => {
+    if (kind() === "array") {
+      props.onChange((props.value as unknown[]).map((item, i) => (i === key ? next : item)));
+    } else {
+      props.onChange({ ...(props.value as JsonObject), [key]: next });
+    }
+  };
+
+  const removeChild = (key: string | number) => {
+    if (kind() === "array") {
+      props.onChange((props.value as unknown[]).filter((_, i) => i !== key));
+    } else {
+      const { [key]: _removed, ...rest } = props.value as JsonObject;
+      props.onChange(rest);
+    }
+  };
+
+  const addChild = () => {
+    if (kind() === "array") {
+      props.onChange([...(props.value as unknown[]), null]);
+      return;
+    }
+    const key = newKey().trim();
+    if (!key || key in (props.value as JsonObject)) return;
+    setChild(key, "");
+    setNewKey("");
+  };
+
+  const summary = () => {
+    const count = keys().length;
+    return kind() === "array" ? `[${count}]` : `{${count}}`;
+  };
+
+  return (
+    <div class="json-node">
+      <div class="json-row">
+        <button
+          class="json-toggle"
+          classList={{ hidden: !isContainer() }}
+          onClick={() => setExpanded(!expanded())}
+          title={expanded() ? "Collapse" : "Expand"}
+        >
+          {expanded() ? "▾" : "▸"}
+        </button>
+        <span class="json-key" classList={{ index: typeof props.name === "number" }}>
+          {props.name}
+        </span>
+        <select
+          class="json-kind"
+          value={kind()}
+          disabled={props.fixedKind}
+          onChange={(event) => props.onChange(convert(props.value, event.currentTarget.value as ValueKind))}
+        >
+          <For each={KINDS}>{(option) => <option value={option}>{option}</option>}</For>
+        </select>
+        <Switch>
+          <Match when={kind() === "string"}>
+            <input
+              class="json-value"
+              value={props.value as string}
+              onInput={(event) => props.onChange(event.currentTarget.value)}
+            />
+          </Match>
+          <Match when={kind() === "number"}>
+            <input
+              class="json-value"
+              type="number"
+              step="any"
+              value={props.value as number}
+              onInput={(event) => {
+                const next = event.currentTarget.valueAsNumber;
+                if (!Number.isNaN(next)) props.onChange(next);
+              }}
+            />
+          </Match>
+          <Match when={kind() === "boolean"}>
+            <input
+              type="checkbox"
+              checked={props.value === true}
+              onInput={(event) => props.onChange(event.currentTarget.checked)}
+            />
+          </Match>
+          <Match when={isContainer()}>
+            <span class="json-summary">{summary()}</span>
+          </Match>
+        </Switch>
+        <Show when={props.onRemove}>
+          <button class="link json-remove" title="Remove" onClick={() => props.onRemove?.()}>
+            Remove
+          </button>
+        </Show>
+      </div>
+      <Show when={isContainer() && expanded()}>
+        <div class="json-children">
+          <For each={keys()}>
+            {(key) => (
+              <JsonNode
+                name={key}
+                value={child(key)}
+                depth={props.depth + 1}
+                onChange={(next) => setChild(key, next)}
+                onRemove={() => removeChild(key)}
+              />
+            )}
+          </For>
+          <div class="json-add">
+            <Show when={kind() === "object"}>
+              <input
+                value={newKey()}
+                placeholder="New key"
+                onInput={(event) => setNewKey(event.currentTarget.value)}
+                onKeyDown={(event) => event.key === "Enter" && addChild()}
+              />
+            </Show>
+            <button
+              class="link"
+              disabled={kind() === "object" && (!newKey().trim() || newKey().trim() in (props.value as JsonObject))}
+              onClick={addChild}
+            >
+              {kind() === "array" ? "Add Item" : "Add Property"}
+            </button>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+/**
+ * Edit an asset as a JSON tree. The `type` property stays a string and can't be
+ * removed, so the document remains an asset.
+ */
+const JsonTreeEditor: Component<PluginComponentProps> = (props) => (
+  <div class="json-tree">
+    <For each={Object.keys(props.value)}>
+      {(key) => (
+        <JsonNode
+          name={key}
+          value={props.value[key]}
+          depth={0}
+          fixedKind={key === "type"}
+          onChange={(next) => props.onChange({ ...props.value, [key]: next } as AssetJson)}
+          onRemove={
+            key === "type"
+              ? undefined
+              : () => {
+                  const { [key]: _removed, ...rest } = props.value;
+                  props.onChange(rest as AssetJson);
+                }
+          }
+        />
+      )}
+    </For>
+    <RootAdd value={props.value} onChange={props.onChange} />
+    <style nonce={props.nonce}>{styles}</style>
+  </div>
+);
+
+const RootAdd: Component<{ value: AssetJson; onChange: (next: AssetJson) => void }> = (props) => {
+  const [newKey, setNewKey] = createSignal("");
+  const valid = () => newKey().trim() !== "" && !(newKey().trim() in props.value);
+  const add = () => {
+    if (!valid()) return;
+    props.onChange({ ...props.value, [newKey().trim()]: "" });
+    setNewKey("");
+  };
+  return (
+    <div class="json-add">
+      <input
+        value={newKey()}
+        placeholder="New key"
+        onInput={(event) => setNewKey(event.currentTarget.value)}
+        onKeyDown={(event) => event.key === "Enter" && add()}
+      />
+      <button class="link" disabled={!valid()} onClick={add}>
+        Add Property
+      </button>
+    </div>
+  );
+};
+
+const styles = `
+.json-tree {
+  font-family: var(--vscode-editor-font-family, monospace);
+  font-size: var(--vscode-editor-font-size, 13px);
+}
+.json-row {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.15rem 0;
+}
+.json-children {
+  margin-left: 0.6rem;
+  padding-left: 0.75rem;
+  border-left: 1px solid var(--vscode-panel-border);
+}
+.json-toggle {
+  width: 1rem;
+  background: none;
+  border: none;
+  padding: 0;
+  color: var(--vscode-foreground);
+  cursor: pointer;
+}
+.json-toggle.hidden {
+  visibility: hidden;
+}
+.json-key {
+  color: var(--vscode-symbolIcon-propertyForeground, var(--vscode-foreground));
+  min-width: 6rem;
+}
+.json-key.index {
+  color: var(--vscode-descriptionForeground);
+  min-width: 2rem;
+}
+.json-kind,
+.json-value,
+.json-add input {
+  background: var(--vscode-input-background);
+  border: 1px solid var(--vscode-input-border, transparent);
+  color: var(--vscode-input-foreground);
+  padding: 0.15rem 0.35rem;
+  border-radius: 3px;
+  font: inherit;
+}
+.json-value {
+  flex: 1;
+  max-width: 32rem;
+}
+.json-summary {
+  color: var(--vscode-descriptionForeground);
+}
+.json-add {
+  display: flex;
+  gap: 0.5rem;
+  align-items: center;
+  padding: 0.25rem 0 0.25rem 1.5rem;
+}
+.json-tree button.link:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+`;
+
+/**
+ * Fallback editor for assets whose type has no registered plugin.
+ */
+export const jsonTreePlugin: WebviewAssetPlugin = {
+  metadata: {
+    type: "json-tree",
+    title: "JSON",
+    description: "Raw JSON view for assets without a plugin"
+  },
+  Component: JsonTreeEditor
+};
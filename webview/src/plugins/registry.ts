@@ -1,10 +1,13 @@
 import type { Component } from "solid-js";
 import type { AssetJson, PluginMetadata } from "@protocol/messages";
+import type { JsonSchema } from "@protocol/json-schema";
 
 export interface PluginComponentProps<T extends AssetJson = AssetJson> {
   value: T;
   onChange: (next: T) => void;
   nonce: string;
+  /** Declared schema of the asset type, if the host plugin has one */
+  schema?: JsonSchema;
 }
 
 export interface WebviewAssetPlugin<T extends AssetJson = AssetJson> {
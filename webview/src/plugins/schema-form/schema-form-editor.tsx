@@ -0,0 +1,562 @@
+import type { Component } from "solid-js";
+import { createEffect, createSignal, For, Index, Match, on, Show, Switch } from "solid-js";
+import type { AssetJson } from "@protocol/messages";
+import type { JsonSchema, JsonSchemaType } from "@protocol/json-schema";
+import { isFileSelectionCancelled, MessageService } from "../../services/message-service";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+type FieldKind =
+  | "const"
+  | "enum"
+  | "boolean"
+  | "number"
+  | "integer"
+  | "string"
+  | "file-path"
+  | "color"
+  | "array"
+  | "object"
+  | "json";
+
+type JsonObject = Record<string, unknown>;
+
+interface FieldProps {
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (next: unknown) => void;
+}
+
+const clone = <T,>(value: T): T => (value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T));
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Merge `allOf` branches into one schema so their properties render as one form.
+ */
+function flatten(schema: JsonSchema): JsonSchema {
+  if (!schema.allOf) return schema;
+  return schema.allOf.map(flatten).reduce<JsonSchema>(
+    (merged, sub) => ({
+      ...merged,
+      ...sub,
+      properties: { ...merged.properties, ...sub.properties },
+      required: [...(merged.required ?? []), ...(sub.required ?? [])]
+    }),
+    { ...schema, allOf: undefined }
+  );
+}
+
+function primaryType(schema: JsonSchema): JsonSchemaType | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find((entry) => entry !== "null");
+  if (type) return type;
+  if (schema.properties || isObject(schema.additionalProperties)) return "object";
+  if (schema.items) return "array";
+  return undefined;
+}
+
+function fieldKind(schema: JsonSchema, value: unknown): FieldKind {
+  if (schema.const !== undefined) return "const";
+  if (schema.enum) return "enum";
+  // Alternatives can't be told apart reliably; edit them as JSON
+  if (schema.anyOf || schema.oneOf) return "json";
+
+  const type = primaryType(schema) ?? inferType(value);
+  if (type === "string" && (schema.format === "file-path" || schema.format === "color")) {
+    return schema.format;
+  }
+  return type === undefined || type === "null" ? "json" : type;
+}
+
+function inferType(value: unknown): JsonSchemaType | undefined {
+  if (Array.isArray(value)) return "array";
+  if (isObject(value)) return "object";
+  if (typeof value === "number") return "number";
+  if (typeof value === "string" || typeof value === "boolean") return typeof value as JsonSchemaType;
+  return undefined;
+}
+
+/**
+ * Value for a newly added property or array item: the schema's default, otherwise
+ * the smallest value that satisfies it.
+ */
+function defaultValue(schema: JsonSchema): unknown {
+  const flat = flatten(schema);
+  if (flat.default !== undefined) return clone(flat.default);
+  if (flat.const !== undefined) return clone(flat.const);
+  if (flat.enum && flat.enum.length > 0) return clone(flat.enum[0]);
+
+  switch (primaryType(flat)) {
+    case "object":
+      return Object.fromEntries(
+        (flat.required ?? []).map((key) => [key, defaultValue(flat.properties?.[key] ?? {})])
+      );
+    case "array":
+      return Array.from({ length: flat.minItems ?? 0 }, () => defaultValue(flat.items ?? {}));
+    case "string":
+      return flat.format === "color" ? "#ffffff" : "";
+    case "number":
+    case "integer":
+      return flat.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * `<input type="color">` only understands #rrggbb; expand short forms and drop alpha.
+ */
+function toPickerColor(value: unknown): string {
+  if (typeof value !== "string") return "#000000";
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  return /^#[0-9a-f]{6}/i.test(value) ? value.slice(0, 7) : "#000000";
+}
+
+const JsonField: Component<FieldProps> = (props) => {
+  const format = (value: unknown) => JSON.stringify(value ?? null, null, 2);
+  const [text, setText] = createSignal(format(props.value));
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Follow changes from elsewhere (undo, other panels) without reformatting while typing
+  createEffect(
+    on(
+      () => props.value,
+      (value) => {
+        setText(format(value));
+        setError(null);
+      },
+      { defer: true }
+    )
+  );
+
+  const commit = () => {
+    try {
+      props.onChange(JSON.parse(text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid JSON");
+    }
+  };
+
+  return (
+    <div class="json-field">
+      <textarea
+        rows={Math.min(12, text().split("\n").length)}
+        value={text()}
+        spellcheck={false}
+        onInput={(event) => setText(event.currentTarget.value)}
+        onBlur={commit}
+      />
+      <Show when={error()}>
+        <small class="field-error">{error()}</small>
+      </Show>
+    </div>
+  );
+};
+
+const FilePathField: Component<FieldProps> = (props) => {
+  const [error, setError] = createSignal<string | null>(null);
+
+  const browse = async () => {
+    setError(null);
+    try {
+      const paths = await MessageService.instance.pickFile({ openLabel: "Select File" });
+      if (paths.length > 0) {
+        props.onChange(paths[0]);
+      }
+    } catch (err) {
+      if (!isFileSelectionCancelled(err)) {
+        setError(err instanceof Error ? err.message : "Failed to pick file");
+      }
+    }
+  };
+
+  return (
+    <div class="input-with-button">
+      <input
+        value={typeof props.value === "string" ? props.value : ""}
+        placeholder="Path relative to the asset"
+        onInput={(event) => props.onChange(event.currentTarget.value)}
+      />
+      <button class="secondary" onClick={browse}>
+        Browse...
+      </button>
+      <Show when={error()}>
+        <small class="field-error">{error()}</small>
+      </Show>
+    </div>
+  );
+};
+
+const ColorField: Component<FieldProps> = (props) => (
+  <div class="input-with-button">
+    <input
+      type="color"
+      value={toPickerColor(props.value)}
+      onInput={(event) => {
+        // Keep an existing alpha suffix (#rrggbbaa)
+        const alpha = typeof props.value === "string" && /^#[0-9a-f]{8}$/i.test(props.value) ? props.value.slice(7) : "";
+        props.onChange(event.currentTarget.value + alpha);
+      }}
+    />
+    <input
+      value={typeof props.value === "string" ? props.value : ""}
+      onInput={(event) => props.onChange(event.currentTarget.value)}
+    />
+  </div>
+);
+
+const EnumField: Component<FieldProps> = (props) => {
+  const options = () => props.schema.enum ?? [];
+  const selected = () => options().findIndex((option) => JSON.stringify(option) === JSON.stringify(props.value));
+
+  return (
+    <select onChange={(event) => props.onChange(clone(options()[Number(event.currentTarget.value)]))}>
+      <Show when={selected() < 0}>
+        <option value="-1" selected disabled>
+          {props.value === undefined ? "" : JSON.stringify(props.value)}
+        </option>
+      </Show>
+      <For each={options()}>
+        {(option, i) => (
+          <option value={i()} selected={i() === selected()}>
+            {typeof option === "string" ? option : JSON.stringify(option)}
+          </option>
+        )}
+      </For>
+    </select>
+  );
+};
+
+const NumberField: Component<FieldProps & { integer: boolean }> = (props) => (
+  <input
+    type="number"
+    value={typeof props.value === "number" ? props.value : ""}
+    min={props.schema.minimum}
+    max={props.schema.maximum}
+    step={props.integer ? 1 : "any"}
+    onInput={(event) => {
+      const next = event.currentTarget.valueAsNumber;
+      if (Number.isNaN(next)) return;
+      props.onChange(props.integer ? Math.round(next) : next);
+    }}
+  />
+);
+
+const PropertyRow: Component<{
+  name: string;
+  schema: JsonSchema;
+  value: unknown;
+  required: boolean;
+  onChange: (next: unknown) => void;
+  onRemove: () => void;
+}> = (props) => (
+  <div class="property">
+    <div class="property-label">
+      <span title={props.name}>
+        {props.schema.title ?? props.name}
+        <Show when={props.required}>
+          <span class="required">*</span>
+        </Show>
+      </span>
+      <Show when={!props.required && props.value !== undefined}>
+        <button class="link" title="Remove property" onClick={props.onRemove}>
+          Remove
+        </button>
+      </Show>
+    </div>
+    <Show
+      when={props.value !== undefined}
+      fallback={
+        <button class="link" onClick={() => props.onChange(defaultValue(props.schema))}>
+          Add
+        </button>
+      }
+    >
+      <SchemaField schema={props.schema} value={props.value} onChange={props.onChange} />
+    </Show>
+    <Show when={props.schema.description}>
+      <small class="hint">{props.schema.description}</small>
+    </Show>
+  </div>
+);
+
+const ObjectField: Component<FieldProps> = (props) => {
+  const record = () => (isObject(props.value) ? props.value : {});
+  const declared = () => Object.keys(props.schema.properties ?? {});
+  const extra = () => Object.keys(record()).filter((key) => !(key in (props.schema.properties ?? {})));
+  const extraSchema = (): JsonSchema | undefined =>
+    isObject(props.schema.additionalProperties) ? (props.schema.additionalProperties as JsonSchema) : undefined;
+  const [newKey, setNewKey] = createSignal("");
+
+  const set = (key: string, next: unknown) => props.onChange({ ...record(), [key]: next });
+  const remove = (key: string) => {
+    const { [key]: _removed, ...rest } = record();
+    props.onChange(rest);
+  };
+  const addExtra = () => {
+    const key = newKey().trim();
+    const schema = extraSchema();
+    if (!key || !schema || key in record()) return;
+    set(key, defaultValue(schema));
+    setNewKey("");
+  };
+
+  return (
+    <div class="object-field">
+      <For each={declared()}>
+        {(key) => (
+          <PropertyRow
+            name={key}
+            schema={props.schema.properties?.[key] ?? {}}
+            value={record()[key]}
+            required={props.schema.required?.includes(key) ?? false}
+            onChange={(next) => set(key, next)}
+            onRemove={() => remove(key)}
+          />
+        )}
+      </For>
+      {/* Undeclared properties are kept; only editable when the schema describes them */}
+      <Show when={props.schema.additionalProperties !== false}>
+        <For each={extra()}>
+          {(key) => (
+            <PropertyRow
+              name={key}
+              schema={extraSchema() ?? {}}
+              value={record()[key]}
+              required={false}
+              onChange={(next) => set(key, next)}
+              onRemove={() => remove(key)}
+            />
+          )}
+        </For>
+        <Show when={extraSchema()}>
+          <div class="input-with-button">
+            <input
+              value={newKey()}
+              placeholder="New key"
+              onInput={(event) => setNewKey(event.currentTarget.value)}
+              onKeyDown={(event) => event.key === "Enter" && addExtra()}
+            />
+            <button class="secondary" disabled={!newKey().trim() || newKey().trim() in record()} onClick={addExtra}>
+              Add
+            </button>
+          </div>
+        </Show>
+      </Show>
+    </div>
+  );
+};
+
+const ArrayField: Component<FieldProps> = (props) => {
+  const items = () => (Array.isArray(props.value) ? props.value : []);
+  const itemSchema = () => props.schema.items ?? {};
+  const canAdd = () => props.schema.maxItems === undefined || items().length < props.schema.maxItems;
+  const canRemove = () => props.schema.minItems === undefined || items().length > props.schema.minItems;
+
+  const set = (index: number, next: unknown) => props.onChange(items().map((item, i) => (i === index ? next : item)));
+
+  return (
+    <div class="array-field">
+      <Index each={items()}>
+        {(item, index) => (
+          <div class="array-item">
+            <span class="array-index">{index}</span>
+            <div class="array-value">
+              <SchemaField schema={itemSchema()} value={item()} onChange={(next) => set(index, next)} />
+            </div>
+            <button
+              class="link"
+              disabled={!canRemove()}
+              onClick={() => props.onChange(items().filter((_, i) => i !== index))}
+            >
+              Remove
+            </button>
+          </div>
+        )}
+      </Index>
+      <button class="secondary" disabled={!canAdd()} onClick={() => props.onChange([...items(), defaultValue(itemSchema())])}>
+        Add Item
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Render the control for one value according to its schema.
+ */
+const SchemaField: Component<FieldProps> = (props) => {
+  const schema = () => flatten(props.schema);
+  const kind = () => fieldKind(schema(), props.value);
+
+  return (
+    <Switch fallback={<JsonField schema={schema()} value={props.value} onChange={props.onChange} />}>
+      <Match when={kind() === "const"}>
+        <code class="const">{JSON.stringify(props.value ?? schema().const)}</code>
+      </Match>
+      <Match when={kind() === "enum"}>
+        <EnumField schema={schema()} value={props.value} onChange={props.onChange} />
+      </Match>
+      <Match when={kind() === "boolean"}>
+        <input
+          type="checkbox"
+          checked={props.value === true}
+          onInput={(event) => props.onChange(event.currentTarget.checked)}
+        />
+      </Match>
+      <Match when={kind() === "number" || kind() === "integer"}>
+        <NumberField
+          schema={schema()}
+          value={props.value}
+          integer={kind() === "integer"}
+          onChange={props.onChange}
+        />
+      </Match>
+      <Match when={kind() === "string"}>
+        <input
+          value={typeof props.value === "string" ? props.value : ""}
+          onInput={(event) => props.onChange(event.currentTarget.value)}
+        />
+      </Match>
+      <Match when={kind() === "file-path"}>
+        <FilePathField schema={schema()} value={props.value} onChange={props.onChange} />
+      </Match>
+      <Match when={kind() === "color"}>
+        <ColorField schema={schema()} value={props.value} onChange={props.onChange} />
+      </Match>
+      <Match when={kind() === "array"}>
+        <ArrayField schema={schema()} value={props.value} onChange={props.onChange} />
+      </Match>
+      <Match when={kind() === "object"}>
+        <ObjectField schema={schema()} value={props.value} onChange={props.onChange} />
+      </Match>
+    </Switch>
+  );
+};
+
+const SchemaFormEditor: Component<PluginComponentProps> = (props) => (
+  <div class="schema-form">
+    <Show when={props.schema} fallback={<p>This asset type doesn't declare a schema to build a form from.</p>}>
+      {(schema) => (
+        <SchemaField schema={schema()} value={props.value} onChange={(next) => props.onChange(next as AssetJson)} />
+      )}
+    </Show>
+    <style nonce={props.nonce}>{styles}</style>
+  </div>
+);
+
+const styles = `
+.schema-form {
+  max-width: 720px;
+}
+.schema-form .object-field,
+.schema-form .array-field {
+  display: grid;
+  gap: 0.75rem;
+}
+.schema-form .object-field .object-field,
+.schema-form .array-field {
+  padding-left: 0.75rem;
+  border-left: 1px solid var(--vscode-panel-border);
+}
+.schema-form .property {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+}
+.schema-form .property-label {
+  display: flex;
+  justify-content: space-between;
+  gap: 0.5rem;
+  font-weight: 600;
+}
+.schema-form .required {
+  color: var(--vscode-errorForeground);
+  margin-left: 0.15rem;
+}
+.schema-form .hint {
+  color: var(--vscode-descriptionForeground);
+}
+.schema-form input:not([type="checkbox"]):not([type="color"]),
+.schema-form select,
+.schema-form textarea {
+  background: var(--vscode-input-background);
+  border: 1px solid var(--vscode-input-border, transparent);
+  color: var(--vscode-input-foreground);
+  padding: 0.35rem 0.5rem;
+  border-radius: 4px;
+  font: inherit;
+}
+.schema-form input[type="checkbox"] {
+  align-self: flex-start;
+}
+.schema-form textarea {
+  font-family: var(--vscode-editor-font-family, monospace);
+  resize: vertical;
+  width: 100%;
+  box-sizing: border-box;
+}
+.schema-form .input-with-button {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  align-items: center;
+}
+.schema-form .input-with-button input:not([type="color"]) {
+  flex: 1;
+}
+.schema-form .array-item {
+  display: flex;
+  gap: 0.5rem;
+  align-items: flex-start;
+}
+.schema-form .array-index {
+  min-width: 1.5rem;
+  color: var(--vscode-descriptionForeground);
+  padding-top: 0.35rem;
+}
+.schema-form .array-value {
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+}
+.schema-form button.secondary {
+  justify-self: start;
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+  border: 1px solid var(--vscode-button-border, transparent);
+  border-radius: 4px;
+  padding: 0.35rem 0.75rem;
+  cursor: pointer;
+}
+.schema-form button.secondary:hover:not(:disabled) {
+  background: var(--vscode-button-secondaryHoverBackground);
+}
+.schema-form button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+.schema-form .field-error {
+  color: var(--vscode-errorForeground);
+}
+.schema-form .const {
+  color: var(--vscode-descriptionForeground);
+}
+`;
+
+/**
+ * Generic editor for asset types without a custom webview plugin.
+ * Builds a form from the schema declared by the host plugin.
+ */
+export const schemaFormPlugin: WebviewAssetPlugin = {
+  metadata: {
+    type: "schema-form",
+    title: "Properties",
+    description: "Form generated from the asset type's schema"
+  },
+  Component: SchemaFormEditor
+};
@@ -0,0 +1,347 @@
+import { For, Show, createMemo, createSignal } from "solid-js";
+import type { Component } from "solid-js";
+import type { AssetJson } from "@protocol/messages";
+import {
+  BMFONT_FORMATS,
+  bmfontToSpriteFont,
+  detectBMFontFormat,
+  parseBMFont,
+  type BMFont,
+  type BMFontFormat
+} from "@common/bmfont";
+import { isFileSelectionCancelled, MessageService } from "../../services/message-service";
+import { base64ToUint8Array } from "../../services/base64";
+import { loadImage } from "../../services/image-loader";
+import { resolveAssetRelativePath, toAssetRelativePath } from "../../services/path-utils";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+interface BMFontImportValue extends AssetJson {
+  type: "bmfont-import";
+}
+
+interface PageImage {
+  /** Filename as listed in the .fnt, relative to it */
+  file: string;
+  image: HTMLImageElement | null;
+}
+
+function fileName(path: string): string {
+  return path.split(/[/\\]/).pop() ?? path;
+}
+
+function directoryName(path: string): string {
+  return /[/\\]/.test(path) ? path.replace(/[/\\][^/\\]*$/, "") : ".";
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  const entries = await MessageService.instance.getDirectory(directoryName(path));
+  return entries.some((entry) => !entry.isDirectory && entry.name === fileName(path));
+}
+
+const BMFontImportToolComponent: Component<PluginComponentProps<BMFontImportValue>> = (props) => {
+  const [fntPath, setFntPath] = createSignal<string | null>(null);
+  const [font, setFont] = createSignal<BMFont | null>(null);
+  const [format, setFormat] = createSignal<BMFontFormat | null>(null);
+  const [pages, setPages] = createSignal<PageImage[]>([]);
+  const [status, setStatus] = createSignal("Select a .fnt file to begin.");
+  const [busy, setBusy] = createSignal(false);
+
+  // By default the asset is written beside the .fnt so the page filenames stay valid as they are
+  const assetPath = () => {
+    const path = fntPath();
+    return path ? `${path.replace(/\.fnt$/i, "")}.asset` : null;
+  };
+  const formatLabel = () => BMFONT_FORMATS.find((entry) => entry.id === format())?.label ?? "";
+
+  const warnings = createMemo(() => {
+    const f = font();
+    if (!f) return [];
+    const list: string[] = [];
+    for (const page of pages()) {
+      if (!page.image) {
+        list.push(`Page image ${page.file} could not be loaded.`);
+      } else if (page.image.naturalWidth !== f.common.scaleW || page.image.naturalHeight !== f.common.scaleH) {
+        list.push(
+          `${page.file} is ${page.image.naturalWidth}×${page.image.naturalHeight}px, ` +
+            `but the font declares ${f.common.scaleW}×${f.common.scaleH}px pages.`
+        );
+      }
+    }
+    if (f.chars.some((char) => char.page >= f.pages.length)) {
+      list.push("Some glyphs are on pages the file does not list.");
+    }
+    if (f.common.packed) {
+      list.push("Glyphs are packed into separate color channels, which sprite fonts don't support.");
+    }
+    return list;
+  });
+
+  const pickFont = async () => {
+    try {
+      setBusy(true);
+      setStatus("Opening file picker…");
+      const [picked] = await MessageService.instance.pickFile({
+        filters: { BMFont: ["fnt"] },
+        canSelectMany: false
+      }).catch((error: unknown) => {
+        if (isFileSelectionCancelled(error)) return [];
+        throw error;
+      });
+      if (!picked) {
+        setStatus("File selection cancelled.");
+        return;
+      }
+
+      const bytes = base64ToUint8Array(await MessageService.instance.readFile(picked, "binary"));
+      const parsed = parseBMFont(bytes);
+      const images = await Promise.all(
+        parsed.pages.map(async (file): Promise<PageImage> => {
+          try {
+            return { file, image: await loadImage(resolveAssetRelativePath(picked, file)) };
+          } catch {
+            return { file, image: null };
+          }
+        })
+      );
+
+      setFntPath(picked);
+      setFont(parsed);
+      setFormat(detectBMFontFormat(bytes));
+      setPages(images);
+      setStatus(`Loaded ${fileName(picked)} (${parsed.chars.length} glyphs on ${parsed.pages.length} pages).`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to read the font";
+      MessageService.instance.showNotification("error", message);
+      setStatus(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importFont = async () => {
+    const f = font();
+    const fnt = fntPath();
+    const defaultTarget = assetPath();
+    if (!f || !fnt || !defaultTarget) return;
+    try {
+      setBusy(true);
+      let target = defaultTarget;
+      // Let the save dialog confirm replacing an existing asset, or pick another name
+      if (await fileExists(target)) {
+        const savePath = await MessageService.instance.showSaveDialog({
+          filters: { "Sprite Font": ["asset"] },
+          defaultUri: target
+        });
+        if (!savePath) {
+          setStatus("Import cancelled.");
+          return;
+        }
+        target = savePath.toLowerCase().endsWith(".asset") ? savePath : `${savePath}.asset`;
+      }
+      const asset = bmfontToSpriteFont(f);
+      if (directoryName(target) !== directoryName(fnt)) {
+        // Page filenames are relative to the .fnt; keep them reachable from the asset
+        asset.pages = asset.pages.map((page) => toAssetRelativePath(target, resolveAssetRelativePath(fnt, page)));
+      }
+      await MessageService.instance.writeFile(target, JSON.stringify(asset, null, 2), "text");
+      MessageService.instance.showNotification("info", `Saved ${target}`);
+      setStatus(`Imported ${Object.keys(asset.glyphs).length} glyphs into ${fileName(target)}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Import failed";
+      MessageService.instance.showNotification("error", message);
+      setStatus(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div class="bmfont-import">
+      <style nonce={props.nonce}>{styles}</style>
+      <div class="header">
+        <div>
+          <h1>Import BMFont</h1>
+          <p>{status()}</p>
+        </div>
+        <button class="primary" onClick={pickFont} disabled={busy()}>
+          {font() ? "Change File" : "Select .fnt File"}
+        </button>
+      </div>
+
+      <div class="panel">
+        <div class="row">
+          <label>File</label>
+          <div class="value">{fntPath() ?? "No file loaded"}</div>
+        </div>
+        <Show when={font()}>
+          {(f) => (
+            <>
+              <div class="row">
+                <label>Face</label>
+                <div class="value">
+                  {f().info.face} {Math.abs(f().info.size)}px
+                  {f().info.bold ? " bold" : ""}
+                  {f().info.italic ? " italic" : ""}
+                </div>
+              </div>
+              <div class="row">
+                <label>Format</label>
+                <div class="value">{formatLabel()}</div>
+              </div>
+              <div class="row stats">
+                <div>Glyphs: {f().chars.length}</div>
+                <div>Kerning Pairs: {f().kernings.length}</div>
+                <div>Pages: {f().pages.length}</div>
+                <div>Line Height: {f().common.lineHeight}px</div>
+              </div>
+              <For each={warnings()}>{(warning) => <div class="warning">{warning}</div>}</For>
+              <div class="row">
+                <label>Output</label>
+                <div class="value">{assetPath()}</div>
+              </div>
+            </>
+          )}
+        </Show>
+        <div class="actions">
+          <button class="primary" disabled={!font() || busy()} onClick={importFont}>
+            {busy() ? "Working…" : "Save Sprite Font"}
+          </button>
+        </div>
+        <div class="footnote">
+          The sprite font is saved beside the .fnt file and references the same page images.
+        </div>
+      </div>
+
+      <For each={pages()}>
+        {(page, i) => (
+          <Show when={page.image}>
+            {(image) => (
+              <div class="preview-panel">
+                <div class="preview-label">
+                  Page {i()}: {page.file}
+                </div>
+                {image()}
+              </div>
+            )}
+          </Show>
+        )}
+      </For>
+    </div>
+  );
+};
+
+const styles = `
+.bmfont-import {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  color: var(--vscode-editor-foreground);
+}
+
+.bmfont-import .header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 1rem;
+}
+
+.bmfont-import h1 {
+  margin: 0;
+  font-size: 1.4rem;
+}
+
+.bmfont-import p {
+  margin: 0.2rem 0 0;
+  color: var(--vscode-descriptionForeground);
+}
+
+.bmfont-import .panel {
+  border: 1px solid var(--vscode-panel-border);
+  background: var(--vscode-editorWidget-background);
+  border-radius: 6px;
+  padding: 1rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+}
+
+.bmfont-import .row {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  flex-wrap: wrap;
+}
+
+.bmfont-import .row > label:first-child {
+  width: 140px;
+  color: var(--vscode-descriptionForeground);
+}
+
+.bmfont-import .row .value {
+  flex: 1;
+  font-weight: 600;
+}
+
+.bmfont-import .row.stats {
+  justify-content: space-between;
+  font-weight: 600;
+}
+
+.bmfont-import .warning {
+  color: var(--vscode-editorWarning-foreground);
+}
+
+.bmfont-import button.primary {
+  background: var(--vscode-button-background);
+  color: var(--vscode-button-foreground);
+  border: 1px solid var(--vscode-button-border, transparent);
+  border-radius: 4px;
+  padding: 0.5rem 0.9rem;
+  cursor: pointer;
+}
+
+.bmfont-import button.primary:disabled {
+  opacity: 0.6;
+  cursor: not-allowed;
+}
+
+.bmfont-import .actions {
+  display: flex;
+  justify-content: flex-end;
+}
+
+.bmfont-import .footnote {
+  color: var(--vscode-descriptionForeground);
+  font-size: 0.85rem;
+}
+
+.bmfont-import .preview-panel {
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 6px;
+  padding: 1rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  overflow: auto;
+  background: #000000;
+}
+
+.bmfont-import .preview-panel img {
+  align-self: flex-start;
+  image-rendering: pixelated;
+}
+
+.bmfont-import .preview-label {
+  color: #cccccc;
+  font-size: 0.9rem;
+}
+`;
+
+export const bmfontImportPlugin: WebviewAssetPlugin<BMFontImportValue> = {
+  metadata: {
+    type: "bmfont-import",
+    title: "Import BMFont",
+    description: "Convert an AngelCode BMFont (.fnt) and its page images into a sprite font"
+  },
+  Component: BMFontImportToolComponent
+};
@@ -1,6 +1,12 @@
-import { createSignal, onMount, createEffect, Show, type Component } from "solid-js";
-import type { SpriteFontAsset as BaseSpriteFont } from "@common/sprite-font";
+import { createSignal, createMemo, onMount, createEffect, Show, type Component } from "solid-js";
+import {
+  getGlyphSource,
+  type GlyphMetrics,
+  type GlyphSource,
+  type SpriteFontAsset as BaseSpriteFont
+} from "@common/sprite-font";
 import { layoutText } from "@common/sprite-font-layout";
+import { distanceFieldCoverage } from "@common/distance-field";
 import { MessageService } from "../../services/message-service";
 import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
 import type { AssetJson } from "@protocol/messages";
@@ -8,8 +14,84 @@ import type { AssetJson } from "@protocol/messages";
 // Add index signature to satisfy AssetJson constraint
 type SpriteFontAsset = BaseSpriteFont & { [key: string]: unknown };
 
+type DistanceField = NonNullable<BaseSpriteFont["info"]["distanceField"]>;
+
+/**
+ * Bilinear sample of an image at texel coordinates, clamped to the texels of one
+ * glyph so neighbours in the atlas don't bleed in. Channels are 0-1.
+ */
+function sampleBilinear(
+  image: ImageData,
+  x: number,
+  y: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number
+): [number, number, number, number] {
+  // Texel centers sit at +0.5
+  const fx = Math.min(Math.max(x - 0.5, left), right);
+  const fy = Math.min(Math.max(y - 0.5, top), bottom);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, right);
+  const y1 = Math.min(y0 + 1, bottom);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const data = image.data;
+  const result: [number, number, number, number] = [0, 0, 0, 0];
+  for (let c = 0; c < 4; c++) {
+    const top0 = data[(y0 * image.width + x0) * 4 + c] * (1 - tx) + data[(y0 * image.width + x1) * 4 + c] * tx;
+    const bottom0 = data[(y1 * image.width + x0) * 4 + c] * (1 - tx) + data[(y1 * image.width + x1) * 4 + c] * tx;
+    result[c] = (top0 * (1 - ty) + bottom0 * ty) / 255;
+  }
+  return result;
+}
+
+/**
+ * Draw one distance field glyph into `output` at (x, y) in output pixels, as white
+ * with coverage in alpha, compositing over glyphs already drawn.
+ */
+function drawDistanceFieldGlyph(
+  output: ImageData,
+  page: ImageData,
+  source: GlyphSource,
+  glyph: GlyphMetrics,
+  x: number,
+  y: number,
+  scale: number,
+  field: DistanceField
+): void {
+  const right = source.x + glyph.width - 1;
+  const bottom = source.y + glyph.height - 1;
+  const startX = Math.max(0, Math.floor(x));
+  const startY = Math.max(0, Math.floor(y));
+  const endX = Math.min(output.width, Math.ceil(x + glyph.width * scale));
+  const endY = Math.min(output.height, Math.ceil(y + glyph.height * scale));
+  for (let py = startY; py < endY; py++) {
+    for (let px = startX; px < endX; px++) {
+      const sample = sampleBilinear(
+        page,
+        source.x + (px + 0.5 - x) / scale,
+        source.y + (py + 0.5 - y) / scale,
+        source.x,
+        source.y,
+        right,
+        bottom
+      );
+      const coverage = distanceFieldCoverage(field.type, sample, field.distanceRange, scale);
+      if (coverage === 0) continue;
+      const i = (py * output.width + px) * 4;
+      const alpha = output.data[i + 3] / 255;
+      output.data[i] = output.data[i + 1] = output.data[i + 2] = 255;
+      output.data[i + 3] = Math.round((alpha + coverage * (1 - alpha)) * 255);
+    }
+  }
+}
+
 const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset>> = (props) => {
-  const [atlasImg, setAtlasImg] = createSignal<HTMLImageElement | null>(null);
+  // Page images by path; a stacked atlas is a single entry
+  const [pageImages, setPageImages] = createSignal<Map<string, HTMLImageElement> | null>(null);
   const [isLoading, setIsLoading] = createSignal(true);
   const [loadError, setLoadError] = createSignal<string | null>(null);
   const [inputText, setInputText] = createSignal("The quick brown fox jumps over the lazy dog.\n0123456789");
@@ -19,44 +101,65 @@ const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset
   const [canvasEl, setCanvasEl] = createSignal<HTMLCanvasElement | null>(null);
   const LAYOUT_MAX_WIDTH = 600;
 
+  const loadPageImage = async (path: string): Promise<HTMLImageElement> => {
+    const imgDataUrl = await MessageService.instance.readImage(path);
+    return new Promise((resolve, reject) => {
+      const imgElement = new Image();
+      imgElement.onload = () => resolve(imgElement);
+      imgElement.onerror = () => reject(new Error(`Failed to load sprite atlas page ${path}`));
+      imgElement.src = imgDataUrl;
+    });
+  };
+
   onMount(async () => {
     try {
       setIsLoading(true);
       setLoadError(null);
-      const imgDataUrl = await MessageService.instance.readImage(props.value.image);
-      
-      const imgElement = new Image();
-      imgElement.onload = () => {
-        setAtlasImg(imgElement);
-        setIsLoading(false);
-      };
-      imgElement.onerror = () => {
-        setLoadError("Failed to load sprite atlas image");
-        setIsLoading(false);
-      };
-      imgElement.src = imgDataUrl;
+      const paths = Array.from(new Set(props.value.pages));
+      const images = await Promise.all(paths.map(loadPageImage));
+      setPageImages(new Map(paths.map((path, i) => [path, images[i]])));
     } catch (err) {
       setLoadError(err instanceof Error ? err.message : "Failed to load image");
+    } finally {
       setIsLoading(false);
     }
   });
 
+  // Distance fields are sampled per pixel, so their pages are decoded once up front
+  const pagePixels = createMemo(() => {
+    const images = pageImages();
+    if (!images || !props.value.info.distanceField) return null;
+    const pixels = new Map<string, ImageData>();
+    for (const [path, image] of images) {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) continue;
+      ctx.drawImage(image, 0, 0);
+      pixels.set(path, ctx.getImageData(0, 0, canvas.width, canvas.height));
+    }
+    return pixels;
+  });
+
   createEffect(() => {
-    const img = atlasImg();
+    const img = pageImages();
     const canvas = canvasEl();
     const txt = inputText();
     const color = tintColor();
+    const zoom = scale();
     // Also track loading state to re-run when it flips
     const loading = isLoading();
     if (!img || !canvas || loading) return;
-    drawTextPreview(canvas, img, txt, color);
+    drawTextPreview(canvas, img, txt, color, zoom);
   });
 
   const drawTextPreview = (
     canvas: HTMLCanvasElement,
-    atlasImage: HTMLImageElement,
+    images: Map<string, HTMLImageElement>,
     text: string,
-    colorHex: string
+    colorHex: string,
+    zoom: number
   ) => {
     const fontAsset = props.value;
     const lines = layoutText(text, LAYOUT_MAX_WIDTH, fontAsset);
@@ -65,8 +168,8 @@ const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset
     const widest = lines.reduce((max, ln) => Math.max(max, ln.width), 1);
     const totalH = lines.reduce((sum, ln) => sum + ln.height, 0);
     
-    canvas.width = widest;
-    canvas.height = totalH || fontAsset.info.lineHeight;
+    canvas.width = Math.ceil(widest * zoom);
+    canvas.height = Math.ceil((totalH || fontAsset.info.lineHeight) * zoom);
     
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
@@ -74,29 +177,57 @@ const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     ctx.imageSmoothingEnabled = false;
 
+    // Bitmap glyphs are scaled as pixels; distance fields are rendered at the target size
+    const field = fontAsset.info.distanceField;
+    const pixels = pagePixels();
+    const output = field && pixels ? ctx.createImageData(canvas.width, canvas.height) : null;
+
     // Render each line
     let yPos = 0;
     for (const ln of lines) {
       for (const gl of ln.glyphs) {
         const m = gl.metrics;
         
-        // Source rect in atlas (vertically stacked pages)
-        const pageYOffset = m.page * fontAsset.pages.height;
-        const srcX = m.x;
-        const srcY = pageYOffset + m.y;
+        // Source rect in the glyph's page image
+        const source = getGlyphSource(fontAsset, m);
         
         // Destination position
-        const dstX = gl.x + m.xOffset;
-        const dstY = yPos + fontAsset.info.baseline + m.yOffset;
+        const dstX = (gl.x + m.xOffset) * zoom;
+        const dstY = (yPos + fontAsset.info.baseline + m.yOffset) * zoom;
         
+        if (output && field && pixels) {
+          const page = pixels.get(source.image);
+          if (page) drawDistanceFieldGlyph(output, page, source, m, dstX, dstY, zoom, field);
+          continue;
+        }
+
+        const pageImage = images.get(source.image);
+        if (!pageImage) continue;
         ctx.drawImage(
-          atlasImage,
-          srcX, srcY, m.width, m.height,
-          dstX, dstY, m.width, m.height
+          pageImage,
+          source.x, source.y, m.width, m.height,
+          dstX, dstY, m.width * zoom, m.height * zoom
         );
       }
       yPos += ln.height;
     }
+    if (output) {
+      ctx.putImageData(output, 0, 0);
+    }
+    if (fontAsset.info.effects) {
+      // Glyphs with baked effects keep their colors: multiply by the tint, then restore their alpha
+      const glyphs = document.createElement("canvas");
+      glyphs.width = canvas.width;
+      glyphs.height = canvas.height;
+      glyphs.getContext("2d")?.drawImage(canvas, 0, 0);
+      ctx.globalCompositeOperation = "multiply";
+      ctx.fillStyle = colorHex;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = "destination-in";
+      ctx.drawImage(glyphs, 0, 0);
+      ctx.globalCompositeOperation = "source-over";
+      return;
+    }
     // Tint pass: multiply selected color using destination alpha mask
     ctx.globalCompositeOperation = "source-in";
     ctx.fillStyle = colorHex;
@@ -133,14 +264,15 @@ const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset
           
           <div class="control-row">
             <label>
-              Zoom: {scale()}x
+              Scale: {scale()}x
+              {/* Distance fields stay sharp at any scale; bitmaps only at whole multiples */}
               <input
                 type="range"
-                min="1"
+                min={props.value.info.distanceField ? 0.25 : 1}
                 max="8"
-                step="1"
+                step={props.value.info.distanceField ? 0.25 : 1}
                 value={scale()}
-                onInput={(e) => setScale(parseInt(e.currentTarget.value))}
+                onInput={(e) => setScale(parseFloat(e.currentTarget.value))}
               />
             </label>
             
@@ -156,13 +288,7 @@ const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset
         </div>
         
         <div class="preview-panel">
-          <div
-            class="canvas-wrapper"
-            style={{
-              transform: `scale(${scale()})`,
-              "transform-origin": "top left"
-            }}
-          >
+          <div class="canvas-wrapper">
             <canvas
               ref={(el) => setCanvasEl(el)}
               style={{
@@ -185,6 +311,28 @@ const SpriteFontPreviewComponent: Component<PluginComponentProps<SpriteFontAsset
           <div class="info-item">
             <strong>Pages:</strong> {props.value.info.pages}
           </div>
+          <div class="info-item">
+            <strong>Rendering:</strong>{" "}
+            {props.value.info.distanceField
+              ? `${props.value.info.distanceField.type.toUpperCase()}, ${props.value.info.distanceField.distanceRange}px range`
+              : "Bitmap"}
+          </div>
+          <Show when={props.value.info.effects}>
+            {(effects) => (
+              <div class="info-item">
+                <strong>Effects:</strong>{" "}
+                {[
+                  effects().outline && `${effects().outline?.width}px outline`,
+                  effects().shadow && "drop shadow",
+                  effects().gradient && "gradient",
+                  effects().innerGlow && "inner glow"
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+                {effects().colorAtlas ? "" : " (gray)"}
+              </div>
+            )}
+          </Show>
         </div>
       </Show>
     </div>
@@ -1,8 +1,9 @@
 import { For, Show, createEffect, createMemo, createSignal } from "solid-js";
 import type { Component } from "solid-js";
-import opentype, { type Font, type Glyph } from "opentype.js";
+import { parse as parseFont, type Font, type Glyph } from "opentype.js";
 import type { AssetJson } from "@protocol/messages";
 import { MessageService } from "../../services/message-service";
+import { base64ToUint8Array, uint8ArrayToBase64 } from "../../services/base64";
 import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
 import type {
   SpriteFontAsset,
@@ -11,8 +12,13 @@ import type {
   FontStyle,
   FontWeight
 } from "@common/sprite-font";
+import { SPRITE_FONT_VERSION } from "@common/sprite-font";
+import { getPageSize, packRects, PACK_STRATEGIES, type PackPageStats, type PackStrategy } from "@common/rect-packer";
+import { BMFONT_FORMATS, spriteFontToBMFont, writeBMFont, type BMFontFormat } from "@common/bmfont";
+import { DISTANCE_FIELD_TYPES, generateDistanceField, type DistanceFieldType } from "@common/distance-field";
+import { getEffectAdvance, getEffectMargins, hasGlyphEffects, type GlyphEffects } from "@common/glyph-effects";
 
-const PAGE_SIZE = 256;
+const PAGE_SIZES = [128, 256, 512, 1024, 2048, 4096];
 const REQUIRED_PRESETS = ["digits", "upper", "lower", "whitespace"] as const;
 const OPTIONAL_PRESETS = ["ascii", "latin1", "punctuation"] as const;
 
@@ -177,18 +183,6 @@ interface GlyphBitmap {
   metrics: Omit<GlyphMetrics, "page" | "x" | "y">;
 }
 
-interface Shelf {
-  y: number;
-  height: number;
-  x: number;
-}
-
-interface PageLayout {
-  index: number;
-  shelves: Shelf[];
-  usedHeight: number;
-}
-
 interface PackedGlyph extends GlyphBitmap {
   page: number;
   x: number;
@@ -242,19 +236,99 @@ function parseCustomRanges(input: string): number[] {
   return uniqueSorted(codes);
 }
 
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
-
 function formatCodepoint(cp: number): string {
   return `U+${cp.toString(16).toUpperCase().padStart(4, "0")}`;
 }
 
+/** Gray of the same luminance as a `#rrggbb` color */
+function toGray(color: string): string {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return color;
+  const [r, g, b] = match.slice(1).map((hex) => parseInt(hex, 16));
+  const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b)
+    .toString(16)
+    .padStart(2, "0");
+  return `#${gray}${gray}${gray}`;
+}
+
+function createLayer(width: number, height: number, font: string): CanvasRenderingContext2D {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.font = font;
+  ctx.textBaseline = "alphabetic";
+  return ctx;
+}
+
+/**
+ * Draw `text` into `ctx` with its effects, back to front: shadow, outline, fill, inner glow.
+ * `lineTop` and `lineBottom` are the ascender and descender lines the gradient spans.
+ */
+function drawGlyphWithEffects(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  effects: GlyphEffects,
+  lineTop: number,
+  lineBottom: number
+): void {
+  const { width, height } = ctx.canvas;
+  const color = (value: string) => (effects.colorAtlas ? value : toGray(value));
+
+  const fill = createLayer(width, height, ctx.font);
+  if (effects.gradient) {
+    const gradient = fill.createLinearGradient(0, lineTop, 0, lineBottom);
+    gradient.addColorStop(0, color(effects.gradient.top));
+    gradient.addColorStop(1, color(effects.gradient.bottom));
+    fill.fillStyle = gradient;
+  } else {
+    fill.fillStyle = "white";
+  }
+  fill.fillText(text, x, y);
+
+  if (effects.innerGlow && effects.innerGlow.size > 0) {
+    // Everything outside the glyph casts a blurred shadow into it. The layers extend
+    // past the canvas so the glow doesn't fade where the glyph meets the canvas edge.
+    const margin = Math.ceil(effects.innerGlow.size * 2);
+    const outside = createLayer(width + margin * 2, height + margin * 2, ctx.font);
+    outside.fillRect(0, 0, outside.canvas.width, outside.canvas.height);
+    outside.globalCompositeOperation = "destination-out";
+    outside.drawImage(fill.canvas, margin, margin);
+
+    const glow = createLayer(outside.canvas.width, outside.canvas.height, ctx.font);
+    glow.shadowColor = color(effects.innerGlow.color);
+    glow.shadowBlur = effects.innerGlow.size;
+    // Draw the source off the layer so only its shadow lands on it
+    glow.shadowOffsetX = glow.canvas.width;
+    glow.drawImage(outside.canvas, -glow.canvas.width, 0);
+
+    fill.globalCompositeOperation = "source-atop";
+    fill.drawImage(glow.canvas, -margin, -margin);
+  }
+
+  const body = createLayer(width, height, ctx.font);
+  if (effects.outline && effects.outline.width > 0) {
+    body.lineJoin = "round";
+    body.lineWidth = effects.outline.width * 2;
+    body.strokeStyle = color(effects.outline.color);
+    body.strokeText(text, x, y);
+  }
+  body.drawImage(fill.canvas, 0, 0);
+
+  if (effects.shadow) {
+    const shadow = createLayer(width, height, ctx.font);
+    shadow.drawImage(body.canvas, 0, 0);
+    shadow.globalCompositeOperation = "source-in";
+    shadow.fillStyle = color(effects.shadow.color);
+    shadow.fillRect(0, 0, width, height);
+    ctx.drawImage(shadow.canvas, effects.shadow.offsetX, effects.shadow.offsetY);
+  }
+  ctx.drawImage(body.canvas, 0, 0);
+}
+
 const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>> = (
   props
 ) => {
@@ -268,12 +342,36 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
   const [optionalPresets, setOptionalPresets] = createSignal<Set<OptionalPreset>>(new Set(defaultOptionalPresets));
   const [customRanges, setCustomRanges] = createSignal<string>("");
   const [padding, setPadding] = createSignal<number>(1);
+  const [spacing, setSpacing] = createSignal<number>(1);
+  const [packStrategy, setPackStrategy] = createSignal<PackStrategy>("maxrects");
+  const [pageWidth, setPageWidth] = createSignal<number>(256);
+  const [pageHeight, setPageHeight] = createSignal<number>(256);
+  const [powerOfTwo, setPowerOfTwo] = createSignal<boolean>(true);
+  const [squarePages, setSquarePages] = createSignal<boolean>(false);
+  const [separatePages, setSeparatePages] = createSignal<boolean>(true);
+  const [bmfontFormat, setBMFontFormat] = createSignal<BMFontFormat | "none">("none");
+  const [pageStats, setPageStats] = createSignal<PackPageStats[]>([]);
   const [antialias, setAntialias] = createSignal<boolean>(true);
+  const [distanceField, setDistanceField] = createSignal<DistanceFieldType | "none">("none");
+  const [distanceRange, setDistanceRange] = createSignal<number>(4);
+  const [outlineEnabled, setOutlineEnabled] = createSignal<boolean>(false);
+  const [outlineWidth, setOutlineWidth] = createSignal<number>(1);
+  const [outlineColor, setOutlineColor] = createSignal<string>("#000000");
+  const [shadowEnabled, setShadowEnabled] = createSignal<boolean>(false);
+  const [shadowOffsetX, setShadowOffsetX] = createSignal<number>(2);
+  const [shadowOffsetY, setShadowOffsetY] = createSignal<number>(2);
+  const [shadowColor, setShadowColor] = createSignal<string>("#000000");
+  const [gradientEnabled, setGradientEnabled] = createSignal<boolean>(false);
+  const [gradientTop, setGradientTop] = createSignal<string>("#ffffff");
+  const [gradientBottom, setGradientBottom] = createSignal<string>("#a0a0a0");
+  const [innerGlowEnabled, setInnerGlowEnabled] = createSignal<boolean>(false);
+  const [innerGlowSize, setInnerGlowSize] = createSignal<number>(3);
+  const [innerGlowColor, setInnerGlowColor] = createSignal<string>("#ffd54f");
+  const [colorAtlas, setColorAtlas] = createSignal<boolean>(true);
   const [includeKerning, setIncludeKerning] = createSignal<boolean>(true);
   const [status, setStatus] = createSignal<string>("Select a font to begin.");
   const [busy, setBusy] = createSignal<boolean>(false);
   const [glyphCount, setGlyphCount] = createSignal<number>(0);
-  const [pageCount, setPageCount] = createSignal<number>(0);
   const [previewCanvas, setPreviewCanvas] = createSignal<HTMLCanvasElement | null>(null);
   let previewTarget: HTMLCanvasElement | null = null;
 
@@ -288,18 +386,49 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
     return merged;
   });
 
+  const packOptions = () => ({
+    strategy: packStrategy(),
+    pageWidth: pageWidth(),
+    pageHeight: pageHeight(),
+    powerOfTwo: powerOfTwo(),
+    square: squarePages(),
+    spacing: spacing()
+  });
+  const pageSize = createMemo(() => getPageSize(packOptions()));
+
+  // Effects are drawn over bitmap glyphs only; undefined when none apply
+  const glyphEffects = createMemo((): GlyphEffects | undefined => {
+    if (distanceField() !== "none") return undefined;
+    const effects: GlyphEffects = {
+      outline: outlineEnabled() ? { width: outlineWidth(), color: outlineColor() } : undefined,
+      shadow: shadowEnabled()
+        ? { offsetX: shadowOffsetX(), offsetY: shadowOffsetY(), color: shadowColor() }
+        : undefined,
+      gradient: gradientEnabled() ? { top: gradientTop(), bottom: gradientBottom() } : undefined,
+      innerGlow: innerGlowEnabled() ? { size: innerGlowSize(), color: innerGlowColor() } : undefined,
+      colorAtlas: colorAtlas()
+    };
+    return hasGlyphEffects(effects) ? effects : undefined;
+  });
+  const effectMargins = createMemo(() => getEffectMargins(glyphEffects()));
+
+  // Distance fields fall off over half the range outside the outline, so glyphs need that much room
+  const glyphPadding = () =>
+    distanceField() === "none" ? padding() : Math.max(padding(), Math.ceil(distanceRange() / 2));
+
   const lineHeight = createMemo(() => {
     const f = font();
     if (!f) return 0;
     const scale = fontSize() / f.unitsPerEm;
-    return Math.ceil((f.ascender - f.descender) * scale + padding() * 2);
+    const { top, bottom } = effectMargins();
+    return Math.ceil((f.ascender - f.descender) * scale + glyphPadding() * 2 + top + bottom);
   });
 
   const baselinePx = createMemo(() => {
     const f = font();
     if (!f) return 0;
     const scale = fontSize() / f.unitsPerEm;
-    return Math.ceil(f.ascender * scale + padding());
+    return Math.ceil(f.ascender * scale + glyphPadding() + effectMargins().top);
   });
 
   const toggleOptionalPreset = (preset: OptionalPreset) => {
@@ -327,7 +456,7 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
 
       const binary = await MessageService.instance.readFile(picked, "binary");
       const bytes = base64ToUint8Array(binary);
-      const parsed = opentype.parse(bytes.buffer);
+      const parsed = parseFont(bytes.buffer);
 
       const family = `SpriteFont-${Math.random().toString(36).slice(2, 8)}`;
       const fontSource = bytes.buffer as ArrayBuffer;
@@ -363,7 +492,12 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
     f: Font
   ): GlyphBitmap => {
     const scale = fontSize() / f.unitsPerEm;
-    const paddingPx = padding();
+    const paddingPx = glyphPadding();
+    const effects = glyphEffects();
+    const margins = effectMargins();
+    // Outlines widen the advance; the glyph shifts right so its outline starts at the pen
+    const advanceExtra = getEffectAdvance(effects);
+    const shift = advanceExtra / 2;
     const isTab = glyph.unicode === 0x09;
     const isSpace = glyph.unicode === 0x20 || glyph.unicode === 0xa0;
     const renderGlyph = isTab ? fallbackGlyph : glyph;
@@ -376,13 +510,13 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
     const yMax = bbox.y2 * scale;
     const width = Math.max(
       1,
-      Math.ceil((isSpace || isTab ? spaceAdvanceWidth : xMax - xMin) + paddingPx * 2)
+      Math.ceil((isSpace || isTab ? spaceAdvanceWidth : xMax - xMin) + paddingPx * 2) + margins.left + margins.right
     );
     const ascent = f.ascender * scale;
     const descent = Math.abs(f.descender * scale);
     const height = Math.max(
       1,
-      Math.ceil((isSpace || isTab ? ascent + descent : yMax - yMin) + paddingPx * 2)
+      Math.ceil((isSpace || isTab ? ascent + descent : yMax - yMin) + paddingPx * 2) + margins.top + margins.bottom
     );
 
     const canvas = document.createElement("canvas");
@@ -395,36 +529,41 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
     ctx.textBaseline = "alphabetic";
     ctx.font = `${fontStyle()} ${fontWeight()} ${fontSize()}px "${fontFamily() ?? ""}"`;
 
-    const xDraw = -xMin + paddingPx;
-    const yDraw = yMax + paddingPx;
+    const xDraw = -xMin + paddingPx + margins.left;
+    const yDraw = yMax + paddingPx + margins.top;
+    const fieldType = distanceField();
 
-    if (isSpace) {
+    if (fieldType !== "none") {
+      // Distance fields come from the outline itself, so synthetic bold and italic don't apply
+      const commands = isSpace || isTab ? [] : renderGlyph.getPath(xDraw, yDraw, fontSize()).commands;
+      const field = generateDistanceField(commands, width, height, {
+        type: fieldType,
+        distanceRange: distanceRange()
+      });
+      ctx.putImageData(new ImageData(field, width, height), 0, 0);
+    } else if (isSpace) {
       // Space/NBSP: no drawing, but keep metrics
     } else if (isTab) {
       // Tab: render four spaces worth of advance but draw nothing
+    } else if (effects) {
+      const text = String.fromCodePoint(renderGlyph.unicode ?? 0x3f);
+      drawGlyphWithEffects(ctx, text, xDraw, yDraw, effects, yDraw - ascent, yDraw + descent);
     } else {
       ctx.fillText(String.fromCodePoint(renderGlyph.unicode ?? 0x3f), xDraw, yDraw);
     }
 
-    if (!antialias()) {
+    if (fieldType === "none" && !antialias()) {
+      // Colors are kept, so effects survive the threshold
       const img = ctx.getImageData(0, 0, width, height);
       const data = img.data;
       for (let i = 0; i < data.length; i += 4) {
-        const alpha = data[i + 3];
-        if (alpha > 127) {
-          data[i] = 255;
-          data[i + 1] = 255;
-          data[i + 2] = 255;
-          data[i + 3] = 255;
-        } else {
-          data[i + 3] = 0;
-        }
+        data[i + 3] = data[i + 3] > 127 ? 255 : 0;
       }
       ctx.putImageData(img, 0, 0);
     }
 
     const advanceBase = (renderGlyph.advanceWidth ?? f.unitsPerEm) * scale;
-    const xAdvance = isTab ? spaceAdvanceWidth * 4 : advanceBase;
+    const xAdvance = (isTab ? spaceAdvanceWidth * 4 : advanceBase) + advanceExtra;
 
     const kerning: Record<number, number> = {};
     if (includeKerning()) {
@@ -443,10 +582,15 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
       metrics: {
         codepoint: glyph.unicode ?? 0x3f,
         xAdvance,
-        xOffset: Math.floor(xMin) - paddingPx,
-        yOffset: Math.floor(-yMax) - paddingPx,
-        baseline: Math.ceil(ascent + paddingPx),
-        bounds: { xMin, xMax, yMin, yMax },
+        xOffset: Math.floor(xMin) - paddingPx - margins.left + shift,
+        yOffset: Math.floor(-yMax) - paddingPx - margins.top,
+        baseline: Math.ceil(ascent + paddingPx + margins.top),
+        bounds: {
+          xMin: xMin - margins.left + shift,
+          xMax: xMax + margins.right + shift,
+          yMin: yMin - margins.bottom,
+          yMax: yMax + margins.top
+        },
         kerning,
         width,
         height
@@ -454,66 +598,29 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
     };
   };
 
-  const packGlyphs = (glyphs: GlyphBitmap[]): PackedGlyph[] => {
-    const sorted = [...glyphs].sort((a, b) => b.metrics.height - a.metrics.height);
-    const pages: PageLayout[] = [{ index: 0, shelves: [], usedHeight: 0 }];
-    const placements: PackedGlyph[] = [];
-
-    for (const glyph of sorted) {
-      let placed = false;
-      for (const page of pages) {
-        for (const shelf of page.shelves) {
-          if (
-            glyph.metrics.width <= PAGE_SIZE - shelf.x &&
-            glyph.metrics.height <= shelf.height
-          ) {
-            placements.push({ ...glyph, page: page.index, x: shelf.x, y: shelf.y });
-            shelf.x += glyph.metrics.width;
-            placed = true;
-            break;
-          }
-        }
-        if (placed) break;
-
-        if (page.usedHeight + glyph.metrics.height <= PAGE_SIZE) {
-          const shelf: Shelf = {
-            y: page.usedHeight,
-            height: glyph.metrics.height,
-            x: glyph.metrics.width
-          };
-          page.shelves.push(shelf);
-          placements.push({ ...glyph, page: page.index, x: 0, y: shelf.y });
-          page.usedHeight += glyph.metrics.height;
-          placed = true;
-          break;
-        }
-      }
-
-      if (!placed) {
-        const nextIndex = pages.length;
-        pages.push({ index: nextIndex, shelves: [], usedHeight: 0 });
-        const page = pages[pages.length - 1];
-        if (glyph.metrics.width > PAGE_SIZE || glyph.metrics.height > PAGE_SIZE) {
-          throw new Error(
-            `Glyph ${formatCodepoint(glyph.codepoint)} does not fit in a ${PAGE_SIZE}x${PAGE_SIZE} page.`
-          );
-        }
-        const shelf: Shelf = {
-          y: 0,
-          height: glyph.metrics.height,
-          x: glyph.metrics.width
-        };
-        page.shelves.push(shelf);
-        placements.push({ ...glyph, page: page.index, x: 0, y: shelf.y });
-        page.usedHeight = glyph.metrics.height;
-      }
+  const packGlyphs = (glyphs: GlyphBitmap[]): { placements: PackedGlyph[]; pageWidth: number; pageHeight: number } => {
+    const { width, height } = pageSize();
+    const oversized = glyphs.find((glyph) => glyph.metrics.width > width || glyph.metrics.height > height);
+    if (oversized) {
+      throw new Error(
+        `Glyph ${formatCodepoint(oversized.codepoint)} (${oversized.metrics.width}x${oversized.metrics.height}) ` +
+          `does not fit in a ${width}x${height} page. Increase the page size.`
+      );
     }
 
-    setPageCount(pages.length);
-    return placements;
+    const result = packRects(
+      glyphs.map((glyph) => ({ width: glyph.metrics.width, height: glyph.metrics.height, glyph })),
+      packOptions()
+    );
+    setPageStats(result.pages);
+    return {
+      placements: result.placements.map(({ glyph, page, x, y }) => ({ ...glyph, page, x, y })),
+      pageWidth: result.pageWidth,
+      pageHeight: result.pageHeight
+    };
   };
 
-  const buildAtlas = (placements: PackedGlyph[]) => {
+  const buildAtlas = ({ placements, pageWidth, pageHeight }: ReturnType<typeof packGlyphs>) => {
     const aa = antialias();
     const pages: HTMLCanvasElement[] = [];
     const pageContexts: CanvasRenderingContext2D[] = [];
@@ -521,8 +628,8 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
 
     for (let i = 0; i <= maxPage; i++) {
       const canvas = document.createElement("canvas");
-      canvas.width = PAGE_SIZE;
-      canvas.height = PAGE_SIZE;
+      canvas.width = pageWidth;
+      canvas.height = pageHeight;
       const ctx = canvas.getContext("2d");
       if (!ctx) throw new Error("Canvas not supported");
       ctx.imageSmoothingEnabled = aa;
@@ -536,17 +643,17 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
     }
 
     const stacked = document.createElement("canvas");
-    stacked.width = PAGE_SIZE;
-    stacked.height = PAGE_SIZE * pages.length;
+    stacked.width = pageWidth;
+    stacked.height = pageHeight * pages.length;
     const stackedCtx = stacked.getContext("2d");
     if (!stackedCtx) throw new Error("Canvas not supported");
     stackedCtx.imageSmoothingEnabled = aa;
 
     pages.forEach((page, idx) => {
-      stackedCtx.drawImage(page, 0, idx * PAGE_SIZE);
+      stackedCtx.drawImage(page, 0, idx * pageHeight);
     });
 
-    return { stacked, pageCount: pages.length };
+    return { pages, stacked, pageCount: pages.length };
   };
 
   const generatePreview = async () => {
@@ -572,9 +679,9 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
         glyphBitmaps.push({ ...measured, codepoint: cp });
       }
 
-      const placements = packGlyphs(glyphBitmaps);
-      setGlyphCount(placements.length);
-      const atlas = buildAtlas(placements);
+      const packed = packGlyphs(glyphBitmaps);
+      setGlyphCount(packed.placements.length);
+      const atlas = buildAtlas(packed);
 
       // Create 2x zoomed preview with pixelated rendering
       const preview = document.createElement("canvas");
@@ -602,6 +709,7 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
       setPreviewCanvas(preview);
     } catch (error) {
       console.error("Preview generation failed:", error);
+      setStatus(error instanceof Error ? error.message : "Preview generation failed");
       setPreviewCanvas(null);
     }
   };
@@ -648,11 +756,12 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
       }
 
       setStatus("Packing atlas…");
-      const placements = packGlyphs(glyphBitmaps);
+      const packed = packGlyphs(glyphBitmaps);
+      const placements = packed.placements;
       setGlyphCount(placements.length);
 
       setStatus("Compositing pages…");
-      const atlas = buildAtlas(placements);
+      const atlas = buildAtlas(packed);
 
       setStatus("Saving files…");
       const savePath = await MessageService.instance.showSaveDialog({
@@ -669,9 +778,19 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
       const assetPath = pngPath.replace(/\.png$/i, ".asset");
       const pngFilename = pngPath.split(/[/\\]/).pop() ?? "sprite-font.png";
 
-      const pngData = atlas.stacked.toDataURL("image/png");
-      const pngBase64 = pngData.split(",")[1];
-      await MessageService.instance.writeFile(pngPath, pngBase64, "binary");
+      // One PNG per page (name_0.png, name_1.png, …) or all pages stacked in one tall PNG
+      const images =
+        separatePages() && atlas.pageCount > 1
+          ? atlas.pages.map((canvas, i) => ({
+              path: pngPath.replace(/\.png$/i, `_${i}.png`),
+              filename: pngFilename.replace(/\.png$/i, `_${i}.png`),
+              canvas
+            }))
+          : [{ path: pngPath, filename: pngFilename, canvas: atlas.stacked }];
+      for (const image of images) {
+        const pngBase64 = image.canvas.toDataURL("image/png").split(",")[1];
+        await MessageService.instance.writeFile(image.path, pngBase64, "binary");
+      }
 
       const glyphRecord: Record<string, GlyphMetrics> = {};
       for (const glyph of placements) {
@@ -685,6 +804,7 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
 
       const metadata: SpriteFontAsset = {
         type: "spritefont",
+        version: SPRITE_FONT_VERSION,
         info: {
           face: fontName() ?? fontFamily() ?? "SpriteFont",
           size: fontSize(),
@@ -693,17 +813,36 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
           pages: atlas.pageCount,
           lineHeight: lineHeight(),
           baseline: baselinePx(),
-          padding: padding(),
-          antialias: antialias()
+          padding: glyphPadding(),
+          spacing: spacing(),
+          antialias: antialias(),
+          distanceField:
+            distanceField() === "none"
+              ? undefined
+              : { type: distanceField() as DistanceFieldType, distanceRange: distanceRange() },
+          effects: glyphEffects()
         },
-        image: pngFilename,
-        glyphs: glyphRecord,
-        pages: { width: PAGE_SIZE, height: PAGE_SIZE * atlas.pageCount }
+        pages: images.map((image) => image.filename),
+        pageSize: { width: packed.pageWidth, height: packed.pageHeight },
+        glyphs: glyphRecord
       };
 
       await MessageService.instance.writeFile(assetPath, JSON.stringify(metadata, null, 2), "text");
 
-      MessageService.instance.showNotification("info", `Saved spritesheet to ${pngPath} and metadata to ${assetPath}`);
+      const saved = [images.length === 1 ? images[0].path : `${images.length} page images`];
+      const format = bmfontFormat();
+      if (format !== "none") {
+        // The .fnt sits beside the asset, so it references the same page files
+        const fntPath = pngPath.replace(/\.png$/i, ".fnt");
+        const fnt = writeBMFont(spriteFontToBMFont(metadata), format);
+        if (typeof fnt === "string") {
+          await MessageService.instance.writeFile(fntPath, fnt, "text");
+        } else {
+          await MessageService.instance.writeFile(fntPath, uint8ArrayToBase64(fnt), "binary");
+        }
+        saved.push(fntPath);
+      }
+      MessageService.instance.showNotification("info", `Saved ${saved.join(", ")} and metadata to ${assetPath}`);
       setStatus(`Exported ${placements.length} glyphs over ${atlas.pageCount} pages.`);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Export failed";
@@ -765,6 +904,82 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
             onInput={(e) => setPadding(parseInt(e.currentTarget.value, 10) || padding())}
           />
         </div>
+        <div class="row">
+          <label>Spacing</label>
+          <input
+            type="number"
+            min="0"
+            max="16"
+            value={spacing()}
+            onInput={(e) => {
+              const value = parseInt(e.currentTarget.value, 10);
+              if (!Number.isNaN(value) && value >= 0) setSpacing(value);
+            }}
+          />
+        </div>
+        <div class="row">
+          <label>Packing</label>
+          <select value={packStrategy()} onChange={(e) => setPackStrategy(e.currentTarget.value as PackStrategy)}>
+            <For each={PACK_STRATEGIES}>{(strategy) => <option value={strategy.id}>{strategy.label}</option>}</For>
+          </select>
+        </div>
+        <div class="row">
+          <label>Page Size</label>
+          <div class="control-group">
+            <input
+              type="number"
+              min="16"
+              max="8192"
+              list="sprite-font-page-sizes"
+              value={pageWidth()}
+              onInput={(e) => setPageWidth(parseInt(e.currentTarget.value, 10) || pageWidth())}
+            />
+            <span>×</span>
+            <input
+              type="number"
+              min="16"
+              max="8192"
+              list="sprite-font-page-sizes"
+              value={pageHeight()}
+              onInput={(e) => setPageHeight(parseInt(e.currentTarget.value, 10) || pageHeight())}
+            />
+            <datalist id="sprite-font-page-sizes">
+              <For each={PAGE_SIZES}>{(size) => <option value={size} />}</For>
+            </datalist>
+          </div>
+          <label class="checkbox">
+            <input type="checkbox" checked={powerOfTwo()} onChange={(e) => setPowerOfTwo(e.currentTarget.checked)} />
+            Power of two
+          </label>
+          <label class="checkbox">
+            <input type="checkbox" checked={squarePages()} onChange={(e) => setSquarePages(e.currentTarget.checked)} />
+            Square
+          </label>
+          <label class="checkbox">
+            <input
+              type="checkbox"
+              checked={separatePages()}
+              onChange={(e) => setSeparatePages(e.currentTarget.checked)}
+            />
+            One image per page
+          </label>
+          <Show when={pageSize().width !== pageWidth() || pageSize().height !== pageHeight()}>
+            <span class="required">
+              Pages are {pageSize().width}×{pageSize().height}
+            </span>
+          </Show>
+        </div>
+        <div class="row">
+          <label>BMFont</label>
+          <select
+            value={bmfontFormat()}
+            onChange={(e) => setBMFontFormat(e.currentTarget.value as BMFontFormat | "none")}
+          >
+            <option value="none">Don't export</option>
+            <For each={BMFONT_FORMATS}>{(format) => <option value={format.id}>{format.label} (.fnt)</option>}</For>
+          </select>
+          <span class="required">Also save an AngelCode BMFont descriptor for other engines</span>
+        </div>
         <div class="row">
           <label>Kerning</label>
           <label class="checkbox">
@@ -776,17 +991,187 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
             Include kerning pairs
           </label>
         </div>
+        <div class="row">
+          <label>Rendering</label>
+          <select
+            value={distanceField()}
+            onChange={(e) => setDistanceField(e.currentTarget.value as DistanceFieldType | "none")}
+          >
+            <option value="none">Bitmap</option>
+            <For each={DISTANCE_FIELD_TYPES}>{(type) => <option value={type.id}>{type.label}</option>}</For>
+          </select>
+          <Show when={distanceField() !== "none"}>
+            <label class="checkbox">
+              Distance range
+              <input
+                type="number"
+                min="1"
+                max="32"
+                value={distanceRange()}
+                onInput={(e) => {
+                  const value = parseInt(e.currentTarget.value, 10);
+                  if (!Number.isNaN(value) && value >= 1) setDistanceRange(value);
+                }}
+              />
+              px
+            </label>
+            <span class="required">
+              Scales cleanly in shaders and the preview; style comes from the font file, not the Style setting.
+              <Show when={glyphPadding() > padding()}> Padding is raised to {glyphPadding()}px to fit the range.</Show>
+            </span>
+          </Show>
+        </div>
         <div class="row">
           <label>Anti-aliasing</label>
           <label class="checkbox">
             <input
               type="checkbox"
               checked={antialias()}
+              disabled={distanceField() !== "none"}
               onChange={(e) => setAntialias(e.currentTarget.checked)}
             />
             Smooth edges (disable for crisp pixels)
           </label>
         </div>
+        <Show
+          when={distanceField() === "none"}
+          fallback={
+            <div class="row">
+              <label>Effects</label>
+              <span class="required">Effects apply to bitmap glyphs only.</span>
+            </div>
+          }
+        >
+          <div class="row">
+            <label>Outline</label>
+            <label class="checkbox">
+              <input
+                type="checkbox"
+                checked={outlineEnabled()}
+                onChange={(e) => setOutlineEnabled(e.currentTarget.checked)}
+              />
+              Enabled
+            </label>
+            <Show when={outlineEnabled()}>
+              <div class="control-group">
+                <input
+                  type="number"
+                  min="1"
+                  max="16"
+                  value={outlineWidth()}
+                  onInput={(e) => {
+                    const value = parseInt(e.currentTarget.value, 10);
+                    if (!Number.isNaN(value) && value >= 1) setOutlineWidth(value);
+                  }}
+                />
+                <span>px</span>
+                <input type="color" value={outlineColor()} onInput={(e) => setOutlineColor(e.currentTarget.value)} />
+              </div>
+            </Show>
+          </div>
+          <div class="row">
+            <label>Drop Shadow</label>
+            <label class="checkbox">
+              <input
+                type="checkbox"
+                checked={shadowEnabled()}
+                onChange={(e) => setShadowEnabled(e.currentTarget.checked)}
+              />
+              Enabled
+            </label>
+            <Show when={shadowEnabled()}>
+              <div class="control-group">
+                <input
+                  type="number"
+                  min="-16"
+                  max="16"
+                  value={shadowOffsetX()}
+                  onInput={(e) => {
+                    const value = parseInt(e.currentTarget.value, 10);
+                    if (!Number.isNaN(value)) setShadowOffsetX(value);
+                  }}
+                />
+                <span>×</span>
+                <input
+                  type="number"
+                  min="-16"
+                  max="16"
+                  value={shadowOffsetY()}
+                  onInput={(e) => {
+                    const value = parseInt(e.currentTarget.value, 10);
+                    if (!Number.isNaN(value)) setShadowOffsetY(value);
+                  }}
+                />
+                <span>px offset</span>
+                <input type="color" value={shadowColor()} onInput={(e) => setShadowColor(e.currentTarget.value)} />
+              </div>
+            </Show>
+          </div>
+          <div class="row">
+            <label>Gradient Fill</label>
+            <label class="checkbox">
+              <input
+                type="checkbox"
+                checked={gradientEnabled()}
+                onChange={(e) => setGradientEnabled(e.currentTarget.checked)}
+              />
+              Enabled
+            </label>
+            <Show when={gradientEnabled()}>
+              <div class="control-group">
+                <input type="color" value={gradientTop()} onInput={(e) => setGradientTop(e.currentTarget.value)} />
+                <span>to</span>
+                <input type="color" value={gradientBottom()} onInput={(e) => setGradientBottom(e.currentTarget.value)} />
+              </div>
+              <span class="required">Top to bottom of the line, the same for every glyph</span>
+            </Show>
+          </div>
+          <div class="row">
+            <label>Inner Glow</label>
+            <label class="checkbox">
+              <input
+                type="checkbox"
+                checked={innerGlowEnabled()}
+                onChange={(e) => setInnerGlowEnabled(e.currentTarget.checked)}
+              />
+              Enabled
+            </label>
+            <Show when={innerGlowEnabled()}>
+              <div class="control-group">
+                <input
+                  type="number"
+                  min="1"
+                  max="16"
+                  value={innerGlowSize()}
+                  onInput={(e) => {
+                    const value = parseInt(e.currentTarget.value, 10);
+                    if (!Number.isNaN(value) && value >= 1) setInnerGlowSize(value);
+                  }}
+                />
+                <span>px</span>
+                <input
+                  type="color"
+                  value={innerGlowColor()}
+                  onInput={(e) => setInnerGlowColor(e.currentTarget.value)}
+                />
+              </div>
+            </Show>
+          </div>
+          <Show when={glyphEffects()}>
+            <div class="row">
+              <label>Effect Colors</label>
+              <label class="checkbox">
+                <input type="checkbox" checked={colorAtlas()} onChange={(e) => setColorAtlas(e.currentTarget.checked)} />
+                Color atlas
+              </label>
+              <span class="required">
+                {colorAtlas()
+                  ? "Glyphs keep their effect colors."
+                  : "Effect colors are reduced to gray so glyphs can still be tinted."}
+              </span>
+            </div>
+          </Show>
+        </Show>
         <div class="row">
           <label>Codepoint Presets</label>
           <div class="preset-grid">
@@ -819,9 +1204,23 @@ const SpriteFontToolComponent: Component<PluginComponentProps<SpriteFontValue>>
         <div class="row stats">
           <div>Codepoints: {codepoints().length}</div>
           <div>Glyphs: {glyphCount()}</div>
-          <div>Pages: {pageCount()}</div>
+          <div>Pages: {pageStats().length}</div>
           <div>Line Height: {lineHeight()}px</div>
         </div>
+        <Show when={pageStats().length > 0}>
+          <div class="row">
+            <label>Efficiency</label>
+            <div class="control-group">
+              <For each={pageStats()}>
+                {(stats, i) => (
+                  <span title={`${stats.usedArea} px used`}>
+                    Page {i()}: {Math.round(stats.efficiency * 100)}%
+                  </span>
+                )}
+              </For>
+            </div>
+          </div>
+        </Show>
         <div class="actions">
           <button class="primary" disabled={!font() || busy()} onClick={generatePreview}>
             Refresh Preview
@@ -0,0 +1,1103 @@
+import {
+  createEffect,
+  createMemo,
+  createSignal,
+  For,
+  Index,
+  onCleanup,
+  Show,
+  type Component
+} from "solid-js";
+import type {
+  TileFrame,
+  TileObject,
+  TileObjectsAsset as BaseTileObjects,
+  TileObjectsTileset
+} from "@common/tile-objects";
+import {
+  DEFAULT_SEQUENCE,
+  EMPTY_TILE,
+  createTileObject,
+  getFrameDuration,
+  getFrameHeight,
+  getSequenceDuration,
+  resizeFrame
+} from "@common/tile-objects";
+import { isFileSelectionCancelled, MessageService } from "../../services/message-service";
+import { loadImage } from "../../services/image-loader";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+// Add index signature to satisfy AssetJson constraint
+type TileObjectsAsset = BaseTileObjects & { [key: string]: unknown };
+
+const MAX_FRAME_TILES = 32;
+const ONION_PREVIOUS_COLOR = "#ff4040";
+const ONION_NEXT_COLOR = "#40a0ff";
+const ONION_ALPHA = 0.35;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function toPositiveInt(value: string, fallback: number): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+function uniqueName(base: string, taken: string[]): string {
+  if (!taken.includes(base)) return base;
+  let n = 2;
+  while (taken.includes(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+/**
+ * Draw a frame's tiles at the given scale. Empty tiles are left transparent.
+ */
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  frame: TileFrame,
+  image: HTMLImageElement | null,
+  tileset: TileObjectsTileset,
+  scale: number
+): void {
+  if (!image) return;
+  const cellW = tileset.w * scale;
+  const cellH = tileset.h * scale;
+  const columns = Math.max(1, tileset.tilesPerRow);
+
+  frame.t.forEach((id, i) => {
+    if (id === EMPTY_TILE) return;
+    const index = id - 1;
+    const sx = (index % columns) * tileset.w;
+    const sy = Math.floor(index / columns) * tileset.h;
+    const dx = (i % frame.w) * cellW;
+    const dy = Math.floor(i / frame.w) * cellH;
+    ctx.drawImage(image, sx, sy, tileset.w, tileset.h, dx, dy, cellW, cellH);
+  });
+}
+
+/**
+ * Draw a frame as a translucent, color-tinted onion-skin layer.
+ */
+function drawOnionSkin(
+  ctx: CanvasRenderingContext2D,
+  frame: TileFrame,
+  image: HTMLImageElement | null,
+  tileset: TileObjectsTileset,
+  scale: number,
+  color: string
+): void {
+  const layer = document.createElement("canvas");
+  layer.width = ctx.canvas.width;
+  layer.height = ctx.canvas.height;
+  const layerCtx = layer.getContext("2d");
+  if (!layerCtx) return;
+
+  layerCtx.imageSmoothingEnabled = false;
+  drawFrame(layerCtx, frame, image, tileset, scale);
+  // Tint the drawn tiles while keeping their alpha mask
+  layerCtx.globalCompositeOperation = "source-atop";
+  layerCtx.fillStyle = color;
+  layerCtx.globalAlpha = 0.6;
+  layerCtx.fillRect(0, 0, layer.width, layer.height);
+
+  ctx.save();
+  ctx.globalAlpha = ONION_ALPHA;
+  ctx.drawImage(layer, 0, 0);
+  ctx.restore();
+}
+
+const FrameThumbnail: Component<{
+  frame: TileFrame;
+  image: HTMLImageElement | null;
+  tileset: TileObjectsTileset;
+  selected: boolean;
+  label: string;
+  duration: number;
+  totalDuration: number;
+  onSelect: () => void;
+}> = (props) => {
+  let canvas: HTMLCanvasElement | undefined;
+
+  createEffect(() => {
+    if (!canvas) return;
+    const { frame, tileset, image } = props;
+    canvas.width = Math.max(1, frame.w * tileset.w);
+    canvas.height = Math.max(1, getFrameHeight(frame) * tileset.h);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawFrame(ctx, frame, image, tileset, 1);
+  });
+
+  return (
+    <button
+      class="frame-thumb"
+      classList={{ selected: props.selected }}
+      onClick={() => props.onSelect()}
+      title={`Frame ${props.label} · ${props.duration}ms`}
+      style={{ "flex-grow": props.duration / Math.max(1, props.totalDuration) * 10 }}
+    >
+      <canvas ref={canvas} />
+      <span>{props.label} · {props.duration}ms</span>
+    </button>
+  );
+};
+
+const TileObjectsEditorComponent: Component<PluginComponentProps<TileObjectsAsset>> = (props) => {
+  const [image, setImage] = createSignal<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = createSignal<string | null>(null);
+  const [objectIndex, setObjectIndex] = createSignal(0);
+  const [sequenceName, setSequenceName] = createSignal(DEFAULT_SEQUENCE);
+  const [frameIndex, setFrameIndex] = createSignal(0);
+  const [selectedTile, setSelectedTile] = createSignal(1);
+  const [newSequenceName, setNewSequenceName] = createSignal("");
+  const [zoom, setZoom] = createSignal(4);
+  const [paletteZoom, setPaletteZoom] = createSignal(2);
+  const [playing, setPlaying] = createSignal(false);
+  const [loop, setLoop] = createSignal(true);
+  const [onionSkin, setOnionSkin] = createSignal(false);
+  // Track canvases reactively so first draw happens when they mount
+  const [frameCanvas, setFrameCanvas] = createSignal<HTMLCanvasElement | null>(null);
+  const [paletteCanvas, setPaletteCanvas] = createSignal<HTMLCanvasElement | null>(null);
+
+  const current = (): TileObjectsAsset => {
+    const tileset = props.value.tileset ?? ({} as Partial<TileObjectsTileset>);
+    const objects = Array.isArray(props.value.objects) && props.value.objects.length > 0
+      ? props.value.objects
+      : [createTileObject("object")];
+    return {
+      ...props.value,
+      type: "tileobjects",
+      tileset: {
+        path: tileset.path ?? "",
+        w: typeof tileset.w === "number" ? tileset.w : 16,
+        h: typeof tileset.h === "number" ? tileset.h : 16,
+        tilesPerRow: Number(tileset.tilesPerRow) || 16
+      },
+      objects
+    };
+  };
+
+  const update = (patch: Partial<TileObjectsAsset>) => {
+    props.onChange({ ...current(), ...patch });
+  };
+
+  const tileset = () => current().tileset;
+  const object = (): TileObject => {
+    const objects = current().objects;
+    return objects[clamp(objectIndex(), 0, objects.length - 1)];
+  };
+  const sequenceNames = () => Object.keys(object().sequences);
+  const activeSequenceName = () =>
+    object().sequences[sequenceName()] ? sequenceName() : sequenceNames()[0] ?? DEFAULT_SEQUENCE;
+  const sequence = (): TileFrame[] => object().sequences[activeSequenceName()] ?? [];
+  const activeFrameIndex = () => clamp(frameIndex(), 0, Math.max(0, sequence().length - 1));
+  const frame = (): TileFrame | undefined => sequence()[activeFrameIndex()];
+
+  // ===== Immutable update helpers =====
+
+  const updateObject = (fn: (obj: TileObject) => TileObject) => {
+    const target = object();
+    update({ objects: current().objects.map((obj) => (obj === target ? fn(obj) : obj)) });
+  };
+
+  const updateSequence = (fn: (frames: TileFrame[]) => TileFrame[]) => {
+    const name = activeSequenceName();
+    updateObject((obj) => ({
+      ...obj,
+      sequences: { ...obj.sequences, [name]: fn(obj.sequences[name] ?? []) }
+    }));
+  };
+
+  const updateFrame = (fn: (f: TileFrame) => TileFrame) => {
+    const index = activeFrameIndex();
+    updateSequence((frames) => frames.map((f, i) => (i === index ? fn(f) : f)));
+  };
+
+  // ===== Tileset image =====
+
+  // Memoized so unrelated edits don't trigger an image reload
+  const imagePath = createMemo(() => tileset().path);
+  let loadToken = 0;
+  createEffect(() => {
+    const path = imagePath();
+    const token = ++loadToken;
+    setImage(null);
+    setLoadError(null);
+    if (!path) return;
+    loadImage(path)
+      .then((img) => {
+        if (token === loadToken) setImage(img);
+      })
+      .catch((err) => {
+        if (token === loadToken) {
+          setLoadError(err instanceof Error ? err.message : "Failed to load tileset image");
+        }
+      });
+  });
+
+  const paletteRows = () => {
+    const img = image();
+    return img && tileset().h > 0 ? Math.floor(img.naturalHeight / tileset().h) : 0;
+  };
+
+  const browseForImage = async () => {
+    let paths: string[];
+    try {
+      paths = await MessageService.instance.pickFile({
+        openLabel: "Select Tileset Image",
+        filters: { Images: ["png", "gif", "bmp", "webp"] }
+      });
+    } catch (err) {
+      if (!isFileSelectionCancelled(err)) {
+        setLoadError(err instanceof Error ? err.message : "Failed to select tileset image");
+      }
+      return;
+    }
+    if (paths.length > 0) {
+      update({ tileset: { ...tileset(), path: paths[0] } });
+    }
+  };
+
+  // ===== Objects =====
+
+  const addObject = () => {
+    const objects = current().objects;
+    const name = uniqueName("object", objects.map((o) => o.name));
+    update({ objects: [...objects, createTileObject(name)] });
+    setObjectIndex(objects.length);
+    setSequenceName(DEFAULT_SEQUENCE);
+    setFrameIndex(0);
+  };
+
+  const removeObject = () => {
+    const objects = current().objects;
+    if (objects.length <= 1) return;
+    const target = object();
+    update({ objects: objects.filter((o) => o !== target) });
+    setObjectIndex(clamp(objectIndex(), 0, objects.length - 2));
+  };
+
+  const renameObject = (name: string) => {
+    if (!name.trim()) return;
+    updateObject((obj) => ({ ...obj, name: name.trim() }));
+  };
+
+  // ===== Sequences =====
+
+  const addSequence = () => {
+    const name = newSequenceName().trim();
+    if (!name) return;
+    if (object().sequences[name]) {
+      MessageService.instance.showNotification("warning", `Sequence "${name}" already exists.`);
+      return;
+    }
+    const template = frame();
+    const blank = resizeFrame({ w: 1, t: [] }, template?.w ?? 2, template ? getFrameHeight(template) : 2);
+    updateObject((obj) => ({ ...obj, sequences: { ...obj.sequences, [name]: [blank] } }));
+    setSequenceName(name);
+    setFrameIndex(0);
+    setNewSequenceName("");
+  };
+
+  const removeSequence = () => {
+    const name = activeSequenceName();
+    if (name === DEFAULT_SEQUENCE) return;
+    updateObject((obj) => {
+      const { [name]: _removed, ...rest } = obj.sequences;
+      return { ...obj, sequences: rest };
+    });
+    setSequenceName(DEFAULT_SEQUENCE);
+    setFrameIndex(0);
+  };
+
+  const renameSequence = (next: string) => {
+    const name = activeSequenceName();
+    const trimmed = next.trim();
+    if (!trimmed || trimmed === name || name === DEFAULT_SEQUENCE) return;
+    if (object().sequences[trimmed]) {
+      MessageService.instance.showNotification("warning", `Sequence "${trimmed}" already exists.`);
+      return;
+    }
+    // Rebuild the record to keep the sequence's position
+    updateObject((obj) => ({
+      ...obj,
+      sequences: Object.fromEntries(
+        Object.entries(obj.sequences).map(([key, frames]) => [key === name ? trimmed : key, frames])
+      )
+    }));
+    setSequenceName(trimmed);
+  };
+
+  // ===== Frames =====
+
+  const addFrame = () => {
+    const template = frame();
+    const blank = resizeFrame(
+      { w: 1, t: [], d: template?.d },
+      template?.w ?? 2,
+      template ? getFrameHeight(template) : 2
+    );
+    updateSequence((frames) => [...frames, blank]);
+    setFrameIndex(sequence().length - 1);
+  };
+
+  const duplicateFrame = () => {
+    const source = frame();
+    if (!source) return;
+    const index = activeFrameIndex();
+    updateSequence((frames) => [
+      ...frames.slice(0, index + 1),
+      { ...source, t: [...source.t] },
+      ...frames.slice(index + 1)
+    ]);
+    setFrameIndex(index + 1);
+  };
+
+  const removeFrame = () => {
+    if (sequence().length <= 1) return;
+    const index = activeFrameIndex();
+    updateSequence((frames) => frames.filter((_, i) => i !== index));
+    setFrameIndex(Math.max(0, index - 1));
+  };
+
+  const moveFrame = (delta: number) => {
+    const index = activeFrameIndex();
+    const target = index + delta;
+    if (target < 0 || target >= sequence().length) return;
+    updateSequence((frames) => {
+      const next = [...frames];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setFrameIndex(target);
+  };
+
+  const setFrameDuration = (duration: number) => {
+    updateFrame((source) => ({ ...source, d: Math.max(1, Math.round(duration)) }));
+  };
+
+  const resizeActiveFrame = (width: number, height: number) => {
+    const f = frame();
+    if (!f) return;
+    updateFrame((source) =>
+      resizeFrame(source, clamp(width, 1, MAX_FRAME_TILES), clamp(height, 1, MAX_FRAME_TILES))
+    );
+  };
+
+  // ===== Playback =====
+
+  let animationFrame: number | null = null;
+  let lastTimestamp = 0;
+  let elapsed = 0;
+
+  const stopPlayback = () => {
+    if (animationFrame !== null) {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = null;
+    }
+    setPlaying(false);
+  };
+
+  const tick = (timestamp: number) => {
+    elapsed += timestamp - lastTimestamp;
+    lastTimestamp = timestamp;
+
+    const frames = sequence();
+    let index = activeFrameIndex();
+    // Advance as many frames as the elapsed time covers
+    while (frames.length > 0 && elapsed >= getFrameDuration(frames[index])) {
+      elapsed -= getFrameDuration(frames[index]);
+      if (index + 1 < frames.length) {
+        index++;
+      } else if (loop()) {
+        index = 0;
+      } else {
+        setFrameIndex(index);
+        stopPlayback();
+        return;
+      }
+    }
+    setFrameIndex(index);
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  const startPlayback = () => {
+    if (playing() || sequence().length === 0) return;
+    // Restart from the beginning when a non-looping sequence already finished
+    if (!loop() && activeFrameIndex() >= sequence().length - 1) {
+      setFrameIndex(0);
+    }
+    elapsed = 0;
+    lastTimestamp = performance.now();
+    setPlaying(true);
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  const togglePlayback = () => (playing() ? stopPlayback() : startPlayback());
+
+  onCleanup(stopPlayback);
+
+  // ===== Painting =====
+
+  let paintButton: number | null = null;
+
+  const cellFromEvent = (event: PointerEvent): number | null => {
+    const f = frame();
+    if (!f) return null;
+    const col = Math.floor(event.offsetX / (tileset().w * zoom()));
+    const row = Math.floor(event.offsetY / (tileset().h * zoom()));
+    if (col < 0 || col >= f.w || row < 0 || row >= getFrameHeight(f)) return null;
+    return row * f.w + col;
+  };
+
+  const paintAt = (event: PointerEvent) => {
+    const cell = cellFromEvent(event);
+    const f = frame();
+    if (cell === null || !f) return;
+
+    if (event.altKey) {
+      // Eyedropper
+      setSelectedTile(f.t[cell] ?? EMPTY_TILE);
+      return;
+    }
+
+    const tile = paintButton === 2 ? EMPTY_TILE : selectedTile();
+    if (f.t[cell] === tile) return;
+    updateFrame((source) => {
+      const t = [...source.t];
+      t[cell] = tile;
+      return { ...source, t };
+    });
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (event.button !== 0 && event.button !== 2) return;
+    stopPlayback();
+    (event.currentTarget as HTMLCanvasElement).setPointerCapture(event.pointerId);
+    paintButton = event.button;
+    paintAt(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (paintButton !== null) paintAt(event);
+  };
+
+  const handlePointerUp = () => {
+    paintButton = null;
+  };
+
+  const handlePaletteClick = (event: MouseEvent) => {
+    const ts = tileset();
+    const col = Math.floor(event.offsetX / (ts.w * paletteZoom()));
+    const row = Math.floor(event.offsetY / (ts.h * paletteZoom()));
+    if (col < 0 || col >= ts.tilesPerRow || row < 0 || row >= paletteRows()) return;
+    setSelectedTile(row * ts.tilesPerRow + col + 1);
+  };
+
+  // ===== Rendering =====
+
+  createEffect(() => {
+    const canvas = frameCanvas();
+    const f = frame();
+    if (!canvas || !f) return;
+    const ts = tileset();
+    const scale = zoom();
+    const cellW = ts.w * scale;
+    const cellH = ts.h * scale;
+    const rows = getFrameHeight(f);
+
+    canvas.width = f.w * cellW;
+    canvas.height = rows * cellH;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const frames = sequence();
+    const index = activeFrameIndex();
+    if (onionSkin() && !playing() && frames.length > 1) {
+      const wrap = loop();
+      const previous = index > 0 ? frames[index - 1] : wrap ? frames[frames.length - 1] : undefined;
+      const next = index < frames.length - 1 ? frames[index + 1] : wrap ? frames[0] : undefined;
+      if (previous) drawOnionSkin(ctx, previous, image(), ts, scale, ONION_PREVIOUS_COLOR);
+      if (next) drawOnionSkin(ctx, next, image(), ts, scale, ONION_NEXT_COLOR);
+    }
+
+    drawFrame(ctx, f, image(), ts, scale);
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.3)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let col = 0; col <= f.w; col++) {
+      ctx.moveTo(col * cellW + 0.5, 0);
+      ctx.lineTo(col * cellW + 0.5, canvas.height);
+    }
+    for (let row = 0; row <= rows; row++) {
+      ctx.moveTo(0, row * cellH + 0.5);
+      ctx.lineTo(canvas.width, row * cellH + 0.5);
+    }
+    ctx.stroke();
+  });
+
+  createEffect(() => {
+    const canvas = paletteCanvas();
+    const img = image();
+    if (!canvas || !img) return;
+    const ts = tileset();
+    const scale = paletteZoom();
+
+    canvas.width = img.naturalWidth * scale;
+    canvas.height = img.naturalHeight * scale;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const tile = selectedTile();
+    if (tile !== EMPTY_TILE) {
+      const index = tile - 1;
+      const x = (index % ts.tilesPerRow) * ts.w * scale;
+      const y = Math.floor(index / ts.tilesPerRow) * ts.h * scale;
+      ctx.strokeStyle = "#ffcc00";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x + 1, y + 1, ts.w * scale - 2, ts.h * scale - 2);
+    }
+  });
+
+  return (
+    <div class="tile-objects-editor">
+      <style nonce={props.nonce}>{styles}</style>
+
+      <aside class="sidebar">
+        <section class="panel">
+          <h3>Tileset</h3>
+          <label class="field">
+            <span>Image</span>
+            <div class="input-with-button">
+              <input
+                value={tileset().path}
+                placeholder="e.g., ../images/tiles.png"
+                onChange={(e) => update({ tileset: { ...tileset(), path: e.currentTarget.value.trim() } })}
+              />
+              <button class="secondary" onClick={browseForImage}>Browse...</button>
+            </div>
+          </label>
+          <div class="field-row">
+            <label class="field">
+              <span>Tile W</span>
+              <input
+                type="number"
+                min="1"
+                value={tileset().w}
+                onInput={(e) => update({ tileset: { ...tileset(), w: toPositiveInt(e.currentTarget.value, tileset().w) } })}
+              />
+            </label>
+            <label class="field">
+              <span>Tile H</span>
+              <input
+                type="number"
+                min="1"
+                value={tileset().h}
+                onInput={(e) => update({ tileset: { ...tileset(), h: toPositiveInt(e.currentTarget.value, tileset().h) } })}
+              />
+            </label>
+            <label class="field">
+              <span>Per Row</span>
+              <input
+                type="number"
+                min="1"
+                value={tileset().tilesPerRow}
+                onInput={(e) =>
+                  update({ tileset: { ...tileset(), tilesPerRow: toPositiveInt(e.currentTarget.value, tileset().tilesPerRow) } })
+                }
+              />
+            </label>
+          </div>
+        </section>
+
+        <section class="panel">
+          <h3>Objects</h3>
+          <ul class="list">
+            <For each={current().objects}>
+              {(obj, i) => (
+                <li>
+                  <button
+                    class="list-item"
+                    classList={{ selected: obj === object() }}
+                    onClick={() => {
+                      stopPlayback();
+                      setObjectIndex(i());
+                      setSequenceName(DEFAULT_SEQUENCE);
+                      setFrameIndex(0);
+                    }}
+                  >
+                    {obj.name}
+                  </button>
+                </li>
+              )}
+            </For>
+          </ul>
+          <label class="field">
+            <span>Name</span>
+            <input value={object().name} onChange={(e) => renameObject(e.currentTarget.value)} />
+          </label>
+          <div class="button-row">
+            <button class="secondary" onClick={addObject}>Add</button>
+            <button class="secondary" disabled={current().objects.length <= 1} onClick={removeObject}>
+              Remove
+            </button>
+          </div>
+        </section>
+
+        <section class="panel">
+          <h3>Sequences</h3>
+          <ul class="list">
+            <For each={sequenceNames()}>
+              {(name) => (
+                <li>
+                  <button
+                    class="list-item"
+                    classList={{ selected: name === activeSequenceName() }}
+                    onClick={() => {
+                      stopPlayback();
+                      setSequenceName(name);
+                      setFrameIndex(0);
+                    }}
+                  >
+                    {name}
+                    <small>{object().sequences[name]?.length ?? 0} frames</small>
+                  </button>
+                </li>
+              )}
+            </For>
+          </ul>
+          <label class="field">
+            <span>Name</span>
+            <input
+              value={activeSequenceName()}
+              disabled={activeSequenceName() === DEFAULT_SEQUENCE}
+              onChange={(e) => renameSequence(e.currentTarget.value)}
+            />
+          </label>
+          <div class="input-with-button">
+            <input
+              value={newSequenceName()}
+              placeholder="New sequence name"
+              onInput={(e) => setNewSequenceName(e.currentTarget.value)}
+              onKeyDown={(e) => e.key === "Enter" && addSequence()}
+            />
+            <button class="secondary" disabled={!newSequenceName().trim()} onClick={addSequence}>Add</button>
+          </div>
+          <button
+            class="secondary"
+            disabled={activeSequenceName() === DEFAULT_SEQUENCE}
+            onClick={removeSequence}
+          >
+            Remove Sequence
+          </button>
+        </section>
+      </aside>
+
+      <section class="workspace">
+        <Show when={loadError()}>
+          <div class="error-box">{loadError()}</div>
+        </Show>
+        <Show when={!imagePath()}>
+          <div class="hint-box">Select a tileset image to start painting tiles.</div>
+        </Show>
+
+        <div class="panel">
+          <div class="toolbar-row">
+            <strong>Timeline</strong>
+            <button class="secondary" onClick={addFrame}>Add</button>
+            <button class="secondary" onClick={duplicateFrame}>Duplicate</button>
+            <button class="secondary" disabled={sequence().length <= 1} onClick={removeFrame}>Remove</button>
+            <button class="secondary" disabled={activeFrameIndex() === 0} onClick={() => moveFrame(-1)}>◀</button>
+            <button
+              class="secondary"
+              disabled={activeFrameIndex() >= sequence().length - 1}
+              onClick={() => moveFrame(1)}
+            >
+              ▶
+            </button>
+          </div>
+          <div class="frame-strip">
+            <Index each={sequence()}>
+              {(f, i) => (
+                <FrameThumbnail
+                  frame={f()}
+                  image={image()}
+                  tileset={tileset()}
+                  selected={i === activeFrameIndex()}
+                  label={`${i + 1}`}
+                  duration={getFrameDuration(f())}
+                  totalDuration={getSequenceDuration(sequence())}
+                  onSelect={() => {
+                    stopPlayback();
+                    setFrameIndex(i);
+                  }}
+                />
+              )}
+            </Index>
+          </div>
+          <div class="toolbar-row">
+            <button class="secondary" onClick={togglePlayback}>
+              {playing() ? "Pause" : "Play"}
+            </button>
+            <label class="checkbox">
+              <input type="checkbox" checked={loop()} onChange={(e) => setLoop(e.currentTarget.checked)} />
+              Loop
+            </label>
+            <label class="checkbox">
+              <input
+                type="checkbox"
+                checked={onionSkin()}
+                onChange={(e) => setOnionSkin(e.currentTarget.checked)}
+              />
+              Onion skin
+            </label>
+            <Show when={frame()}>
+              {(f) => (
+                <label>
+                  Duration
+                  <input
+                    type="number"
+                    min="1"
+                    step="10"
+                    value={getFrameDuration(f())}
+                    disabled={playing()}
+                    onInput={(e) => setFrameDuration(toPositiveInt(e.currentTarget.value, getFrameDuration(f())))}
+                  />
+                  ms
+                </label>
+              )}
+            </Show>
+            <span class="hint">
+              Frame {activeFrameIndex() + 1}/{sequence().length} · Total {getSequenceDuration(sequence())}ms
+            </span>
+          </div>
+        </div>
+
+        <Show when={frame()}>
+          {(f) => (
+            <div class="panel">
+              <div class="toolbar-row">
+                <label>
+                  Width
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_FRAME_TILES}
+                    value={f().w}
+                    onInput={(e) => resizeActiveFrame(toPositiveInt(e.currentTarget.value, f().w), getFrameHeight(f()))}
+                  />
+                </label>
+                <label>
+                  Height
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_FRAME_TILES}
+                    value={getFrameHeight(f())}
+                    onInput={(e) => resizeActiveFrame(f().w, toPositiveInt(e.currentTarget.value, getFrameHeight(f())))}
+                  />
+                </label>
+                <label>
+                  Zoom: {zoom()}x
+                  <input
+                    type="range"
+                    min="1"
+                    max="12"
+                    value={zoom()}
+                    onInput={(e) => setZoom(parseInt(e.currentTarget.value, 10))}
+                  />
+                </label>
+                <span class="hint">Left: paint · Right: erase · Alt: pick</span>
+              </div>
+              <div class="canvas-panel">
+                <canvas
+                  ref={(el) => setFrameCanvas(el)}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  onContextMenu={(e) => e.preventDefault()}
+                />
+              </div>
+            </div>
+          )}
+        </Show>
+
+        <Show when={image()}>
+          <div class="panel">
+            <div class="toolbar-row">
+              <strong>Palette</strong>
+              <button
+                class="secondary"
+                classList={{ active: selectedTile() === EMPTY_TILE }}
+                onClick={() => setSelectedTile(EMPTY_TILE)}
+              >
+                Eraser
+              </button>
+              <span class="hint">
+                {selectedTile() === EMPTY_TILE ? "Empty tile" : `Tile #${selectedTile() - 1}`}
+              </span>
+              <label>
+                Zoom: {paletteZoom()}x
+                <input
+                  type="range"
+                  min="1"
+                  max="6"
+                  value={paletteZoom()}
+                  onInput={(e) => setPaletteZoom(parseInt(e.currentTarget.value, 10))}
+                />
+              </label>
+            </div>
+            <div class="canvas-panel palette">
+              <canvas ref={(el) => setPaletteCanvas(el)} onClick={handlePaletteClick} />
+            </div>
+          </div>
+        </Show>
+      </section>
+    </div>
+  );
+};
+
+const styles = `
+.tile-objects-editor {
+  display: flex;
+  gap: 1rem;
+  align-items: flex-start;
+  color: var(--vscode-editor-foreground);
+}
+
+.tile-objects-editor .sidebar {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  width: 260px;
+  flex-shrink: 0;
+}
+
+.tile-objects-editor .workspace {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  flex: 1;
+  min-width: 0;
+}
+
+.tile-objects-editor .panel {
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  padding: 0.75rem;
+  background: var(--vscode-editorWidget-background);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 6px;
+}
+
+.tile-objects-editor h3 {
+  margin: 0;
+  font-size: 0.95rem;
+}
+
+.tile-objects-editor .field {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  flex: 1;
+  min-width: 0;
+}
+
+.tile-objects-editor .field-row,
+.tile-objects-editor .button-row,
+.tile-objects-editor .input-with-button {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.tile-objects-editor .input-with-button input {
+  flex: 1;
+}
+
+.tile-objects-editor input[type="number"],
+.tile-objects-editor input:not([type]) {
+  background: var(--vscode-input-background);
+  border: 1px solid var(--vscode-input-border);
+  color: var(--vscode-input-foreground);
+  padding: 0.3rem 0.45rem;
+  border-radius: 4px;
+  min-width: 0;
+}
+
+.tile-objects-editor .toolbar-row input[type="number"] {
+  width: 4rem;
+  margin-left: 0.35rem;
+}
+
+.tile-objects-editor button.secondary {
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+  border: 1px solid var(--vscode-button-border, transparent);
+  border-radius: 4px;
+  padding: 0.3rem 0.65rem;
+  cursor: pointer;
+  white-space: nowrap;
+}
+
+.tile-objects-editor button.secondary:hover:not(:disabled) {
+  background: var(--vscode-button-secondaryHoverBackground);
+}
+
+.tile-objects-editor button.active {
+  outline: 2px solid var(--vscode-focusBorder);
+}
+
+.tile-objects-editor button:disabled,
+.tile-objects-editor input:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.tile-objects-editor .list {
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 180px;
+  overflow-y: auto;
+}
+
+.tile-objects-editor .list-item {
+  display: flex;
+  justify-content: space-between;
+  width: 100%;
+  padding: 0.3rem 0.5rem;
+  background: transparent;
+  color: var(--vscode-foreground);
+  border: none;
+  border-radius: 3px;
+  text-align: left;
+  cursor: pointer;
+}
+
+.tile-objects-editor .list-item:hover {
+  background: var(--vscode-list-hoverBackground);
+}
+
+.tile-objects-editor .list-item.selected {
+  background: var(--vscode-list-activeSelectionBackground);
+  color: var(--vscode-list-activeSelectionForeground);
+}
+
+.tile-objects-editor .list-item small {
+  opacity: 0.7;
+}
+
+.tile-objects-editor .toolbar-row {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  flex-wrap: wrap;
+}
+
+.tile-objects-editor .toolbar-row label {
+  display: flex;
+  align-items: center;
+  gap: 0.35rem;
+}
+
+.tile-objects-editor .hint {
+  color: var(--vscode-descriptionForeground);
+  font-size: 0.85rem;
+}
+
+.tile-objects-editor .frame-strip {
+  display: flex;
+  gap: 0.5rem;
+  overflow-x: auto;
+  padding-bottom: 0.25rem;
+}
+
+.tile-objects-editor .frame-thumb {
+  flex: 1 0 auto;
+  min-width: 64px;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 0.25rem;
+  padding: 0.35rem;
+  background: var(--vscode-editor-background);
+  color: var(--vscode-foreground);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 4px;
+  cursor: pointer;
+}
+
+.tile-objects-editor .frame-thumb.selected {
+  border-color: var(--vscode-focusBorder);
+}
+
+.tile-objects-editor .frame-thumb canvas {
+  width: 48px;
+  height: 48px;
+  object-fit: contain;
+  image-rendering: pixelated;
+}
+
+.tile-objects-editor .canvas-panel {
+  overflow: auto;
+  max-height: 60vh;
+  padding: 0.5rem;
+  border-radius: 4px;
+  background-color: #2b2b2b;
+  background-image:
+    linear-gradient(45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(-45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(45deg, transparent 75%, #3a3a3a 75%),
+    linear-gradient(-45deg, transparent 75%, #3a3a3a 75%);
+  background-size: 16px 16px;
+  background-position: 0 0, 0 8px, 8px -8px, -8px 0;
+}
+
+.tile-objects-editor .canvas-panel.palette {
+  max-height: 40vh;
+}
+
+.tile-objects-editor canvas {
+  display: block;
+  image-rendering: pixelated;
+  cursor: crosshair;
+}
+
+.tile-objects-editor .error-box,
+.tile-objects-editor .hint-box {
+  padding: 0.75rem;
+  border-radius: 6px;
+  background: var(--vscode-inputValidation-errorBackground);
+  border: 1px solid var(--vscode-inputValidation-errorBorder);
+  color: var(--vscode-inputValidation-errorForeground);
+}
+
+.tile-objects-editor .hint-box {
+  background: var(--vscode-inputValidation-infoBackground);
+  border-color: var(--vscode-inputValidation-infoBorder);
+  color: var(--vscode-inputValidation-infoForeground);
+}
+`;
+
+export const tileObjectsEditorPlugin: WebviewAssetPlugin<TileObjectsAsset> = {
+  metadata: {
+    type: "tileobjects",
+    title: "Tile Objects",
+    description: "Compose metasprites from tileset tiles"
+  },
+  Component: TileObjectsEditorComponent
+};
@@ -0,0 +1,1028 @@
+import { createEffect, createMemo, createSignal, For, Index, onCleanup, Show, type Component } from "solid-js";
+import type { TerrainRuleSet } from "@common/autotile";
+import { applyTerrain } from "@common/autotile";
+import type { TilemapAsset as BaseTilemap, TilemapLayer, TilesetReference } from "@common/tilemap";
+import {
+  createLayer,
+  createLayerData,
+  flipTileValue,
+  getFillCells,
+  getRectCells,
+  getTileFlags,
+  getTileId,
+  getTileTransform,
+  makeTileValue,
+  resizeLayerData,
+  rotateTileValue,
+  setCells,
+  TILE_FLIP_D,
+  TILE_FLIP_H,
+  TILE_FLIP_V
+} from "@common/tilemap";
+import { getAnimatedTile, getTileCount, getTileRect, getTileRows, hasAnimatedTiles } from "@common/tileset";
+import { isFileSelectionCancelled, MessageService } from "../../services/message-service";
+import { loadTilesetReference, type LoadedTileset } from "../../services/tileset-loader";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+// Add index signature to satisfy AssetJson constraint
+type TilemapAsset = BaseTilemap & { [key: string]: unknown };
+
+type Tool = "brush" | "rect" | "fill" | "eraser";
+
+const TOOLS: Array<{ id: Tool; label: string }> = [
+  { id: "brush", label: "Brush" },
+  { id: "rect", label: "Rectangle" },
+  { id: "fill", label: "Fill" },
+  { id: "eraser", label: "Eraser" }
+];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const MAX_MAP_TILES = 1024;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function toPositiveInt(value: string, fallback: number): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+function uniqueName(base: string, taken: string[]): string {
+  if (!taken.includes(base)) return base;
+  let n = 2;
+  while (taken.includes(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+function describeFlags(value: number): string {
+  const flags = getTileFlags(value);
+  const parts = [
+    flags & TILE_FLIP_H ? "H" : "",
+    flags & TILE_FLIP_V ? "V" : "",
+    flags & TILE_FLIP_D ? "D" : ""
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (flip ${parts.join("")})` : "";
+}
+
+/**
+ * Draw a single tile value into a destination cell, applying its orientation flags.
+ * Animated tiles show the frame for the given time in milliseconds.
+ */
+function drawTile(
+  ctx: CanvasRenderingContext2D,
+  tileset: LoadedTileset,
+  value: number,
+  dx: number,
+  dy: number,
+  dw: number,
+  dh: number,
+  time = 0
+): void {
+  const id = getTileId(value);
+  if (id === 0) return;
+  const src = getTileRect(tileset.asset, getAnimatedTile(tileset.asset, id - 1, time));
+  const flags = getTileFlags(value);
+
+  if (flags === 0) {
+    ctx.drawImage(tileset.image, src.x, src.y, src.width, src.height, dx, dy, dw, dh);
+    return;
+  }
+
+  const [a, b, c, d] = getTileTransform(flags);
+  // A diagonal flip swaps the axes, so draw with swapped extents to fill the cell
+  const [w, h] = flags & TILE_FLIP_D ? [dh, dw] : [dw, dh];
+  ctx.save();
+  ctx.translate(dx + dw / 2, dy + dh / 2);
+  ctx.transform(a, b, c, d, 0, 0);
+  ctx.drawImage(tileset.image, src.x, src.y, src.width, src.height, -w / 2, -h / 2, w, h);
+  ctx.restore();
+}
+
+const TilemapEditorComponent: Component<PluginComponentProps<TilemapAsset>> = (props) => {
+  const [layerIndex, setLayerIndex] = createSignal(0);
+  const [tool, setTool] = createSignal<Tool>("brush");
+  const [brush, setBrush] = createSignal(1);
+  const [zoom, setZoom] = createSignal(2);
+  const [paletteZoom, setPaletteZoom] = createSignal(2);
+  const [showGrid, setShowGrid] = createSignal(true);
+  const [animate, setAnimate] = createSignal(true);
+  const [clock, setClock] = createSignal(0);
+  const [hoveredCell, setHoveredCell] = createSignal<{ x: number; y: number } | null>(null);
+  // Index into the active tileset's terrains; -1 paints raw tiles
+  const [terrainIndex, setTerrainIndex] = createSignal(-1);
+  const [rectDrag, setRectDrag] = createSignal<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const [tilesets, setTilesets] = createSignal<Record<string, LoadedTileset>>({});
+  const [tilesetErrors, setTilesetErrors] = createSignal<Record<string, string>>({});
+  const [browseError, setBrowseError] = createSignal<string | null>(null);
+  // Track canvases reactively so first draw happens when they mount
+  const [mapCanvas, setMapCanvas] = createSignal<HTMLCanvasElement | null>(null);
+  const [paletteCanvas, setPaletteCanvas] = createSignal<HTMLCanvasElement | null>(null);
+  const [brushCanvas, setBrushCanvas] = createSignal<HTMLCanvasElement | null>(null);
+
+  const current = (): TilemapAsset => {
+    const w = typeof props.value.w === "number" ? props.value.w : 32;
+    const h = typeof props.value.h === "number" ? props.value.h : 18;
+    const layers = Array.isArray(props.value.layers) && props.value.layers.length > 0
+      ? props.value.layers
+      : [createLayer("ground", w, h)];
+    return {
+      ...props.value,
+      type: "tilemap",
+      w,
+      h,
+      tw: typeof props.value.tw === "number" ? props.value.tw : 16,
+      th: typeof props.value.th === "number" ? props.value.th : 16,
+      // Only rebuild malformed layers so valid ones keep their identity
+      layers: layers.map((layer) =>
+        Array.isArray(layer.data) && layer.tileset && typeof layer.visible === "boolean"
+          ? layer
+          : {
+              name: layer.name ?? "layer",
+              tileset: layer.tileset ?? {},
+              visible: layer.visible !== false,
+              data: Array.isArray(layer.data) ? layer.data : createLayerData(w, h)
+            }
+      )
+    };
+  };
+
+  const update = (patch: Partial<TilemapAsset>) => {
+    props.onChange({ ...current(), ...patch });
+  };
+
+  const activeLayerIndex = () => clamp(layerIndex(), 0, current().layers.length - 1);
+  const layer = (): TilemapLayer => current().layers[activeLayerIndex()];
+
+  const updateLayer = (index: number, fn: (layer: TilemapLayer) => TilemapLayer) => {
+    update({ layers: current().layers.map((l, i) => (i === index ? fn(l) : l)) });
+  };
+
+  // ===== Tilesets =====
+
+  // Tilesets are cached per reference; gid references are keyed by gid so they survive moves
+  const referenceKey = (ref: TilesetReference): string => (ref.gid ? `gid:${ref.gid}` : ref.path ?? "");
+
+  // Memoized on the joined reference list so painting doesn't retrigger loading
+  const tilesetReferences = createMemo(() => {
+    const refs = new Map<string, TilesetReference>();
+    for (const l of current().layers) {
+      const key = referenceKey(l.tileset);
+      if (key) refs.set(key, { path: l.tileset.path, gid: l.tileset.gid });
+    }
+    return JSON.stringify(Array.from(refs.values()));
+  });
+
+  const pending = new Set<string>();
+  const requestTileset = (ref: TilesetReference): Promise<LoadedTileset> => {
+    const key = referenceKey(ref);
+    pending.add(key);
+    return loadTilesetReference(ref)
+      .then((loaded) => {
+        setTilesets((prev) => ({ ...prev, [key]: loaded }));
+        setTilesetErrors(({ [key]: _cleared, ...rest }) => rest);
+        return loaded;
+      })
+      .catch((err) => {
+        setTilesetErrors((prev) => ({
+          ...prev,
+          [key]: err instanceof Error ? err.message : `Failed to load tileset ${ref.path ?? ref.gid}`
+        }));
+        throw err;
+      })
+      .finally(() => pending.delete(key));
+  };
+
+  createEffect(() => {
+    const refs = JSON.parse(tilesetReferences()) as TilesetReference[];
+    for (const ref of refs) {
+      const key = referenceKey(ref);
+      if (tilesets()[key] || tilesetErrors()[key] || pending.has(key)) continue;
+      requestTileset(ref).catch(() => {
+        // Reported through tilesetErrors
+      });
+    }
+  });
+
+  const tilesetFor = (l: TilemapLayer): LoadedTileset | undefined => tilesets()[referenceKey(l.tileset)];
+
+  const activeTileset = () => tilesetFor(layer());
+  const terrains = (): TerrainRuleSet[] => activeTileset()?.asset.terrains ?? [];
+  const activeTerrain = (): TerrainRuleSet | undefined =>
+    terrainIndex() >= 0 ? terrains()[terrainIndex()] : undefined;
+
+  const tilesetStatus = (l: TilemapLayer): string | null => {
+    const key = referenceKey(l.tileset);
+    if (!key) return "No tileset selected for this layer.";
+    const error = tilesetErrors()[key];
+    if (error) return error;
+    // The gid found the tileset somewhere other than the stored path
+    const loaded = tilesets()[key];
+    if (loaded && l.tileset.path !== undefined && loaded.path !== l.tileset.path) {
+      return `Tileset moved to ${loaded.path}; resolved by gid.`;
+    }
+    return null;
+  };
+
+  const setLayerTileset = async (index: number, path: string) => {
+    if (!path) {
+      updateLayer(index, (l) => ({ ...l, tileset: {} }));
+      return;
+    }
+    // Clear cached state so the tileset is re-read after the path is edited
+    setTilesetErrors(({ [path]: _cleared, ...rest }) => rest);
+    try {
+      const loaded = await requestTileset({ path });
+      // Store the gid too, so the reference survives the tileset file moving
+      const tileset: TilesetReference = loaded.asset.gid ? { path, gid: loaded.asset.gid } : { path };
+      const key = referenceKey(tileset);
+      setTilesets((prev) => ({ ...prev, [key]: loaded }));
+      setTilesetErrors(({ [key]: _cleared, ...rest }) => rest);
+      updateLayer(index, (l) => ({ ...l, tileset }));
+      // Adopt the tile size of the first tileset assigned to the map
+      const others = current().layers.filter((l, i) => i !== index && l.tileset.path);
+      if (others.length === 0) {
+        update({ tw: loaded.asset.tw, th: loaded.asset.th });
+      }
+    } catch {
+      updateLayer(index, (l) => ({ ...l, tileset: { path } }));
+    }
+  };
+
+  const browseForTileset = async () => {
+    setBrowseError(null);
+    let paths: string[];
+    try {
+      paths = await MessageService.instance.pickFile({
+        openLabel: "Select Tileset Asset",
+        filters: { "Tileset Assets": ["asset"] }
+      });
+    } catch (err) {
+      if (!isFileSelectionCancelled(err)) {
+        setBrowseError(err instanceof Error ? err.message : "Failed to select tileset");
+      }
+      return;
+    }
+    // Load failures are reported per tileset through tilesetErrors
+    if (paths.length > 0) {
+      await setLayerTileset(activeLayerIndex(), paths[0]);
+    }
+  };
+
+  // ===== Tile animation =====
+
+  const animatedTilesets = () =>
+    current().layers.some((l) => {
+      const ts = tilesetFor(l);
+      return l.visible && ts !== undefined && hasAnimatedTiles(ts.asset);
+    });
+
+  let animationFrame: number | null = null;
+  const tick = (timestamp: number) => {
+    setClock(timestamp);
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  createEffect(() => {
+    const running = animate() && animatedTilesets();
+    if (running && animationFrame === null) {
+      animationFrame = requestAnimationFrame(tick);
+    } else if (!running && animationFrame !== null) {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = null;
+    }
+  });
+
+  onCleanup(() => {
+    if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+  });
+
+  // ===== Map =====
+
+  const resizeMap = (width: number, height: number) => {
+    const w = clamp(width, 1, MAX_MAP_TILES);
+    const h = clamp(height, 1, MAX_MAP_TILES);
+    update({
+      w,
+      h,
+      layers: current().layers.map((l) => ({ ...l, data: resizeLayerData(l.data, w, h) }))
+    });
+  };
+
+  // ===== Layers =====
+
+  const addLayer = () => {
+    const { layers, w, h } = current();
+    const name = uniqueName("layer", layers.map((l) => l.name));
+    const index = activeLayerIndex() + 1;
+    const added: TilemapLayer = { ...createLayer(name, w, h), tileset: { ...layer().tileset } };
+    update({ layers: [...layers.slice(0, index), added, ...layers.slice(index)] });
+    setLayerIndex(index);
+  };
+
+  const removeLayer = () => {
+    const layers = current().layers;
+    if (layers.length <= 1) return;
+    const index = activeLayerIndex();
+    update({ layers: layers.filter((_, i) => i !== index) });
+    setLayerIndex(Math.max(0, index - 1));
+  };
+
+  const moveLayer = (delta: number) => {
+    const index = activeLayerIndex();
+    const target = index + delta;
+    const layers = [...current().layers];
+    if (target < 0 || target >= layers.length) return;
+    [layers[index], layers[target]] = [layers[target], layers[index]];
+    update({ layers });
+    setLayerIndex(target);
+  };
+
+  const renameLayer = (name: string) => {
+    if (!name.trim()) return;
+    updateLayer(activeLayerIndex(), (l) => ({ ...l, name: name.trim() }));
+  };
+
+  const toggleLayerVisibility = (index: number) => {
+    updateLayer(index, (l) => ({ ...l, visible: !l.visible }));
+  };
+
+  // ===== Painting =====
+
+  let paintButton: number | null = null;
+
+  const erasing = () => tool() === "eraser" || paintButton === 2;
+
+  const cellFromEvent = (event: PointerEvent): { x: number; y: number } | null => {
+    const { w, h, tw, th } = current();
+    const x = Math.floor(event.offsetX / (tw * zoom()));
+    const y = Math.floor(event.offsetY / (th * zoom()));
+    return x >= 0 && x < w && y >= 0 && y < h ? { x, y } : null;
+  };
+
+  const paintCells = (cells: Array<{ x: number; y: number }>) => {
+    const index = activeLayerIndex();
+    const data = layer().data;
+    const terrain = activeTerrain();
+    let next: number[][];
+    if (terrain) {
+      // Terrain painting picks tiles for the painted cells and their neighbors
+      next = applyTerrain(data, terrain, cells, erasing());
+    } else {
+      const value = erasing() ? 0 : brush();
+      next = cells.some(({ x, y }) => data[y]?.[x] !== value) ? setCells(data, cells, value) : data;
+    }
+    if (next !== data) {
+      updateLayer(index, (l) => ({ ...l, data: next }));
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (event.button !== 0 && event.button !== 2) return;
+    const cell = cellFromEvent(event);
+    if (!cell) return;
+
+    if (event.altKey) {
+      // Eyedropper keeps the picked tile's orientation
+      const value = layer().data[cell.y]?.[cell.x] ?? 0;
+      if (value !== 0) {
+        setBrush(value);
+        setTerrainIndex(-1);
+        if (tool() === "eraser") setTool("brush");
+      }
+      return;
+    }
+
+    (event.currentTarget as HTMLCanvasElement).setPointerCapture(event.pointerId);
+    paintButton = event.button;
+
+    switch (tool()) {
+      case "brush":
+      case "eraser":
+        paintCells([cell]);
+        break;
+      case "rect":
+        setRectDrag({ x0: cell.x, y0: cell.y, x1: cell.x, y1: cell.y });
+        break;
+      case "fill":
+        paintCells(getFillCells(layer().data, cell.x, cell.y));
+        paintButton = null;
+        break;
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const cell = cellFromEvent(event);
+    setHoveredCell(cell);
+    if (paintButton === null || !cell) return;
+
+    if (tool() === "rect") {
+      const drag = rectDrag();
+      if (drag && (drag.x1 !== cell.x || drag.y1 !== cell.y)) {
+        setRectDrag({ ...drag, x1: cell.x, y1: cell.y });
+      }
+    } else if (tool() === "brush" || tool() === "eraser") {
+      paintCells([cell]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = rectDrag();
+    if (drag && paintButton !== null) {
+      paintCells(getRectCells(drag.x0, drag.y0, drag.x1, drag.y1));
+    }
+    setRectDrag(null);
+    paintButton = null;
+  };
+
+  const handleWheel = (event: WheelEvent) => {
+    if (!event.ctrlKey) return;
+    event.preventDefault();
+    setZoom(clamp(zoom() + (event.deltaY < 0 ? 1 : -1), MIN_ZOOM, MAX_ZOOM));
+  };
+
+  const handlePaletteClick = (event: MouseEvent) => {
+    const ts = activeTileset();
+    if (!ts) return;
+    const { tw, th, w } = ts.asset;
+    const col = Math.floor(event.offsetX / (tw * paletteZoom()));
+    const row = Math.floor(event.offsetY / (th * paletteZoom()));
+    if (col < 0 || col >= w || row < 0 || row >= getTileRows(ts.asset, ts.image.naturalHeight)) return;
+    // Keep the current orientation when switching tiles
+    setBrush(makeTileValue(row * w + col + 1, getTileFlags(brush())));
+    setTerrainIndex(-1);
+    if (tool() === "eraser") setTool("brush");
+  };
+
+  // ===== Rendering =====
+
+  createEffect(() => {
+    const canvas = mapCanvas();
+    if (!canvas) return;
+    const { w, h, tw, th, layers } = current();
+    const scale = zoom();
+    const cellW = tw * scale;
+    const cellH = th * scale;
+
+    canvas.width = w * cellW;
+    canvas.height = h * cellH;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const time = animate() ? clock() : 0;
+    for (const l of layers) {
+      const ts = tilesetFor(l);
+      if (!l.visible || !ts) continue;
+      for (let y = 0; y < h; y++) {
+        const row = l.data[y];
+        if (!row) continue;
+        for (let x = 0; x < w; x++) {
+          const value = row[x] ?? 0;
+          if (value !== 0) drawTile(ctx, ts, value, x * cellW, y * cellH, cellW, cellH, time);
+        }
+      }
+    }
+
+    if (showGrid()) {
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let col = 0; col <= w; col++) {
+        ctx.moveTo(col * cellW + 0.5, 0);
+        ctx.lineTo(col * cellW + 0.5, canvas.height);
+      }
+      for (let row = 0; row <= h; row++) {
+        ctx.moveTo(0, row * cellH + 0.5);
+        ctx.lineTo(canvas.width, row * cellH + 0.5);
+      }
+      ctx.stroke();
+    }
+
+    const drag = rectDrag();
+    if (drag) {
+      const x = Math.min(drag.x0, drag.x1);
+      const y = Math.min(drag.y0, drag.y1);
+      const rw = Math.abs(drag.x1 - drag.x0) + 1;
+      const rh = Math.abs(drag.y1 - drag.y0) + 1;
+      ctx.fillStyle = "rgba(255, 204, 0, 0.25)";
+      ctx.fillRect(x * cellW, y * cellH, rw * cellW, rh * cellH);
+      ctx.strokeStyle = "#ffcc00";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x * cellW + 1, y * cellH + 1, rw * cellW - 2, rh * cellH - 2);
+      return;
+    }
+
+    const hovered = hoveredCell();
+    if (hovered) {
+      const ts = activeTileset();
+      if (ts && !activeTerrain() && (tool() === "brush" || tool() === "rect")) {
+        ctx.save();
+        ctx.globalAlpha = 0.6;
+        drawTile(ctx, ts, brush(), hovered.x * cellW, hovered.y * cellH, cellW, cellH);
+        ctx.restore();
+      }
+      ctx.strokeStyle = "#ffcc00";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(hovered.x * cellW + 1, hovered.y * cellH + 1, cellW - 2, cellH - 2);
+    }
+  });
+
+  createEffect(() => {
+    const canvas = paletteCanvas();
+    const ts = activeTileset();
+    if (!canvas || !ts) return;
+    const { image, asset } = ts;
+    const scale = paletteZoom();
+
+    canvas.width = image.naturalWidth * scale;
+    canvas.height = image.naturalHeight * scale;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const id = getTileId(brush());
+    if (id !== 0 && id <= getTileCount(asset, image.naturalHeight)) {
+      const rect = getTileRect(asset, id - 1);
+      ctx.strokeStyle = "#ffcc00";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rect.x * scale + 1, rect.y * scale + 1, rect.width * scale - 2, rect.height * scale - 2);
+    }
+  });
+
+  createEffect(() => {
+    const canvas = brushCanvas();
+    const ts = activeTileset();
+    if (!canvas) return;
+    const size = 32;
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, size, size);
+    if (ts) drawTile(ctx, ts, brush(), 0, 0, size, size);
+  });
+
+  const statusText = () => {
+    const cell = hoveredCell();
+    if (!cell) return `${current().w}×${current().h} tiles`;
+    const value = layer().data[cell.y]?.[cell.x] ?? 0;
+    const tile = value === 0 ? "empty" : `tile #${getTileId(value) - 1}${describeFlags(value)}`;
+    return `${cell.x}, ${cell.y} · ${tile}`;
+  };
+
+  // Layers are listed top-most first
+  const layerOrder = () => current().layers.map((_, i) => i).reverse();
+
+  return (
+    <div class="tilemap-editor">
+      <style nonce={props.nonce}>{styles}</style>
+
+      <aside class="sidebar">
+        <section class="panel">
+          <h3>Map</h3>
+          <div class="field-row">
+            <label class="field">
+              <span>Width</span>
+              <input
+                type="number"
+                min="1"
+                max={MAX_MAP_TILES}
+                value={current().w}
+                onChange={(e) => resizeMap(toPositiveInt(e.currentTarget.value, current().w), current().h)}
+              />
+            </label>
+            <label class="field">
+              <span>Height</span>
+              <input
+                type="number"
+                min="1"
+                max={MAX_MAP_TILES}
+                value={current().h}
+                onChange={(e) => resizeMap(current().w, toPositiveInt(e.currentTarget.value, current().h))}
+              />
+            </label>
+          </div>
+          <div class="field-row">
+            <label class="field">
+              <span>Tile W</span>
+              <input
+                type="number"
+                min="1"
+                value={current().tw}
+                onInput={(e) => update({ tw: toPositiveInt(e.currentTarget.value, current().tw) })}
+              />
+            </label>
+            <label class="field">
+              <span>Tile H</span>
+              <input
+                type="number"
+                min="1"
+                value={current().th}
+                onInput={(e) => update({ th: toPositiveInt(e.currentTarget.value, current().th) })}
+              />
+            </label>
+          </div>
+        </section>
+
+        <section class="panel">
+          <h3>Layers</h3>
+          <ul class="list">
+            <For each={layerOrder()}>
+              {(index) => (
+                <li class="layer-row">
+                  <input
+                    type="checkbox"
+                    title="Visible"
+                    checked={current().layers[index]?.visible}
+                    onChange={() => toggleLayerVisibility(index)}
+                  />
+                  <button
+                    class="list-item"
+                    classList={{ selected: index === activeLayerIndex() }}
+                    onClick={() => {
+                      setLayerIndex(index);
+                      setTerrainIndex(-1);
+                    }}
+                  >
+                    {current().layers[index]?.name}
+                  </button>
+                </li>
+              )}
+            </For>
+          </ul>
+          <div class="button-row">
+            <button class="secondary" onClick={addLayer}>Add</button>
+            <button class="secondary" disabled={current().layers.length <= 1} onClick={removeLayer}>
+              Remove
+            </button>
+            <button
+              class="secondary"
+              title="Move up"
+              disabled={activeLayerIndex() >= current().layers.length - 1}
+              onClick={() => moveLayer(1)}
+            >
+              ▲
+            </button>
+            <button
+              class="secondary"
+              title="Move down"
+              disabled={activeLayerIndex() === 0}
+              onClick={() => moveLayer(-1)}
+            >
+              ▼
+            </button>
+          </div>
+          <label class="field">
+            <span>Name</span>
+            <input value={layer().name} onChange={(e) => renameLayer(e.currentTarget.value)} />
+          </label>
+          <label class="field">
+            <span>Tileset</span>
+            <div class="input-with-button">
+              <input
+                value={layer().tileset.path ?? ""}
+                placeholder="e.g., tiles/ground.asset"
+                onChange={(e) => setLayerTileset(activeLayerIndex(), e.currentTarget.value.trim())}
+              />
+              <button class="secondary" onClick={browseForTileset}>Browse...</button>
+            </div>
+          </label>
+          <Show when={layer().tileset.gid}>
+            <span class="hint">GID {layer().tileset.gid}</span>
+          </Show>
+        </section>
+      </aside>
+
+      <section class="workspace">
+        <Show when={browseError()}>
+          <div class="error-box">{browseError()}</div>
+        </Show>
+        <Show when={tilesetStatus(layer())}>
+          <div class={tilesetErrors()[referenceKey(layer().tileset)] ? "error-box" : "hint-box"}>
+            {tilesetStatus(layer())}
+          </div>
+        </Show>
+
+        <div class="panel">
+          <div class="toolbar-row">
+            <Index each={TOOLS}>
+              {(t) => (
+                <button class="secondary" classList={{ active: tool() === t().id }} onClick={() => setTool(t().id)}>
+                  {t().label}
+                </button>
+              )}
+            </Index>
+            <Show when={terrains().length > 0}>
+              <label>
+                Terrain
+                <select
+                  value={activeTerrain() ? terrainIndex() : -1}
+                  onChange={(e) => setTerrainIndex(parseInt(e.currentTarget.value, 10))}
+                >
+                  <option value={-1}>None (raw tiles)</option>
+                  <For each={terrains()}>{(t, i) => <option value={i()}>{t.name}</option>}</For>
+                </select>
+              </label>
+            </Show>
+            <span class="separator" />
+            <canvas class="brush-preview" ref={(el) => setBrushCanvas(el)} />
+            <button class="secondary" title="Flip horizontally" onClick={() => setBrush(flipTileValue(brush(), "h"))}>
+              ⇆
+            </button>
+            <button class="secondary" title="Flip vertically" onClick={() => setBrush(flipTileValue(brush(), "v"))}>
+              ⇅
+            </button>
+            <button class="secondary" title="Rotate counter-clockwise" onClick={() => setBrush(rotateTileValue(brush(), false))}>
+              ⟲
+            </button>
+            <button class="secondary" title="Rotate clockwise" onClick={() => setBrush(rotateTileValue(brush(), true))}>
+              ⟳
+            </button>
+          </div>
+          <div class="toolbar-row">
+            <label>
+              Zoom: {zoom()}x
+              <input
+                type="range"
+                min={MIN_ZOOM}
+                max={MAX_ZOOM}
+                value={zoom()}
+                onInput={(e) => setZoom(parseInt(e.currentTarget.value, 10))}
+              />
+            </label>
+            <label class="checkbox">
+              <input type="checkbox" checked={showGrid()} onChange={(e) => setShowGrid(e.currentTarget.checked)} />
+              Grid
+            </label>
+            <Show when={animatedTilesets()}>
+              <label class="checkbox">
+                <input type="checkbox" checked={animate()} onChange={(e) => setAnimate(e.currentTarget.checked)} />
+                Animate tiles
+              </label>
+            </Show>
+            <span class="hint">{statusText()}</span>
+            <span class="hint">Right: erase · Alt: pick</span>
+          </div>
+          <div class="canvas-panel" onWheel={handleWheel}>
+            <canvas
+              ref={(el) => setMapCanvas(el)}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onPointerLeave={() => setHoveredCell(null)}
+              onContextMenu={(e) => e.preventDefault()}
+            />
+          </div>
+        </div>
+
+        <Show when={activeTileset()}>
+          <div class="panel">
+            <div class="toolbar-row">
+              <strong>Palette</strong>
+              <span class="hint">
+                {getTileId(brush()) === 0 ? "Empty tile" : `Tile #${getTileId(brush()) - 1}${describeFlags(brush())}`}
+              </span>
+              <label>
+                Zoom: {paletteZoom()}x
+                <input
+                  type="range"
+                  min="1"
+                  max="6"
+                  value={paletteZoom()}
+                  onInput={(e) => setPaletteZoom(parseInt(e.currentTarget.value, 10))}
+                />
+              </label>
+            </div>
+            <div class="canvas-panel palette">
+              <canvas ref={(el) => setPaletteCanvas(el)} onClick={handlePaletteClick} />
+            </div>
+          </div>
+        </Show>
+      </section>
+    </div>
+  );
+};
+
+const styles = `
+.tilemap-editor {
+  display: flex;
+  gap: 1rem;
+  align-items: flex-start;
+  color: var(--vscode-editor-foreground);
+}
+
+.tilemap-editor .sidebar {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  width: 260px;
+  flex-shrink: 0;
+}
+
+.tilemap-editor .workspace {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  flex: 1;
+  min-width: 0;
+}
+
+.tilemap-editor .panel {
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  padding: 0.75rem;
+  background: var(--vscode-editorWidget-background);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 6px;
+}
+
+.tilemap-editor h3 {
+  margin: 0;
+  font-size: 0.95rem;
+}
+
+.tilemap-editor .field {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  flex: 1;
+  min-width: 0;
+}
+
+.tilemap-editor .field-row,
+.tilemap-editor .button-row,
+.tilemap-editor .input-with-button {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.tilemap-editor .input-with-button input {
+  flex: 1;
+}
+
+.tilemap-editor input[type="number"],
+.tilemap-editor input:not([type]) {
+  background: var(--vscode-input-background);
+  border: 1px solid var(--vscode-input-border);
+  color: var(--vscode-input-foreground);
+  padding: 0.3rem 0.45rem;
+  border-radius: 4px;
+  min-width: 0;
+}
+
+.tilemap-editor select {
+  background: var(--vscode-dropdown-background);
+  border: 1px solid var(--vscode-dropdown-border);
+  color: var(--vscode-dropdown-foreground);
+  padding: 0.3rem 0.45rem;
+  border-radius: 4px;
+}
+
+.tilemap-editor button.secondary {
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+  border: 1px solid var(--vscode-button-border, transparent);
+  border-radius: 4px;
+  padding: 0.3rem 0.65rem;
+  cursor: pointer;
+  white-space: nowrap;
+}
+
+.tilemap-editor button.secondary:hover:not(:disabled) {
+  background: var(--vscode-button-secondaryHoverBackground);
+}
+
+.tilemap-editor button.active {
+  outline: 2px solid var(--vscode-focusBorder);
+}
+
+.tilemap-editor button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.tilemap-editor .list {
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 220px;
+  overflow-y: auto;
+}
+
+.tilemap-editor .layer-row {
+  display: flex;
+  align-items: center;
+  gap: 0.35rem;
+}
+
+.tilemap-editor .list-item {
+  flex: 1;
+  padding: 0.3rem 0.5rem;
+  background: transparent;
+  color: var(--vscode-foreground);
+  border: none;
+  border-radius: 3px;
+  text-align: left;
+  cursor: pointer;
+}
+
+.tilemap-editor .list-item:hover {
+  background: var(--vscode-list-hoverBackground);
+}
+
+.tilemap-editor .list-item.selected {
+  background: var(--vscode-list-activeSelectionBackground);
+  color: var(--vscode-list-activeSelectionForeground);
+}
+
+.tilemap-editor .toolbar-row {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  flex-wrap: wrap;
+}
+
+.tilemap-editor .toolbar-row label {
+  display: flex;
+  align-items: center;
+  gap: 0.35rem;
+}
+
+.tilemap-editor .separator {
+  width: 1px;
+  align-self: stretch;
+  background: var(--vscode-panel-border);
+}
+
+.tilemap-editor .hint {
+  color: var(--vscode-descriptionForeground);
+  font-size: 0.85rem;
+}
+
+.tilemap-editor .canvas-panel {
+  overflow: auto;
+  max-height: 65vh;
+  padding: 0.5rem;
+  border-radius: 4px;
+  background-color: #2b2b2b;
+  background-image:
+    linear-gradient(45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(-45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(45deg, transparent 75%, #3a3a3a 75%),
+    linear-gradient(-45deg, transparent 75%, #3a3a3a 75%);
+  background-size: 16px 16px;
+  background-position: 0 0, 0 8px, 8px -8px, -8px 0;
+}
+
+.tilemap-editor .canvas-panel.palette {
+  max-height: 40vh;
+}
+
+.tilemap-editor canvas {
+  display: block;
+  image-rendering: pixelated;
+  cursor: crosshair;
+}
+
+.tilemap-editor canvas.brush-preview {
+  width: 32px;
+  height: 32px;
+  border: 1px solid var(--vscode-panel-border);
+  background: #2b2b2b;
+  cursor: default;
+}
+
+.tilemap-editor .error-box,
+.tilemap-editor .hint-box {
+  padding: 0.75rem;
+  border-radius: 6px;
+  background: var(--vscode-inputValidation-errorBackground);
+  border: 1px solid var(--vscode-inputValidation-errorBorder);
+  color: var(--vscode-inputValidation-errorForeground);
+}
+
+.tilemap-editor .hint-box {
+  background: var(--vscode-inputValidation-infoBackground);
+  border-color: var(--vscode-inputValidation-infoBorder);
+  color: var(--vscode-inputValidation-infoForeground);
+}
+`;
+
+export const tilemapEditorPlugin: WebviewAssetPlugin<TilemapAsset> = {
+  metadata: {
+    type: "tilemap",
+    title: "Tilemap",
+    description: "Paint layered tile maps from tileset assets"
+  },
+  Component: TilemapEditorComponent
+};
@@ -0,0 +1,249 @@
+import { createEffect, For, Show, type Component } from "solid-js";
+import type { TerrainRuleSet, TerrainScheme } from "@common/autotile";
+import {
+  BLOB_E,
+  BLOB_N,
+  BLOB_NE,
+  BLOB_NW,
+  BLOB_S,
+  BLOB_SE,
+  BLOB_SW,
+  BLOB_W,
+  CORNER_NE,
+  CORNER_NW,
+  CORNER_SE,
+  CORNER_SW,
+  createTerrain,
+  getSchemeMasks,
+  TERRAIN_SCHEMES,
+  WANG_E,
+  WANG_N,
+  WANG_S,
+  WANG_W
+} from "@common/autotile";
+import type { TilesetAsset } from "@common/tileset";
+import { getTileRect } from "@common/tileset";
+
+const SCHEME_LABELS: Record<TerrainScheme, string> = {
+  blob47: "47-tile blob",
+  wang16: "16-tile Wang (edges)",
+  corner4: "2x2 corner"
+};
+
+const TERRAIN_COLOR = "rgba(255, 204, 0, 0.55)";
+
+/**
+ * Draw a neighbor bitmask as a 3x3 (blob47, wang16) or 2x2 (corner4) diagram.
+ */
+export function drawTerrainMask(
+  ctx: CanvasRenderingContext2D,
+  scheme: TerrainScheme,
+  mask: number,
+  x: number,
+  y: number,
+  size: number
+): void {
+  ctx.save();
+  ctx.fillStyle = TERRAIN_COLOR;
+
+  if (scheme === "corner4") {
+    const half = size / 2;
+    if (mask & CORNER_NW) ctx.fillRect(x, y, half, half);
+    if (mask & CORNER_NE) ctx.fillRect(x + half, y, half, half);
+    if (mask & CORNER_SW) ctx.fillRect(x, y + half, half, half);
+    if (mask & CORNER_SE) ctx.fillRect(x + half, y + half, half, half);
+    ctx.restore();
+    return;
+  }
+
+  const third = size / 3;
+  const cells: Array<[number, number, number]> =
+    scheme === "wang16"
+      ? [
+          [1, 0, WANG_N],
+          [2, 1, WANG_E],
+          [1, 2, WANG_S],
+          [0, 1, WANG_W]
+        ]
+      : [
+          [1, 0, BLOB_N],
+          [2, 0, BLOB_NE],
+          [2, 1, BLOB_E],
+          [2, 2, BLOB_SE],
+          [1, 2, BLOB_S],
+          [0, 2, BLOB_SW],
+          [0, 1, BLOB_W],
+          [0, 0, BLOB_NW]
+        ];
+  ctx.fillRect(x + third, y + third, third, third);
+  for (const [cx, cy, bit] of cells) {
+    if (mask & bit) ctx.fillRect(x + cx * third, y + cy * third, third, third);
+  }
+  ctx.restore();
+}
+
+const MaskSlot: Component<{
+  scheme: TerrainScheme;
+  mask: number;
+  tile: number | undefined;
+  tileset: TilesetAsset;
+  image: HTMLImageElement | null;
+  selected: boolean;
+  onSelect: () => void;
+  onClear: () => void;
+}> = (props) => {
+  let canvas: HTMLCanvasElement | undefined;
+  const size = 24;
+
+  createEffect(() => {
+    if (!canvas) return;
+    canvas.width = size * 2 + 4;
+    canvas.height = size;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.3)";
+    ctx.strokeRect(0.5, 0.5, size - 1, size - 1);
+    drawTerrainMask(ctx, props.scheme, props.mask, 0, 0, size);
+
+    const tile = props.tile;
+    if (tile !== undefined && props.image) {
+      const src = getTileRect(props.tileset, tile);
+      ctx.drawImage(props.image, src.x, src.y, src.width, src.height, size + 4, 0, size, size);
+    }
+  });
+
+  return (
+    <button
+      class="mask-slot"
+      classList={{ selected: props.selected, assigned: props.tile !== undefined }}
+      title={`Mask ${props.mask}${props.tile !== undefined ? ` → tile #${props.tile}` : ""} (right click to clear)`}
+      onClick={() => props.onSelect()}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        props.onClear();
+      }}
+    >
+      <canvas ref={canvas} />
+    </button>
+  );
+};
+
+export const TerrainPanel: Component<{
+  terrains: TerrainRuleSet[];
+  tileset: TilesetAsset;
+  image: HTMLImageElement | null;
+  terrainIndex: number;
+  selectedMask: number | null;
+  onSelectTerrain: (index: number) => void;
+  onSelectMask: (mask: number | null) => void;
+  onChange: (terrains: TerrainRuleSet[]) => void;
+}> = (props) => {
+  const terrain = () => props.terrains[props.terrainIndex] as TerrainRuleSet | undefined;
+
+  const updateTerrain = (fn: (t: TerrainRuleSet) => TerrainRuleSet) => {
+    props.onChange(props.terrains.map((t, i) => (i === props.terrainIndex ? fn(t) : t)));
+  };
+
+  const addTerrain = () => {
+    const taken = props.terrains.map((t) => t.name);
+    let name = "terrain";
+    for (let n = 2; taken.includes(name); n++) name = `terrain-${n}`;
+    props.onChange([...props.terrains, createTerrain(name, "blob47")]);
+    props.onSelectTerrain(props.terrains.length);
+    props.onSelectMask(null);
+  };
+
+  const removeTerrain = () => {
+    props.onChange(props.terrains.filter((_, i) => i !== props.terrainIndex));
+    props.onSelectTerrain(Math.max(0, props.terrainIndex - 1));
+    props.onSelectMask(null);
+  };
+
+  const setScheme = (scheme: TerrainScheme) => {
+    // Masks differ between schemes, so existing assignments are dropped
+    updateTerrain((t) => ({ ...t, scheme, tiles: {} }));
+    props.onSelectMask(null);
+  };
+
+  const clearMask = (mask: number) => {
+    updateTerrain((t) => {
+      const { [mask]: _removed, ...tiles } = t.tiles;
+      return { ...t, tiles };
+    });
+  };
+
+  const assignedCount = () => Object.keys(terrain()?.tiles ?? {}).length;
+
+  return (
+    <div class="panel terrain-panel">
+      <div class="toolbar-row">
+        <strong>Terrains</strong>
+        <For each={props.terrains}>
+          {(t, i) => (
+            <button
+              class="secondary"
+              classList={{ active: i() === props.terrainIndex }}
+              onClick={() => {
+                props.onSelectTerrain(i());
+                props.onSelectMask(null);
+              }}
+            >
+              {t.name}
+            </button>
+          )}
+        </For>
+        <button class="secondary" onClick={addTerrain}>Add</button>
+        <button class="secondary" disabled={!terrain()} onClick={removeTerrain}>Remove</button>
+      </div>
+
+      <Show when={terrain()}>
+        {(t) => (
+          <>
+            <div class="field-row">
+              <label class="field">
+                <span>Name</span>
+                <input
+                  value={t().name}
+                  onChange={(e) => {
+                    const name = e.currentTarget.value.trim();
+                    if (name) updateTerrain((current) => ({ ...current, name }));
+                  }}
+                />
+              </label>
+              <label class="field">
+                <span>Scheme</span>
+                <select value={t().scheme} onChange={(e) => setScheme(e.currentTarget.value as TerrainScheme)}>
+                  <For each={TERRAIN_SCHEMES}>
+                    {(scheme) => <option value={scheme}>{SCHEME_LABELS[scheme]}</option>}
+                  </For>
+                </select>
+              </label>
+            </div>
+            <span class="stats">
+              {assignedCount()}/{getSchemeMasks(t().scheme).length} masks assigned · Select a mask, then click a
+              tile in the preview. Right click a mask to clear it.
+            </span>
+            <div class="mask-grid">
+              <For each={getSchemeMasks(t().scheme)}>
+                {(mask) => (
+                  <MaskSlot
+                    scheme={t().scheme}
+                    mask={mask}
+                    tile={t().tiles[mask]}
+                    tileset={props.tileset}
+                    image={props.image}
+                    selected={props.selectedMask === mask}
+                    onSelect={() => props.onSelectMask(props.selectedMask === mask ? null : mask)}
+                    onClear={() => clearMask(mask)}
+                  />
+                )}
+              </For>
+            </div>
+          </>
+        )}
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import { createEffect, createSignal, Index, onCleanup, Show, type Component } from "solid-js";
+import type { TileAnimationFrame, TilesetAsset } from "@common/tileset";
+import { getAnimatedTile, getAnimationDuration, getTileRect } from "@common/tileset";
+
+const DEFAULT_DURATION = 100;
+const PREVIEW_SIZE = 64;
+const THUMB_SIZE = 24;
+
+function toPositiveInt(value: string, fallback: number): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+function toIndex(value: string, fallback: number): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+function drawTileIndex(
+  canvas: HTMLCanvasElement,
+  tileset: TilesetAsset,
+  image: HTMLImageElement,
+  index: number,
+  size: number
+): void {
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.imageSmoothingEnabled = false;
+  ctx.clearRect(0, 0, size, size);
+  const src = getTileRect(tileset, index);
+  ctx.drawImage(image, src.x, src.y, src.width, src.height, 0, 0, size, size);
+}
+
+const FrameThumb: Component<{ tileset: TilesetAsset; image: HTMLImageElement; index: number }> = (props) => {
+  let canvas: HTMLCanvasElement | undefined;
+  createEffect(() => {
+    if (canvas) drawTileIndex(canvas, props.tileset, props.image, props.index, THUMB_SIZE);
+  });
+  return <canvas ref={canvas} class="frame-thumb" />;
+};
+
+/**
+ * Frame list and looping preview for a single animated tile.
+ */
+export const TileAnimationEditor: Component<{
+  index: number;
+  tileset: TilesetAsset;
+  image: HTMLImageElement;
+  tileCount: number;
+  frames: TileAnimationFrame[];
+  onChange: (frames: TileAnimationFrame[]) => void;
+}> = (props) => {
+  const [previewCanvas, setPreviewCanvas] = createSignal<HTMLCanvasElement | null>(null);
+  const [clock, setClock] = createSignal(0);
+
+  const updateFrame = (i: number, patch: Partial<TileAnimationFrame>) => {
+    props.onChange(props.frames.map((frame, j) => (j === i ? { ...frame, ...patch } : frame)));
+  };
+
+  const addFrame = () => {
+    const last = props.frames[props.frames.length - 1];
+    // Sequential tiles are the common layout for animation strips
+    const tile = last ? Math.min(props.tileCount - 1, last.tile + 1) : props.index;
+    props.onChange([...props.frames, { tile, duration: last?.duration ?? DEFAULT_DURATION }]);
+  };
+
+  const removeFrame = (i: number) => {
+    props.onChange(props.frames.filter((_, j) => j !== i));
+  };
+
+  const moveFrame = (i: number, delta: number) => {
+    const target = i + delta;
+    if (target < 0 || target >= props.frames.length) return;
+    const next = [...props.frames];
+    [next[i], next[target]] = [next[target], next[i]];
+    props.onChange(next);
+  };
+
+  // ===== Preview =====
+
+  let animationFrame: number | null = null;
+  const start = performance.now();
+  const tick = (timestamp: number) => {
+    setClock(timestamp - start);
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  createEffect(() => {
+    const animated = props.frames.length > 1;
+    if (animated && animationFrame === null) {
+      animationFrame = requestAnimationFrame(tick);
+    } else if (!animated && animationFrame !== null) {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = null;
+    }
+  });
+
+  onCleanup(() => {
+    if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+  });
+
+  createEffect(() => {
+    const canvas = previewCanvas();
+    if (!canvas) return;
+    const tile = getAnimatedTile(props.tileset, props.index, clock());
+    drawTileIndex(canvas, props.tileset, props.image, tile, PREVIEW_SIZE);
+  });
+
+  return (
+    <section class="tile-animation">
+      <h4>Animation</h4>
+      <Show
+        when={props.frames.length > 0}
+        fallback={<span class="stats">Not animated. Add frames to play other tiles in place of this one.</span>}
+      >
+        <div class="animation-body">
+          <canvas ref={(el) => setPreviewCanvas(el)} class="animation-preview" />
+          <table>
+            <tbody>
+              <Index each={props.frames}>
+                {(frame, i) => (
+                  <tr>
+                    <td>
+                      <FrameThumb tileset={props.tileset} image={props.image} index={frame().tile} />
+                    </td>
+                    <td>
+                      <label>
+                        Tile
+                        <input
+                          type="number"
+                          min="0"
+                          max={props.tileCount - 1}
+                          value={frame().tile}
+                          onChange={(e) =>
+                            updateFrame(i, {
+                              tile: Math.min(props.tileCount - 1, toIndex(e.currentTarget.value, frame().tile))
+                            })
+                          }
+                        />
+                      </label>
+                    </td>
+                    <td>
+                      <label>
+                        <input
+                          type="number"
+                          min="1"
+                          step="10"
+                          value={frame().duration}
+                          onChange={(e) =>
+                            updateFrame(i, { duration: toPositiveInt(e.currentTarget.value, frame().duration) })
+                          }
+                        />
+                        ms
+                      </label>
+                    </td>
+                    <td>
+                      <button class="secondary" disabled={i === 0} onClick={() => moveFrame(i, -1)}>▲</button>
+                      <button class="secondary" disabled={i === props.frames.length - 1} onClick={() => moveFrame(i, 1)}>
+                        ▼
+                      </button>
+                      <button class="secondary" title="Remove frame" onClick={() => removeFrame(i)}>×</button>
+                    </td>
+                  </tr>
+                )}
+              </Index>
+            </tbody>
+          </table>
+        </div>
+        <span class="stats">
+          {props.frames.length} frames · {getAnimationDuration(props.frames)}ms loop
+        </span>
+      </Show>
+      <div class="toolbar-row">
+        <button class="secondary" onClick={addFrame}>Add Frame</button>
+        <Show when={props.frames.length > 0}>
+          <button class="secondary" onClick={() => props.onChange([])}>Clear</button>
+        </Show>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,457 @@
+import { createEffect, createSignal, For, Show, type Component } from "solid-js";
+import type {
+  TileAnimationFrame,
+  TileCollision,
+  TileCollisionKind,
+  TileData,
+  TileProperty,
+  TilePropertyType,
+  TilesetAsset
+} from "@common/tileset";
+import {
+  createCollision,
+  getDefaultPropertyValue,
+  getTileRect,
+  isCollisionPixel,
+  WELL_KNOWN_TILE_PROPERTIES
+} from "@common/tileset";
+import { TileAnimationEditor } from "./tile-animation-editor";
+
+const PROPERTY_TYPES: TilePropertyType[] = ["bool", "int", "float", "string"];
+const COLLISION_KINDS: Array<{ kind: TileCollisionKind | "none"; label: string }> = [
+  { kind: "none", label: "None" },
+  { kind: "box", label: "Full box" },
+  { kind: "rect", label: "Rectangle" },
+  { kind: "polygon", label: "Polygon" },
+  { kind: "mask", label: "Pixel mask" }
+];
+
+const COLLISION_FILL = "rgba(255, 64, 64, 0.45)";
+const COLLISION_STROKE = "#ff4040";
+const EDITOR_SIZE = 256;
+const POINT_RADIUS = 5;
+
+function clampTo(value: number, max: number): number {
+  return Math.min(max, Math.max(0, value));
+}
+
+function coerceValue(type: TilePropertyType, value: unknown): boolean | number | string {
+  switch (type) {
+    case "bool":
+      return value === true || value === "true";
+    case "int": {
+      const parsed = parseInt(String(value), 10);
+      return Number.isNaN(parsed) ? 0 : parsed;
+    }
+    case "float": {
+      const parsed = parseFloat(String(value));
+      return Number.isNaN(parsed) ? 0 : parsed;
+    }
+    case "string":
+      return typeof value === "string" ? value : "";
+  }
+}
+
+/**
+ * Draw collision geometry for a tile whose top-left corner is at (x, y).
+ */
+export function drawCollision(
+  ctx: CanvasRenderingContext2D,
+  collision: TileCollision,
+  tw: number,
+  th: number,
+  x: number,
+  y: number,
+  scale: number
+): void {
+  ctx.save();
+  ctx.fillStyle = COLLISION_FILL;
+  ctx.strokeStyle = COLLISION_STROKE;
+  ctx.lineWidth = 1;
+
+  switch (collision.kind) {
+    case "box":
+      ctx.fillRect(x, y, tw * scale, th * scale);
+      break;
+    case "rect":
+      ctx.fillRect(x + collision.x * scale, y + collision.y * scale, collision.w * scale, collision.h * scale);
+      ctx.strokeRect(
+        x + collision.x * scale + 0.5,
+        y + collision.y * scale + 0.5,
+        collision.w * scale - 1,
+        collision.h * scale - 1
+      );
+      break;
+    case "polygon":
+      if (collision.points.length > 0) {
+        ctx.beginPath();
+        collision.points.forEach((p, i) =>
+          i === 0 ? ctx.moveTo(x + p.x * scale, y + p.y * scale) : ctx.lineTo(x + p.x * scale, y + p.y * scale)
+        );
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+      }
+      break;
+    case "mask":
+      for (let py = 0; py < th; py++) {
+        for (let px = 0; px < tw; px++) {
+          if (isCollisionPixel(collision, tw, th, px, py)) {
+            ctx.fillRect(x + px * scale, y + py * scale, scale, scale);
+          }
+        }
+      }
+      break;
+  }
+  ctx.restore();
+}
+
+export const TileDataPanel: Component<{
+  index: number;
+  tileset: TilesetAsset;
+  image: HTMLImageElement;
+  tileCount: number;
+  data: TileData | undefined;
+  onChange: (data: TileData | undefined) => void;
+}> = (props) => {
+  const [newName, setNewName] = createSignal("");
+  const [newType, setNewType] = createSignal<TilePropertyType>("bool");
+  const [editorCanvas, setEditorCanvas] = createSignal<HTMLCanvasElement | null>(null);
+
+  const properties = (): Record<string, TileProperty> => props.data?.properties ?? {};
+  const collision = (): TileCollision | undefined => props.data?.collision;
+  const scale = () => Math.max(1, Math.floor(EDITOR_SIZE / Math.max(props.tileset.tw, props.tileset.th)));
+
+  // Entries without properties, collision or animation are dropped from the asset
+  const emit = (next: TileData) => {
+    const cleaned: TileData = {};
+    if (next.properties && Object.keys(next.properties).length > 0) cleaned.properties = next.properties;
+    if (next.collision) cleaned.collision = next.collision;
+    if (next.animation && next.animation.length > 0) cleaned.animation = next.animation;
+    props.onChange(Object.keys(cleaned).length > 0 ? cleaned : undefined);
+  };
+
+  const setProperties = (next: Record<string, TileProperty>) => emit({ ...props.data, properties: next });
+  const setCollision = (next: TileCollision | undefined) => emit({ ...props.data, collision: next });
+  const setAnimation = (next: TileAnimationFrame[]) => emit({ ...props.data, animation: next });
+
+  // ===== Properties =====
+
+  const addProperty = (name: string, property: TileProperty) => {
+    const trimmed = name.trim();
+    if (!trimmed || properties()[trimmed]) return;
+    setProperties({ ...properties(), [trimmed]: property });
+  };
+
+  const addCustomProperty = () => {
+    addProperty(newName(), { type: newType(), value: getDefaultPropertyValue(newType()) });
+    setNewName("");
+  };
+
+  const updateProperty = (name: string, property: TileProperty) => {
+    setProperties({ ...properties(), [name]: property });
+  };
+
+  const removeProperty = (name: string) => {
+    const { [name]: _removed, ...rest } = properties();
+    setProperties(rest);
+  };
+
+  const missingPresets = () => Object.keys(WELL_KNOWN_TILE_PROPERTIES).filter((name) => !properties()[name]);
+
+  // ===== Collision =====
+
+  const setCollisionKind = (kind: TileCollisionKind | "none") => {
+    const { tw, th } = props.tileset;
+    setCollision(kind === "none" ? undefined : createCollision(kind, tw, th));
+  };
+
+  const maskFromAlpha = () => {
+    const { tw, th } = props.tileset;
+    const src = getTileRect(props.tileset, props.index);
+    const canvas = document.createElement("canvas");
+    canvas.width = tw;
+    canvas.height = th;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(props.image, src.x, src.y, src.width, src.height, 0, 0, tw, th);
+    const pixels = ctx.getImageData(0, 0, tw, th).data;
+    const rows = Array.from({ length: th }, (_, y) =>
+      Array.from({ length: tw }, (_, x) => (pixels[(y * tw + x) * 4 + 3] > 127 ? "1" : "0")).join("")
+    );
+    setCollision({ kind: "mask", rows });
+  };
+
+  const invertMask = () => {
+    const c = collision();
+    if (c?.kind !== "mask") return;
+    setCollision({ kind: "mask", rows: c.rows.map((row) => row.replace(/[01]/g, (bit) => (bit === "1" ? "0" : "1"))) });
+  };
+
+  let dragStart: { x: number; y: number } | null = null;
+  let dragPoint: number | null = null;
+  let paintBit: "0" | "1" | null = null;
+
+  const pixelFromEvent = (event: PointerEvent) => ({
+    x: Math.floor(event.offsetX / scale()),
+    y: Math.floor(event.offsetY / scale())
+  });
+
+  // Rectangle edges and polygon points snap to pixel corners
+  const cornerFromEvent = (event: PointerEvent) => ({
+    x: clampTo(Math.round(event.offsetX / scale()), props.tileset.tw),
+    y: clampTo(Math.round(event.offsetY / scale()), props.tileset.th)
+  });
+
+  const paintMask = (event: PointerEvent) => {
+    const c = collision();
+    if (c?.kind !== "mask" || paintBit === null) return;
+    const { x, y } = pixelFromEvent(event);
+    const row = c.rows[y];
+    if (row === undefined || x < 0 || x >= row.length || row[x] === paintBit) return;
+    const rows = [...c.rows];
+    rows[y] = row.slice(0, x) + paintBit + row.slice(x + 1);
+    setCollision({ kind: "mask", rows });
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    const c = collision();
+    if (!c || (event.button !== 0 && event.button !== 2)) return;
+    (event.currentTarget as HTMLCanvasElement).setPointerCapture(event.pointerId);
+
+    if (c.kind === "rect") {
+      dragStart = cornerFromEvent(event);
+    } else if (c.kind === "polygon") {
+      const s = scale();
+      const hit = c.points.findIndex(
+        (p) => Math.hypot(p.x * s - event.offsetX, p.y * s - event.offsetY) <= POINT_RADIUS + 2
+      );
+      if (event.button === 2) {
+        if (hit >= 0) setCollision({ kind: "polygon", points: c.points.filter((_, i) => i !== hit) });
+      } else if (hit >= 0) {
+        dragPoint = hit;
+      } else {
+        setCollision({ kind: "polygon", points: [...c.points, cornerFromEvent(event)] });
+        dragPoint = c.points.length;
+      }
+    } else if (c.kind === "mask") {
+      paintBit = event.button === 2 ? "0" : "1";
+      paintMask(event);
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const c = collision();
+    if (!c) return;
+    if (c.kind === "rect" && dragStart) {
+      const end = cornerFromEvent(event);
+      const x = Math.min(dragStart.x, end.x);
+      const y = Math.min(dragStart.y, end.y);
+      const w = Math.max(1, Math.abs(end.x - dragStart.x));
+      const h = Math.max(1, Math.abs(end.y - dragStart.y));
+      if (c.x !== x || c.y !== y || c.w !== w || c.h !== h) setCollision({ kind: "rect", x, y, w, h });
+    } else if (c.kind === "polygon" && dragPoint !== null) {
+      const point = cornerFromEvent(event);
+      const existing = c.points[dragPoint];
+      if (existing && (existing.x !== point.x || existing.y !== point.y)) {
+        setCollision({ kind: "polygon", points: c.points.map((p, i) => (i === dragPoint ? point : p)) });
+      }
+    } else if (c.kind === "mask") {
+      paintMask(event);
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragStart = null;
+    dragPoint = null;
+    paintBit = null;
+  };
+
+  createEffect(() => {
+    const canvas = editorCanvas();
+    if (!canvas) return;
+    const { tw, th } = props.tileset;
+    const s = scale();
+    canvas.width = tw * s;
+    canvas.height = th * s;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const src = getTileRect(props.tileset, props.index);
+    ctx.drawImage(props.image, src.x, src.y, src.width, src.height, 0, 0, canvas.width, canvas.height);
+
+    if (s >= 8) {
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+      ctx.beginPath();
+      for (let x = 0; x <= tw; x++) {
+        ctx.moveTo(x * s + 0.5, 0);
+        ctx.lineTo(x * s + 0.5, canvas.height);
+      }
+      for (let y = 0; y <= th; y++) {
+        ctx.moveTo(0, y * s + 0.5);
+        ctx.lineTo(canvas.width, y * s + 0.5);
+      }
+      ctx.stroke();
+    }
+
+    const c = collision();
+    if (!c) return;
+    drawCollision(ctx, c, tw, th, 0, 0, s);
+    if (c.kind === "polygon") {
+      ctx.fillStyle = "#ffffff";
+      ctx.strokeStyle = COLLISION_STROKE;
+      for (const p of c.points) {
+        ctx.beginPath();
+        ctx.arc(p.x * s, p.y * s, POINT_RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+    }
+  });
+
+  const collisionHint = () => {
+    switch (collision()?.kind) {
+      case "rect":
+        return "Drag to draw the rectangle.";
+      case "polygon":
+        return "Click to add a point, drag a point to move it, right click a point to remove it.";
+      case "mask":
+        return "Left drag: solid · Right drag: empty";
+      default:
+        return "";
+    }
+  };
+
+  return (
+    <div class="panel tile-data-panel">
+      <strong>Tile #{props.index}</strong>
+
+      <div class="tile-data-columns">
+        <section class="tile-properties">
+          <h4>Properties</h4>
+          <Show when={Object.keys(properties()).length > 0} fallback={<span class="stats">No properties</span>}>
+            <table>
+              <tbody>
+                <For each={Object.entries(properties())}>
+                  {([name, property]) => (
+                    <tr>
+                      <td>{name}</td>
+                      <td>
+                        <select
+                          value={property.type}
+                          onChange={(e) => {
+                            const type = e.currentTarget.value as TilePropertyType;
+                            updateProperty(name, { type, value: coerceValue(type, property.value) });
+                          }}
+                        >
+                          <For each={PROPERTY_TYPES}>{(type) => <option value={type}>{type}</option>}</For>
+                        </select>
+                      </td>
+                      <td>
+                        <Show
+                          when={property.type === "bool"}
+                          fallback={
+                            <input
+                              type={property.type === "string" ? "text" : "number"}
+                              step={property.type === "float" ? "0.1" : "1"}
+                              value={String(property.value)}
+                              onChange={(e) =>
+                                updateProperty(name, {
+                                  type: property.type,
+                                  value: coerceValue(property.type, e.currentTarget.value)
+                                })
+                              }
+                            />
+                          }
+                        >
+                          <input
+                            type="checkbox"
+                            checked={property.value === true}
+                            onChange={(e) => updateProperty(name, { type: "bool", value: e.currentTarget.checked })}
+                          />
+                        </Show>
+                      </td>
+                      <td>
+                        <button class="secondary" title="Remove property" onClick={() => removeProperty(name)}>
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </Show>
+          <div class="toolbar-row">
+            <For each={missingPresets()}>
+              {(name) => (
+                <button class="secondary" onClick={() => addProperty(name, WELL_KNOWN_TILE_PROPERTIES[name])}>
+                  + {name}
+                </button>
+              )}
+            </For>
+          </div>
+          <div class="input-with-button">
+            <input
+              value={newName()}
+              placeholder="Custom property"
+              onInput={(e) => setNewName(e.currentTarget.value)}
+              onKeyDown={(e) => e.key === "Enter" && addCustomProperty()}
+            />
+            <select value={newType()} onChange={(e) => setNewType(e.currentTarget.value as TilePropertyType)}>
+              <For each={PROPERTY_TYPES}>{(type) => <option value={type}>{type}</option>}</For>
+            </select>
+            <button
+              class="secondary"
+              disabled={!newName().trim() || properties()[newName().trim()] !== undefined}
+              onClick={addCustomProperty}
+            >
+              Add
+            </button>
+          </div>
+        </section>
+
+        <section class="tile-collision">
+          <h4>Collision</h4>
+          <div class="toolbar-row">
+            <select
+              value={collision()?.kind ?? "none"}
+              onChange={(e) => setCollisionKind(e.currentTarget.value as TileCollisionKind | "none")}
+            >
+              <For each={COLLISION_KINDS}>{(item) => <option value={item.kind}>{item.label}</option>}</For>
+            </select>
+            <Show when={collision()?.kind === "polygon"}>
+              <button class="secondary" onClick={() => setCollision({ kind: "polygon", points: [] })}>Clear</button>
+            </Show>
+            <Show when={collision()?.kind === "mask"}>
+              <button class="secondary" onClick={maskFromAlpha}>From alpha</button>
+              <button class="secondary" onClick={invertMask}>Invert</button>
+            </Show>
+          </div>
+          <span class="stats">{collisionHint()}</span>
+          <div class="collision-canvas">
+            <canvas
+              ref={(el) => setEditorCanvas(el)}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onContextMenu={(e) => e.preventDefault()}
+            />
+          </div>
+        </section>
+
+        <TileAnimationEditor
+          index={props.index}
+          tileset={props.tileset}
+          image={props.image}
+          tileCount={props.tileCount}
+          frames={props.data?.animation ?? []}
+          onChange={setAnimation}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,658 @@
+import { createEffect, createMemo, createSignal, Show, type Component } from "solid-js";
+import type { TerrainRuleSet } from "@common/autotile";
+import { getSchemeMasks } from "@common/autotile";
+import type { TileData, TilesetAsset as BaseTileset } from "@common/tileset";
+import { getTileCount, getTileRect, getTileRows } from "@common/tileset";
+import { isFileSelectionCancelled, MessageService } from "../../services/message-service";
+import { createGid } from "../../services/gid";
+import { loadImage } from "../../services/image-loader";
+import { drawTerrainMask, TerrainPanel } from "./terrain-panel";
+import { TileDataPanel } from "./tile-data-panel";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+// Add index signature to satisfy AssetJson constraint
+type TilesetAsset = BaseTileset & { [key: string]: unknown };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+function toPositiveInt(value: string, fallback: number): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+const TilesetEditorComponent: Component<PluginComponentProps<TilesetAsset>> = (props) => {
+  const [image, setImage] = createSignal<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = createSignal<string | null>(null);
+  const [zoom, setZoom] = createSignal(2);
+  const [showGrid, setShowGrid] = createSignal(true);
+  const [hoveredTile, setHoveredTile] = createSignal<number | null>(null);
+  const [selectedTile, setSelectedTile] = createSignal<number | null>(null);
+  const [terrainIndex, setTerrainIndex] = createSignal(0);
+  const [selectedMask, setSelectedMask] = createSignal<number | null>(null);
+  // Track canvas reactively so first draw happens when it mounts
+  const [canvasEl, setCanvasEl] = createSignal<HTMLCanvasElement | null>(null);
+
+  const current = (): TilesetAsset => ({
+    ...props.value,
+    type: "tileset",
+    gid: props.value.gid ?? "",
+    file: props.value.file ?? "",
+    tw: typeof props.value.tw === "number" ? props.value.tw : 16,
+    th: typeof props.value.th === "number" ? props.value.th : 16,
+    w: typeof props.value.w === "number" ? props.value.w : 16
+  });
+
+  const update = (patch: Partial<TilesetAsset>) => {
+    props.onChange({ ...current(), ...patch });
+  };
+
+  const terrains = (): TerrainRuleSet[] => (Array.isArray(props.value.terrains) ? props.value.terrains : []);
+  const terrain = (): TerrainRuleSet | undefined => terrains()[terrainIndex()];
+  const tiles = (): Record<string, TileData> =>
+    props.value.tiles && typeof props.value.tiles === "object" ? props.value.tiles : {};
+
+  const updateTileData = (index: number, data: TileData | undefined) => {
+    const { [index]: _previous, ...rest } = tiles();
+    update({ tiles: data ? { ...rest, [index]: data } : rest });
+  };
+
+  // Memoized so unrelated edits don't trigger an image reload
+  const file = createMemo(() => current().file);
+
+  const rows = createMemo(() => {
+    const img = image();
+    return img ? getTileRows(current(), img.naturalHeight) : 0;
+  });
+
+  const tileCount = createMemo(() => {
+    const img = image();
+    return img ? getTileCount(current(), img.naturalHeight) : 0;
+  });
+
+  // Reload the source image whenever the file path changes
+  let loadToken = 0;
+  createEffect(() => {
+    const path = file();
+    const token = ++loadToken;
+    setImage(null);
+    setLoadError(null);
+    if (!path) return;
+
+    loadImage(path)
+      .then((img) => {
+        if (token === loadToken) setImage(img);
+      })
+      .catch((err) => {
+        if (token === loadToken) {
+          setLoadError(err instanceof Error ? err.message : "Failed to load tileset image");
+        }
+      });
+  });
+
+  createEffect(() => {
+    const img = image();
+    const canvas = canvasEl();
+    if (!img || !canvas) return;
+    drawTileset(canvas, img, zoom(), showGrid(), hoveredTile(), selectedTile(), terrain());
+  });
+
+  const drawTileset = (
+    canvas: HTMLCanvasElement,
+    img: HTMLImageElement,
+    scale: number,
+    grid: boolean,
+    hovered: number | null,
+    selected: number | null,
+    activeTerrain: TerrainRuleSet | undefined
+  ) => {
+    const { tw, th, w } = current();
+    canvas.width = img.naturalWidth * scale;
+    canvas.height = img.naturalHeight * scale;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const gridWidth = w * tw * scale;
+    const gridHeight = rows() * th * scale;
+
+    if (grid && tw > 0 && th > 0) {
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.35)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let col = 0; col <= w; col++) {
+        const x = col * tw * scale + 0.5;
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, gridHeight);
+      }
+      for (let row = 0; row <= rows(); row++) {
+        const y = row * th * scale + 0.5;
+        ctx.moveTo(0, y);
+        ctx.lineTo(gridWidth, y);
+      }
+      ctx.stroke();
+    }
+
+    if (activeTerrain) {
+      // Overlay each assigned tile with the mask it stands for
+      for (const [mask, index] of Object.entries(activeTerrain.tiles)) {
+        const rect = getTileRect(current(), index);
+        const size = Math.min(rect.width, rect.height) * scale;
+        drawTerrainMask(ctx, activeTerrain.scheme, Number(mask), rect.x * scale, rect.y * scale, size);
+      }
+    }
+
+    // Mark tiles carrying metadata: red corner for collision, blue dot for properties,
+    // green corner for animation
+    for (const [key, data] of Object.entries(tiles())) {
+      const rect = getTileRect(current(), Number(key));
+      const x = rect.x * scale;
+      const y = rect.y * scale;
+      const marker = Math.max(4, Math.min(rect.width, rect.height) * scale * 0.25);
+      if (data.collision) {
+        ctx.fillStyle = "#ff4040";
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + marker, y);
+        ctx.lineTo(x, y + marker);
+        ctx.closePath();
+        ctx.fill();
+      }
+      if (data.animation && data.animation.length > 0) {
+        const bottom = y + rect.height * scale;
+        ctx.fillStyle = "#40d060";
+        ctx.beginPath();
+        ctx.moveTo(x, bottom);
+        ctx.lineTo(x + marker, bottom);
+        ctx.lineTo(x, bottom - marker);
+        ctx.closePath();
+        ctx.fill();
+      }
+      if (data.properties && Object.keys(data.properties).length > 0) {
+        ctx.fillStyle = "#40a0ff";
+        ctx.beginPath();
+        ctx.arc(x + rect.width * scale - marker / 2, y + marker / 2, marker / 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    if (selected !== null) {
+      const rect = getTileRect(current(), selected);
+      ctx.strokeStyle = "#40e0ff";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rect.x * scale + 1, rect.y * scale + 1, rect.width * scale - 2, rect.height * scale - 2);
+    }
+
+    if (hovered !== null) {
+      const col = hovered % w;
+      const row = Math.floor(hovered / w);
+      ctx.strokeStyle = "#ffcc00";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(col * tw * scale + 1, row * th * scale + 1, tw * scale - 2, th * scale - 2);
+    }
+  };
+
+  const handlePointerMove = (event: MouseEvent) => {
+    const { tw, th, w } = current();
+    const col = Math.floor(event.offsetX / (tw * zoom()));
+    const row = Math.floor(event.offsetY / (th * zoom()));
+    if (col >= 0 && col < w && row >= 0 && row < rows()) {
+      setHoveredTile(row * w + col);
+    } else {
+      setHoveredTile(null);
+    }
+  };
+
+  const handleCanvasClick = () => {
+    const t = terrain();
+    const mask = selectedMask();
+    const tile = hoveredTile();
+    if (tile === null) return;
+    if (!t || mask === null) {
+      setSelectedTile(tile === selectedTile() ? null : tile);
+      return;
+    }
+
+    const tiles: Record<string, number> = { ...t.tiles, [mask]: tile };
+    update({ terrains: terrains().map((item) => (item === t ? { ...item, tiles } : item)) });
+
+    // Advance to the next unassigned mask to speed up filling a rule set
+    const masks = getSchemeMasks(t.scheme);
+    const start = masks.indexOf(mask);
+    const next = [...masks.slice(start + 1), ...masks.slice(0, start)].find((m) => tiles[m] === undefined);
+    setSelectedMask(next ?? null);
+  };
+
+  const handleWheel = (event: WheelEvent) => {
+    if (!event.ctrlKey) return;
+    event.preventDefault();
+    const next = zoom() + (event.deltaY < 0 ? 1 : -1);
+    setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next)));
+  };
+
+  const browseForImage = async () => {
+    let paths: string[];
+    try {
+      paths = await MessageService.instance.pickFile({
+        openLabel: "Select Tileset Image",
+        filters: { Images: ["png", "gif", "bmp", "webp"] }
+      });
+    } catch (err) {
+      if (!isFileSelectionCancelled(err)) {
+        setLoadError(err instanceof Error ? err.message : "Failed to select tileset image");
+      }
+      return;
+    }
+    if (paths.length > 0) {
+      update({ file: paths[0] });
+    }
+  };
+
+  const fitColumnsToImage = () => {
+    const img = image();
+    if (!img) return;
+    update({ w: Math.max(1, Math.floor(img.naturalWidth / current().tw)) });
+  };
+
+  return (
+    <div class="tileset-editor">
+      <style nonce={props.nonce}>{styles}</style>
+
+      <div class="panel">
+        <label class="field">
+          <span>GID</span>
+          <div class="input-with-button">
+            <input
+              value={current().gid}
+              placeholder="Unique identifier"
+              onInput={(e) => update({ gid: e.currentTarget.value.trim() })}
+            />
+            <button class="secondary" onClick={() => update({ gid: createGid() })}>
+              Generate
+            </button>
+          </div>
+        </label>
+
+        <label class="field">
+          <span>Source Image</span>
+          <div class="input-with-button">
+            <input
+              value={current().file}
+              placeholder="e.g., ../images/tiles.png"
+              onChange={(e) => update({ file: e.currentTarget.value.trim() })}
+            />
+            <button class="secondary" onClick={browseForImage}>
+              Browse...
+            </button>
+          </div>
+        </label>
+
+        <div class="field-row">
+          <label class="field">
+            <span>Tile Width</span>
+            <input
+              type="number"
+              min="1"
+              value={current().tw}
+              onInput={(e) => update({ tw: toPositiveInt(e.currentTarget.value, current().tw) })}
+            />
+          </label>
+          <label class="field">
+            <span>Tile Height</span>
+            <input
+              type="number"
+              min="1"
+              value={current().th}
+              onInput={(e) => update({ th: toPositiveInt(e.currentTarget.value, current().th) })}
+            />
+          </label>
+          <label class="field">
+            <span>Tiles per Row</span>
+            <div class="input-with-button">
+              <input
+                type="number"
+                min="1"
+                value={current().w}
+                onInput={(e) => update({ w: toPositiveInt(e.currentTarget.value, current().w) })}
+              />
+              <button class="secondary" disabled={!image()} onClick={fitColumnsToImage}>
+                Fit
+              </button>
+            </div>
+          </label>
+        </div>
+      </div>
+
+      <Show when={loadError()}>
+        <div class="error-box">{loadError()}</div>
+      </Show>
+
+      <Show when={!file()}>
+        <div class="hint-box">Select a source image to slice it into tiles.</div>
+      </Show>
+
+      <Show when={image()}>
+        {(img) => (
+          <>
+            <div class="view-controls">
+              <label>
+                Zoom: {zoom()}x
+                <input
+                  type="range"
+                  min={MIN_ZOOM}
+                  max={MAX_ZOOM}
+                  step="1"
+                  value={zoom()}
+                  onInput={(e) => setZoom(parseInt(e.currentTarget.value, 10))}
+                />
+              </label>
+              <label class="checkbox">
+                <input
+                  type="checkbox"
+                  checked={showGrid()}
+                  onChange={(e) => setShowGrid(e.currentTarget.checked)}
+                />
+                Show grid
+              </label>
+              <span class="stats">
+                {img().naturalWidth}×{img().naturalHeight}px · {current().w}×{rows()} tiles · {tileCount()} total
+                <Show when={hoveredTile() !== null}> · Tile #{hoveredTile()}</Show>
+              </span>
+            </div>
+
+            <div class="canvas-panel" onWheel={handleWheel}>
+              <canvas
+                ref={(el) => setCanvasEl(el)}
+                onMouseMove={handlePointerMove}
+                onMouseLeave={() => setHoveredTile(null)}
+                onClick={handleCanvasClick}
+              />
+            </div>
+
+            <Show when={selectedTile() !== null && selectedTile()! < tileCount()}>
+              <TileDataPanel
+                index={selectedTile()!}
+                tileset={current()}
+                image={img()}
+                tileCount={tileCount()}
+                data={tiles()[selectedTile()!]}
+                onChange={(data) => updateTileData(selectedTile()!, data)}
+              />
+            </Show>
+
+            <TerrainPanel
+              terrains={terrains()}
+              tileset={current()}
+              image={img()}
+              terrainIndex={terrainIndex()}
+              selectedMask={selectedMask()}
+              onSelectTerrain={setTerrainIndex}
+              onSelectMask={setSelectedMask}
+              onChange={(next) => update({ terrains: next })}
+            />
+          </>
+        )}
+      </Show>
+    </div>
+  );
+};
+
+const styles = `
+.tileset-editor {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  color: var(--vscode-editor-foreground);
+}
+
+.tileset-editor .panel {
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  padding: 1rem;
+  background: var(--vscode-editorWidget-background);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 6px;
+  max-width: 720px;
+}
+
+.tileset-editor .field {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  flex: 1;
+}
+
+.tileset-editor .field-row {
+  display: flex;
+  gap: 1rem;
+}
+
+.tileset-editor input[type="number"],
+.tileset-editor input:not([type]) {
+  background: var(--vscode-input-background);
+  border: 1px solid var(--vscode-input-border);
+  color: var(--vscode-input-foreground);
+  padding: 0.35rem 0.5rem;
+  border-radius: 4px;
+  min-width: 0;
+}
+
+.tileset-editor .input-with-button {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.tileset-editor .input-with-button input {
+  flex: 1;
+}
+
+.tileset-editor button.secondary {
+  background: var(--vscode-button-secondaryBackground);
+  color: var(--vscode-button-secondaryForeground);
+  border: 1px solid var(--vscode-button-border, transparent);
+  border-radius: 4px;
+  padding: 0.35rem 0.75rem;
+  cursor: pointer;
+  white-space: nowrap;
+}
+
+.tileset-editor button.secondary:hover:not(:disabled) {
+  background: var(--vscode-button-secondaryHoverBackground);
+}
+
+.tileset-editor button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.tileset-editor .toolbar-row {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  flex-wrap: wrap;
+}
+
+.tileset-editor button.active {
+  outline: 2px solid var(--vscode-focusBorder);
+}
+
+.tileset-editor select {
+  background: var(--vscode-dropdown-background);
+  border: 1px solid var(--vscode-dropdown-border);
+  color: var(--vscode-dropdown-foreground);
+  padding: 0.3rem 0.45rem;
+  border-radius: 4px;
+}
+
+.tileset-editor .mask-grid {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.35rem;
+}
+
+.tileset-editor .mask-slot {
+  padding: 3px;
+  background: var(--vscode-editor-background);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 4px;
+  cursor: pointer;
+}
+
+.tileset-editor .mask-slot:not(.assigned) {
+  opacity: 0.6;
+}
+
+.tileset-editor .mask-slot.selected {
+  border-color: var(--vscode-focusBorder);
+  outline: 1px solid var(--vscode-focusBorder);
+  opacity: 1;
+}
+
+.tileset-editor .mask-slot canvas {
+  cursor: pointer;
+}
+
+.tileset-editor h4 {
+  margin: 0 0 0.5rem;
+  font-size: 0.9rem;
+}
+
+.tileset-editor .tile-data-columns {
+  display: flex;
+  gap: 1.5rem;
+  flex-wrap: wrap;
+}
+
+.tileset-editor .tile-properties,
+.tileset-editor .tile-collision,
+.tileset-editor .tile-animation {
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  min-width: 260px;
+}
+
+.tileset-editor .tile-properties table {
+  border-collapse: collapse;
+}
+
+.tileset-editor .tile-properties td {
+  padding: 0.15rem 0.35rem 0.15rem 0;
+}
+
+.tileset-editor .tile-properties td input:not([type="checkbox"]) {
+  width: 7rem;
+}
+
+.tileset-editor input[type="text"] {
+  background: var(--vscode-input-background);
+  border: 1px solid var(--vscode-input-border);
+  color: var(--vscode-input-foreground);
+  padding: 0.35rem 0.5rem;
+  border-radius: 4px;
+}
+
+.tileset-editor .animation-body {
+  display: flex;
+  gap: 0.75rem;
+  align-items: flex-start;
+}
+
+.tileset-editor .animation-body td {
+  padding: 0.1rem 0.25rem;
+  white-space: nowrap;
+}
+
+.tileset-editor .animation-body input[type="number"] {
+  width: 4.5rem;
+  margin: 0 0.25rem;
+}
+
+.tileset-editor canvas.animation-preview {
+  width: 64px;
+  height: 64px;
+  background: #2b2b2b;
+  border-radius: 4px;
+  cursor: default;
+}
+
+.tileset-editor canvas.frame-thumb {
+  cursor: default;
+}
+
+.tileset-editor .collision-canvas {
+  align-self: flex-start;
+  padding: 0.5rem;
+  border-radius: 4px;
+  background: #2b2b2b;
+}
+
+.tileset-editor .view-controls {
+  display: flex;
+  align-items: center;
+  gap: 1.5rem;
+  flex-wrap: wrap;
+}
+
+.tileset-editor .view-controls label {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.tileset-editor .stats {
+  color: var(--vscode-descriptionForeground);
+  font-size: 0.9rem;
+}
+
+.tileset-editor .canvas-panel {
+  overflow: auto;
+  max-height: 70vh;
+  padding: 0.5rem;
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 6px;
+  background-color: #2b2b2b;
+  background-image:
+    linear-gradient(45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(-45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(45deg, transparent 75%, #3a3a3a 75%),
+    linear-gradient(-45deg, transparent 75%, #3a3a3a 75%);
+  background-size: 16px 16px;
+  background-position: 0 0, 0 8px, 8px -8px, -8px 0;
+}
+
+.tileset-editor canvas {
+  display: block;
+  image-rendering: pixelated;
+  cursor: crosshair;
+}
+
+.tileset-editor .error-box,
+.tileset-editor .hint-box {
+  padding: 1rem;
+  border-radius: 6px;
+  background: var(--vscode-inputValidation-errorBackground);
+  border: 1px solid var(--vscode-inputValidation-errorBorder);
+  color: var(--vscode-inputValidation-errorForeground);
+}
+
+.tileset-editor .hint-box {
+  background: var(--vscode-inputValidation-infoBackground);
+  border-color: var(--vscode-inputValidation-infoBorder);
+  color: var(--vscode-inputValidation-infoForeground);
+}
+`;
+
+export const tilesetEditorPlugin: WebviewAssetPlugin<TilesetAsset> = {
+  metadata: {
+    type: "tileset",
+    title: "Tileset",
+    description: "Slice an image into a grid of fixed-size tiles"
+  },
+  Component: TilesetEditorComponent
+};
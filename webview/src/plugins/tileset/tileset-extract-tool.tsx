@@ -0,0 +1,513 @@
+import { Show, createEffect, createMemo, createSignal } from "solid-js";
+import type { Component } from "solid-js";
+import type { AssetJson } from "@protocol/messages";
+import type { TilesetAsset } from "@common/tileset";
+import type { TilemapAsset } from "@common/tilemap";
+import { TILE_FLIP_H, TILE_FLIP_V, getTileFlags } from "@common/tilemap";
+import { extractTiles, type ExtractedTiles } from "@common/tile-extract";
+import { MessageService } from "../../services/message-service";
+import { createGid } from "../../services/gid";
+import { loadImage } from "../../services/image-loader";
+import type { PluginComponentProps, WebviewAssetPlugin } from "../registry";
+
+const PREVIEW_SCALE = 2;
+const DUPLICATE_COLOR = "rgba(255, 160, 0, 0.35)";
+const FLIPPED_COLOR = "rgba(64, 160, 255, 0.35)";
+
+interface TilesetExtractValue extends AssetJson {
+  type: "tileset-extract";
+}
+
+function toPositiveInt(value: string, fallback: number): number {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+function readPixels(image: HTMLImageElement): Uint8ClampedArray {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+/**
+ * Lay out the distinct tiles row by row in a new image.
+ */
+function buildTilesetImage(
+  image: HTMLImageElement,
+  result: ExtractedTiles,
+  tw: number,
+  th: number,
+  columns: number
+): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  const count = result.tiles.length;
+  canvas.width = Math.max(1, Math.min(columns, count)) * tw;
+  canvas.height = Math.max(1, Math.ceil(count / columns)) * th;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.imageSmoothingEnabled = false;
+  result.tiles.forEach((tile, i) => {
+    // Partial edge tiles are clipped to the image, leaving the rest transparent
+    const w = Math.min(tw, image.naturalWidth - tile.x);
+    const h = Math.min(th, image.naturalHeight - tile.y);
+    ctx.drawImage(image, tile.x, tile.y, w, h, (i % columns) * tw, Math.floor(i / columns) * th, w, h);
+  });
+  return canvas;
+}
+
+function fileName(path: string): string {
+  return path.split(/[/\\]/).pop() ?? path;
+}
+
+const TilesetExtractToolComponent: Component<PluginComponentProps<TilesetExtractValue>> = (props) => {
+  const [image, setImage] = createSignal<HTMLImageElement | null>(null);
+  const [imagePath, setImagePath] = createSignal<string | null>(null);
+  const [tileWidth, setTileWidth] = createSignal(16);
+  const [tileHeight, setTileHeight] = createSignal(16);
+  const [columns, setColumns] = createSignal(16);
+  const [detectFlips, setDetectFlips] = createSignal(true);
+  const [skipEmpty, setSkipEmpty] = createSignal(true);
+  const [createTilemap, setCreateTilemap] = createSignal(true);
+  const [status, setStatus] = createSignal("Select an image to begin.");
+  const [busy, setBusy] = createSignal(false);
+  const [sourceCanvas, setSourceCanvas] = createSignal<HTMLCanvasElement | null>(null);
+  const [outputCanvas, setOutputCanvas] = createSignal<HTMLCanvasElement | null>(null);
+
+  const pixels = createMemo(() => {
+    const img = image();
+    return img ? readPixels(img) : null;
+  });
+
+  const result = createMemo((): ExtractedTiles | null => {
+    const img = image();
+    const data = pixels();
+    if (!img || !data) return null;
+    return extractTiles(data, img.naturalWidth, img.naturalHeight, {
+      tw: tileWidth(),
+      th: tileHeight(),
+      detectFlips: detectFlips(),
+      skipEmpty: skipEmpty()
+    });
+  });
+
+  const partialTiles = () => {
+    const img = image();
+    return img !== null && (img.naturalWidth % tileWidth() !== 0 || img.naturalHeight % tileHeight() !== 0);
+  };
+
+  const pickImage = async () => {
+    try {
+      setBusy(true);
+      setStatus("Opening image picker…");
+      const [picked] = await MessageService.instance.pickFile({
+        filters: { Images: ["png"] },
+        canSelectMany: false
+      });
+      if (!picked) {
+        setStatus("Image selection cancelled.");
+        return;
+      }
+      const loaded = await loadImage(picked);
+      setImage(loaded);
+      setImagePath(picked);
+      setStatus(`Loaded ${fileName(picked)} (${loaded.naturalWidth}×${loaded.naturalHeight}px).`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to load image";
+      setStatus(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ===== Previews =====
+
+  createEffect(() => {
+    const canvas = sourceCanvas();
+    const img = image();
+    const extracted = result();
+    if (!canvas || !img || !extracted) return;
+    const tw = tileWidth();
+    const th = tileHeight();
+    const s = PREVIEW_SCALE;
+
+    canvas.width = img.naturalWidth * s;
+    canvas.height = img.naturalHeight * s;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    // Tint cells that reuse an earlier tile: orange for exact repeats, blue for flips
+    const firstCell = new Set(extracted.tiles.map((t) => `${t.x / tw},${t.y / th}`));
+    extracted.data.forEach((row, y) =>
+      row.forEach((value, x) => {
+        if (value === 0 || firstCell.has(`${x},${y}`)) return;
+        const flags = getTileFlags(value) & (TILE_FLIP_H | TILE_FLIP_V);
+        ctx.fillStyle = flags ? FLIPPED_COLOR : DUPLICATE_COLOR;
+        ctx.fillRect(x * tw * s, y * th * s, tw * s, th * s);
+      })
+    );
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.25)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let col = 0; col <= extracted.columns; col++) {
+      ctx.moveTo(col * tw * s + 0.5, 0);
+      ctx.lineTo(col * tw * s + 0.5, canvas.height);
+    }
+    for (let row = 0; row <= extracted.rows; row++) {
+      ctx.moveTo(0, row * th * s + 0.5);
+      ctx.lineTo(canvas.width, row * th * s + 0.5);
+    }
+    ctx.stroke();
+  });
+
+  createEffect(() => {
+    const canvas = outputCanvas();
+    const img = image();
+    const extracted = result();
+    if (!canvas || !img || !extracted) return;
+    const tiles = buildTilesetImage(img, extracted, tileWidth(), tileHeight(), columns());
+    canvas.width = tiles.width * PREVIEW_SCALE;
+    canvas.height = tiles.height * PREVIEW_SCALE;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(tiles, 0, 0, canvas.width, canvas.height);
+  });
+
+  // ===== Export =====
+
+  const exportTileset = async () => {
+    const img = image();
+    const extracted = result();
+    if (!img || !extracted) {
+      MessageService.instance.showNotification("warning", "Load an image before exporting.");
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setStatus("Saving files…");
+      const source = imagePath() ? fileName(imagePath()!).replace(/\.png$/i, "") : "tileset";
+      const savePath = await MessageService.instance.showSaveDialog({
+        filters: { PNG: ["png"], "All Files": ["*"] },
+        defaultFilename: `${source}-tiles.png`
+      });
+
+      if (!savePath) {
+        setStatus("Save cancelled.");
+        return;
+      }
+
+      const pngPath = savePath.toLowerCase().endsWith(".png") ? savePath : `${savePath}.png`;
+      const tilesetPath = pngPath.replace(/\.png$/i, ".asset");
+      const tilemapPath = pngPath.replace(/\.png$/i, "-map.asset");
+      const tw = tileWidth();
+      const th = tileHeight();
+      const perRow = Math.max(1, Math.min(columns(), extracted.tiles.length));
+
+      const tiles = buildTilesetImage(img, extracted, tw, th, perRow);
+      const pngBase64 = tiles.toDataURL("image/png").split(",")[1];
+      await MessageService.instance.writeFile(pngPath, pngBase64, "binary");
+
+      // All outputs share a directory, so references are plain file names
+      const tileset: TilesetAsset = {
+        type: "tileset",
+        gid: createGid(),
+        file: fileName(pngPath),
+        tw,
+        th,
+        w: perRow
+      };
+      await MessageService.instance.writeFile(tilesetPath, JSON.stringify(tileset, null, 2), "text");
+
+      const written = [pngPath, tilesetPath];
+      if (createTilemap()) {
+        const tilemap: TilemapAsset = {
+          type: "tilemap",
+          w: extracted.columns,
+          h: extracted.rows,
+          tw,
+          th,
+          layers: [
+            {
+              name: "background",
+              tileset: { path: fileName(tilesetPath), gid: tileset.gid },
+              visible: true,
+              data: extracted.data
+            }
+          ]
+        };
+        await MessageService.instance.writeFile(tilemapPath, JSON.stringify(tilemap, null, 2), "text");
+        written.push(tilemapPath);
+      }
+
+      MessageService.instance.showNotification("info", `Saved ${written.join(", ")}`);
+      setStatus(`Exported ${extracted.tiles.length} tiles.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Export failed";
+      MessageService.instance.showNotification("error", message);
+      setStatus(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div class="tileset-extract">
+      <style nonce={props.nonce}>{styles}</style>
+      <div class="header">
+        <div>
+          <h1>Extract Tileset from Image</h1>
+          <p>{status()}</p>
+        </div>
+        <button class="primary" onClick={pickImage} disabled={busy()}>
+          {image() ? "Change Image" : "Select Image"}
+        </button>
+      </div>
+
+      <div class="panel">
+        <div class="row">
+          <label>Image</label>
+          <div class="value">{imagePath() ?? "No image loaded"}</div>
+        </div>
+        <div class="row">
+          <label>Tile Size</label>
+          <div class="control-group">
+            <input
+              type="number"
+              min="1"
+              value={tileWidth()}
+              onInput={(e) => setTileWidth(toPositiveInt(e.currentTarget.value, tileWidth()))}
+            />
+            ×
+            <input
+              type="number"
+              min="1"
+              value={tileHeight()}
+              onInput={(e) => setTileHeight(toPositiveInt(e.currentTarget.value, tileHeight()))}
+            />
+            px
+          </div>
+        </div>
+        <div class="row">
+          <label>Tiles per Row</label>
+          <input
+            type="number"
+            min="1"
+            value={columns()}
+            onInput={(e) => setColumns(toPositiveInt(e.currentTarget.value, columns()))}
+          />
+        </div>
+        <div class="row">
+          <label>Duplicates</label>
+          <label class="checkbox">
+            <input type="checkbox" checked={detectFlips()} onChange={(e) => setDetectFlips(e.currentTarget.checked)} />
+            Match horizontally and vertically flipped tiles
+          </label>
+        </div>
+        <div class="row">
+          <label>Transparency</label>
+          <label class="checkbox">
+            <input type="checkbox" checked={skipEmpty()} onChange={(e) => setSkipEmpty(e.currentTarget.checked)} />
+            Leave fully transparent tiles empty
+          </label>
+        </div>
+        <div class="row">
+          <label>Tilemap</label>
+          <label class="checkbox">
+            <input
+              type="checkbox"
+              checked={createTilemap()}
+              onChange={(e) => setCreateTilemap(e.currentTarget.checked)}
+            />
+            Also save a tilemap that rebuilds the image
+          </label>
+        </div>
+        <Show when={result()}>
+          {(extracted) => (
+            <div class="row stats">
+              <div>Cells: {extracted().stats.cells}</div>
+              <div>Unique: {extracted().stats.unique}</div>
+              <div>Duplicates: {extracted().stats.duplicates}</div>
+              <div>Flipped: {extracted().stats.flipped}</div>
+              <div>Empty: {extracted().stats.empty}</div>
+            </div>
+          )}
+        </Show>
+        <Show when={partialTiles()}>
+          <div class="footnote">
+            The image size is not a multiple of the tile size; edge tiles are padded with transparency.
+          </div>
+        </Show>
+        <div class="actions">
+          <button class="primary" disabled={!result() || busy()} onClick={exportTileset}>
+            {busy() ? "Working…" : "Save Tileset"}
+          </button>
+        </div>
+      </div>
+
+      <Show when={image()}>
+        <div class="preview-panel">
+          <div class="preview-label">
+            Source ({PREVIEW_SCALE}x) · orange: exact duplicate · blue: flipped duplicate
+          </div>
+          <canvas class="preview-canvas" ref={(el) => setSourceCanvas(el)} />
+        </div>
+        <div class="preview-panel">
+          <div class="preview-label">Deduplicated tileset ({PREVIEW_SCALE}x)</div>
+          <canvas class="preview-canvas" ref={(el) => setOutputCanvas(el)} />
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+const styles = `
+.tileset-extract {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  color: var(--vscode-editor-foreground);
+}
+
+.tileset-extract .header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 1rem;
+}
+
+.tileset-extract h1 {
+  margin: 0;
+  font-size: 1.4rem;
+}
+
+.tileset-extract p {
+  margin: 0.2rem 0 0;
+  color: var(--vscode-descriptionForeground);
+}
+
+.tileset-extract .panel {
+  border: 1px solid var(--vscode-panel-border);
+  background: var(--vscode-editorWidget-background);
+  border-radius: 6px;
+  padding: 1rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+}
+
+.tileset-extract .row {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  flex-wrap: wrap;
+}
+
+.tileset-extract .row > label:first-child {
+  width: 140px;
+  color: var(--vscode-descriptionForeground);
+}
+
+.tileset-extract .row .value {
+  flex: 1;
+  font-weight: 600;
+}
+
+.tileset-extract .control-group {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.tileset-extract input[type="number"] {
+  width: 5rem;
+  background: var(--vscode-input-background);
+  color: var(--vscode-input-foreground);
+  border: 1px solid var(--vscode-input-border);
+  padding: 0.35rem 0.5rem;
+  border-radius: 4px;
+}
+
+.tileset-extract button.primary {
+  background: var(--vscode-button-background);
+  color: var(--vscode-button-foreground);
+  border: 1px solid var(--vscode-button-border, transparent);
+  border-radius: 4px;
+  padding: 0.5rem 0.9rem;
+  cursor: pointer;
+}
+
+.tileset-extract button.primary:disabled {
+  opacity: 0.6;
+  cursor: not-allowed;
+}
+
+.tileset-extract .checkbox {
+  display: flex;
+  align-items: center;
+  gap: 0.35rem;
+  color: var(--vscode-editor-foreground);
+}
+
+.tileset-extract .row.stats {
+  justify-content: space-between;
+  font-weight: 600;
+}
+
+.tileset-extract .actions {
+  display: flex;
+  justify-content: flex-end;
+}
+
+.tileset-extract .footnote {
+  color: var(--vscode-descriptionForeground);
+  font-size: 0.85rem;
+}
+
+.tileset-extract .preview-panel {
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 6px;
+  padding: 1rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  overflow: auto;
+  background-color: #2b2b2b;
+  background-image:
+    linear-gradient(45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(-45deg, #3a3a3a 25%, transparent 25%),
+    linear-gradient(45deg, transparent 75%, #3a3a3a 75%),
+    linear-gradient(-45deg, transparent 75%, #3a3a3a 75%);
+  background-size: 16px 16px;
+  background-position: 0 0, 0 8px, 8px -8px, -8px 0;
+}
+
+.tileset-extract .preview-canvas {
+  display: block;
+  image-rendering: pixelated;
+  align-self: flex-start;
+}
+
+.tileset-extract .preview-label {
+  color: #cccccc;
+  font-size: 0.9rem;
+}
+`;
+
+export const tilesetExtractPlugin: WebviewAssetPlugin<TilesetExtractValue> = {
+  metadata: {
+    type: "tileset-extract",
+    title: "Extract Tileset from Image",
+    description: "Slice an image into deduplicated tiles and rebuild it as a tilemap"
+  },
+  Component: TilesetExtractToolComponent
+};
@@ -0,0 +1,8 @@
+/**
+ * Create a random 64-bit globally unique identifier as 16 hex characters.
+ */
+export function createGid(): string {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,17 @@
+import { MessageService } from "./message-service";
+
+/**
+ * Load an image through the host and decode it into an HTMLImageElement.
+ * Paths are resolved like MessageService.readImage (document- or workspace-relative).
+ * @throws FileAccessError if the host cannot read the file
+ * @throws Error if the image data cannot be decoded
+ */
+export async function loadImage(filePath: string): Promise<HTMLImageElement> {
+  const dataUrl = await MessageService.instance.readImage(filePath);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to decode image ${filePath}`));
+    img.src = dataUrl;
+  });
+}
@@ -5,6 +5,8 @@ import type {
   WebviewToHostMessage,
   DirectoryEntry
 } from "@protocol/messages";
+import { FILE_SELECTION_CANCELLED } from "@protocol/messages";
+import type { JsonSchema } from "@protocol/json-schema";
 import { EventEmitter } from "./event-emitter";
 
 declare function acquireVsCodeApi<TState = unknown>(): {
@@ -28,6 +30,13 @@ export class FileAccessError extends Error {
   }
 }
 
+/**
+ * True if `error` is pickFile's rejection for a picker closed without a selection.
+ */
+export function isFileSelectionCancelled(error: unknown): boolean {
+  return error instanceof FileAccessError && error.message === FILE_SELECTION_CANCELLED;
+}
+
 export interface FilePickerOptions {
   canSelectMany?: boolean;
   openLabel?: string;
@@ -35,6 +44,21 @@ export interface FilePickerOptions {
   defaultUri?: string;
 }
 
+export interface ResolvedGid {
+  /** Path of the owning asset, relative to the document (editor) or workspace (tool) */
+  path: string;
+  content: AssetJson;
+}
+
+/** Webview state persisted by VS Code while the panel is hidden */
+export interface WebviewState {
+  content: AssetJson | null;
+  plugin: PluginMetadata | null;
+  registeredTypes?: PluginMetadata[];
+  schema?: JsonSchema;
+  mode: "editor" | "tool";
+}
+
 export interface SaveDialogOptions {
   filters?: Record<string, string[]>;
   defaultUri?: string;
@@ -49,11 +73,7 @@ export interface SaveDialogOptions {
 export class MessageService {
   static instance: MessageService = new MessageService();
 
-  private vscode = acquireVsCodeApi<{
-    content: AssetJson | null;
-    plugin: PluginMetadata | null;
-    mode: "editor" | "tool";
-  }>();
+  private vscode = acquireVsCodeApi<WebviewState>();
   
   private requestIdCounter = 0;
   private pendingRequests = new Map<
@@ -66,7 +86,15 @@ export class MessageService {
   >();
 
   // Event emitters for host → webview messages
-  readonly onInit = new EventEmitter<{ documentUri: string; content: AssetJson; plugin: PluginMetadata }>();
+  readonly onInit = new EventEmitter<{
+    documentUri: string;
+    content: AssetJson;
+    plugin: PluginMetadata;
+    registeredTypes?: PluginMetadata[];
+    schema?: JsonSchema;
+    recovered: boolean;
+    migration?: { from: number; to: number };
+  }>();
   readonly onInitTool = new EventEmitter<{ plugin: PluginMetadata }>();
   readonly onApplyContent = new EventEmitter<{ content: AssetJson }>();
   readonly onError = new EventEmitter<{ message: string }>();
@@ -98,7 +126,15 @@ export class MessageService {
   private routeMessage(message: HostToWebviewMessage): void {
     switch (message.kind) {
       case "init":
-        this.onInit.emit({ documentUri: message.documentUri, content: message.content, plugin: message.plugin });
+        this.onInit.emit({
+          documentUri: message.documentUri,
+          content: message.content,
+          plugin: message.plugin,
+          registeredTypes: message.registeredTypes,
+          schema: message.schema,
+          recovered: message.recovered ?? false,
+          migration: message.migration
+        });
         break;
       case "initTool":
         this.onInitTool.emit({ plugin: message.plugin });
@@ -115,6 +151,7 @@ export class MessageService {
       case "fileWritten":
       case "saveDialogResult":
       case "directoryListing":
+      case "gidResolved":
         // Route to pending request handlers
         this.resolvePendingRequest(message);
         break;
@@ -146,6 +183,8 @@ export class MessageService {
         pending.resolve(message.path);
       } else if (message.kind === "directoryListing") {
         pending.resolve(message.entries);
+      } else if (message.kind === "gidResolved") {
+        pending.resolve({ path: message.path, content: message.content });
       }
     } else {
       pending.reject(new FileAccessError(message.error));
@@ -228,7 +267,7 @@ export class MessageService {
   /**
    * Show VS Code's native file picker and return selected file paths.
    * Works in both asset editor mode (paths relative to document) and tool mode (workspace-relative paths).
-   * @throws FileAccessError if the host reports an error or user cancels
+   * @throws FileAccessError if the host reports an error or user cancels; see isFileSelectionCancelled
    * @throws TimeoutError if the request times out (30 seconds)
    */
   async pickFile(options?: FilePickerOptions): Promise<string[]> {
@@ -246,7 +285,7 @@ export class MessageService {
    * Only available in standalone tool mode.
    * @throws FileAccessError if the host reports an error
    * @throws TimeoutError if the request times out (60 seconds)
-   * @returns Absolute path to selected save location, or null if cancelled
+   * @returns Workspace-relative path to the selected save location (like pickFile), or null if cancelled
    */
   async showSaveDialog(options?: SaveDialogOptions): Promise<string | null> {
     const { requestId, promise } = this.trackRequest<string | null>(60000);
@@ -276,6 +315,22 @@ export class MessageService {
     return promise;
   }
 
+  /**
+   * Resolve a gid to the asset that owns it using the host's workspace index.
+   * Works in both asset editor mode (path relative to document) and tool mode (workspace-relative path).
+   * @throws FileAccessError if no asset with the gid exists or it cannot be read
+   * @throws TimeoutError if the request times out (10 seconds)
+   */
+  async resolveGid(gid: string): Promise<ResolvedGid> {
+    const { requestId, promise } = this.trackRequest<ResolvedGid>(10000);
+    this.vscode.postMessage({
+      kind: "resolveGid",
+      requestId,
+      gid
+    });
+    return promise;
+  }
+
   /**
    * Show a VS Code notification toast.
    */
@@ -306,6 +361,24 @@ export class MessageService {
     });
   }
 
+  /**
+   * Ask the host to open a diff between the file on disk and the current content.
+   */
+  notifyCompareWithDisk(): void {
+    this.vscode.postMessage({
+      kind: "compareWithDisk"
+    });
+  }
+
+  /**
+   * Ask the host to reopen the asset in VS Code's text editor.
+   */
+  notifyOpenAsText(): void {
+    this.vscode.postMessage({
+      kind: "openAsText"
+    });
+  }
+
   /**
    * Notify host that the webview is ready.
    */
@@ -318,14 +391,14 @@ export class MessageService {
   /**
    * Get persisted state from VS Code.
    */
-  getState(): { content: AssetJson | null; plugin: PluginMetadata | null; mode: "editor" | "tool" } | undefined {
+  getState(): WebviewState | undefined {
     return this.vscode.getState();
   }
 
   /**
    * Persist state to VS Code.
    */
-  setState(data: { content: AssetJson | null; plugin: PluginMetadata | null; mode: "editor" | "tool" }): void {
+  setState(data: WebviewState): void {
     this.vscode.setState(data);
   }
 }
@@ -0,0 +1,43 @@
+/**
+ * Resolve a path stored inside an asset against the asset's own location.
+ * Both paths use forward slashes; "." and ".." segments are collapsed where possible.
+ * @param assetPath Path of the asset file, as the host resolves it
+ * @param relativePath Path stored in the asset, relative to the asset file
+ */
+export function resolveAssetRelativePath(assetPath: string, relativePath: string): string {
+  const normalized = relativePath.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:\//.test(normalized)) {
+    return normalized;
+  }
+
+  const segments = assetPath.replace(/\\/g, "/").split("/").slice(0, -1);
+  for (const segment of normalized.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === ".." && segments.length > 0 && segments[segments.length - 1] !== "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+/**
+ * Path to store inside an asset to reach `targetPath`; the inverse of resolveAssetRelativePath.
+ * Absolute paths on another drive stay absolute.
+ * @param assetPath Path of the asset file, as the host resolves it
+ * @param targetPath Path of the referenced file, in the same form as assetPath
+ */
+export function toAssetRelativePath(assetPath: string, targetPath: string): string {
+  const from = assetPath.replace(/\\/g, "/").split("/").slice(0, -1);
+  const to = targetPath.replace(/\\/g, "/").split("/");
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+  // Absolute paths on different drives
+  if (common === 0 && /^([a-zA-Z]:)?$/.test(to[0])) {
+    return to.join("/");
+  }
+  return [...from.slice(common).map(() => ".."), ...to.slice(common)].join("/");
+}
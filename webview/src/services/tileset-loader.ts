@@ -0,0 +1,72 @@
+import type { TilesetAsset } from "@common/tileset";
+import type { TilesetReference } from "@common/tilemap";
+import { loadImage } from "./image-loader";
+import { MessageService } from "./message-service";
+import { resolveAssetRelativePath } from "./path-utils";
+
+export interface LoadedTileset {
+  /** Path the tileset asset was loaded from */
+  path: string;
+  asset: TilesetAsset;
+  image: HTMLImageElement;
+}
+
+/**
+ * Load a tileset asset and its source image through the host.
+ * The image path inside the tileset is resolved relative to the tileset asset.
+ * @throws FileAccessError if the host cannot read the asset or image
+ * @throws Error if the file is not a tileset asset or the image cannot be decoded
+ */
+export async function loadTileset(path: string): Promise<LoadedTileset> {
+  const text = await MessageService.instance.readFile(path);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`${path} is not valid JSON`);
+  }
+
+  const asset = parsed as Partial<TilesetAsset> | null;
+  if (!asset || asset.type !== "tileset") {
+    throw new Error(`${path} is not a tileset asset`);
+  }
+  if (!asset.file) {
+    throw new Error(`Tileset ${path} has no source image`);
+  }
+
+  const tileset: TilesetAsset = {
+    type: "tileset",
+    gid: asset.gid ?? "",
+    file: asset.file,
+    tw: typeof asset.tw === "number" ? asset.tw : 16,
+    th: typeof asset.th === "number" ? asset.th : 16,
+    w: typeof asset.w === "number" ? asset.w : 16,
+    terrains: Array.isArray(asset.terrains) ? asset.terrains : [],
+    tiles: asset.tiles && typeof asset.tiles === "object" ? asset.tiles : {}
+  };
+  const image = await loadImage(resolveAssetRelativePath(path, tileset.file));
+  return { path, asset: tileset, image };
+}
+
+/**
+ * Load the tileset a reference points at.
+ * The gid is resolved through the host's workspace index first, so references
+ * keep working after the tileset file is moved; the stored path is the fallback.
+ * The returned path is the one the tileset was actually loaded from.
+ * @throws FileAccessError if neither the gid nor the path can be resolved
+ */
+export async function loadTilesetReference(reference: TilesetReference): Promise<LoadedTileset> {
+  if (reference.gid) {
+    try {
+      const resolved = await MessageService.instance.resolveGid(reference.gid);
+      return await loadTileset(resolved.path);
+    } catch (error) {
+      if (!reference.path) throw error;
+    }
+  }
+  if (!reference.path) {
+    throw new Error("No tileset selected");
+  }
+  return loadTileset(reference.path);
+}